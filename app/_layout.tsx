@@ -10,6 +10,7 @@ import "react-native-gesture-handler";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 
+import { UnifiedDataProvider } from "@/components/UnifiedDataProvider";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
 export default function RootLayout() {
@@ -25,23 +26,27 @@ export default function RootLayout() {
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-        <Stack
-          screenOptions={{
-            headerBackVisible: true, // 全局默认显示返回箭头
-          }}
+      <UnifiedDataProvider>
+        <ThemeProvider
+          value={colorScheme === "dark" ? DarkTheme : DefaultTheme}
         >
-          <Stack.Screen
-            name="index"
-            options={{
-              headerShown: true,
-              headerBackVisible: false,
-              headerLeft: () => null, // 彻底隐藏返回按钮
+          <Stack
+            screenOptions={{
+              headerBackVisible: true, // 全局默认显示返回箭头
             }}
-          />
-        </Stack>
-        <StatusBar style="auto" />
-      </ThemeProvider>
+          >
+            <Stack.Screen
+              name="index"
+              options={{
+                headerShown: true,
+                headerBackVisible: false,
+                headerLeft: () => null, // 彻底隐藏返回按钮
+              }}
+            />
+          </Stack>
+          <StatusBar style="auto" />
+        </ThemeProvider>
+      </UnifiedDataProvider>
     </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,483 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useUnifiedData } from "@/hooks/useUnifiedData";
+import { BackupFiles, type BackupFile } from "@/utils/backupFiles";
+import { DataValidator } from "@/utils/dataValidator";
+
+// 格式化文件大小
+const formatSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export default function BackupsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { dataManager, loading: dataLoading, restoreBackup } = useUnifiedData();
+
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  // 待确认的操作：恢复或删除某个备份文件
+  const [pendingAction, setPendingAction] = useState<{
+    type: "restore" | "delete";
+    backup: BackupFile;
+  } | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await dataManager.listBackupFiles());
+    } catch (error) {
+      console.error("加载备份列表失败:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [dataManager]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleCreateBackup = async () => {
+    if (creating) return;
+    setCreating(true);
+    try {
+      const backup = await dataManager.createBackupFile();
+      if (backup) {
+        await loadBackups();
+        Alert.alert("成功", `已创建备份文件 ${backup.name}`);
+      } else {
+        Alert.alert("错误", "创建备份失败，请重试");
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleShareBackup = async (backup: BackupFile) => {
+    const success = await dataManager.shareBackupFile(backup.uri);
+    if (!success) {
+      Alert.alert("错误", "当前设备无法分享文件");
+    }
+  };
+
+  const confirmPendingAction = async () => {
+    if (!pendingAction) return;
+    const { type, backup } = pendingAction;
+    setPendingAction(null);
+    try {
+      if (type === "restore") {
+        const result = await restoreBackup(backup.uri);
+        if (result.success) {
+          Alert.alert("成功", "数据已从备份文件恢复");
+        } else {
+          Alert.alert(
+            "恢复失败",
+            DataValidator.formatErrors(result.errors.slice(0, 5))
+          );
+        }
+      } else {
+        const success = await dataManager.deleteBackupFile(backup.uri);
+        if (success) {
+          setBackups((prev) => prev.filter((item) => item.uri !== backup.uri));
+        } else {
+          Alert.alert("错误", "删除备份失败，请重试");
+        }
+      }
+    } catch (error) {
+      console.error("备份操作失败:", error);
+      Alert.alert("错误", "操作失败，请重试");
+    }
+  };
+
+  // Stack.Screen 必须在组件顶层，确保始终渲染
+  // 使用 key 确保每次渲染时都更新配置
+  return (
+    <>
+      <Stack.Screen
+        key="backups-screen"
+        options={{
+          title: "备份文件",
+          headerShown: true,
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Pressable
+              style={styles.headerButton}
+              onPress={() => {
+                router.push("/settings" as any);
+              }}
+            >
+              <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+            </Pressable>
+          ),
+        }}
+      />
+      {loading || dataLoading ? (
+        <ThemedView style={styles.container}>
+          <ThemedText style={styles.loadingText}>加载中...</ThemedText>
+        </ThemedView>
+      ) : !BackupFiles.isAvailable() ? (
+        <ThemedView style={styles.container}>
+          <ThemedText style={styles.loadingText}>
+            当前平台不支持文件备份
+          </ThemedText>
+        </ThemedView>
+      ) : (
+        <View style={[styles.container, { paddingTop: insets.top }]}>
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={[
+              styles.contentContainer,
+              { paddingBottom: insets.bottom + 100 },
+            ]}
+            showsVerticalScrollIndicator={false}
+          >
+            {backups.length === 0 ? (
+              <ThemedView style={styles.emptyState}>
+                <ThemedText style={styles.emptyStateText}>
+                  暂无备份文件，点击下方按钮创建第一个备份
+                </ThemedText>
+              </ThemedView>
+            ) : (
+              backups.map((backup) => (
+                <View key={backup.uri} style={styles.backupItem}>
+                  <View style={styles.backupInfo}>
+                    <ThemedText style={styles.backupName} numberOfLines={1}>
+                      {backup.name}
+                    </ThemedText>
+                    <ThemedText style={styles.backupMeta}>
+                      {new Date(backup.modifiedAt).toLocaleString()} ·{" "}
+                      {formatSize(backup.size)}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.backupActions}>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
+                      ]}
+                      onPress={() =>
+                        setPendingAction({ type: "restore", backup })
+                      }
+                    >
+                      <MaterialIcons name="restore" size={20} color="#007AFF" />
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
+                      ]}
+                      onPress={() => handleShareBackup(backup)}
+                    >
+                      <MaterialIcons name="share" size={20} color="#007AFF" />
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
+                      ]}
+                      onPress={() =>
+                        setPendingAction({ type: "delete", backup })
+                      }
+                    >
+                      <MaterialIcons name="delete" size={20} color="#FF3B30" />
+                    </Pressable>
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View
+            style={[
+              styles.bottomContainer,
+              {
+                paddingBottom: Math.max(insets.bottom, 20) + 20,
+              },
+            ]}
+          >
+            <TouchableOpacity
+              style={[styles.createButton, creating && { opacity: 0.6 }]}
+              onPress={handleCreateBackup}
+              activeOpacity={0.8}
+              disabled={creating}
+            >
+              <ThemedText style={styles.createButtonText}>
+                {creating ? "正在备份..." : "创建备份"}
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* 恢复/删除确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingAction !== null}
+        onRequestClose={() => setPendingAction(null)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.confirmModalContent}>
+            <ThemedText type="subtitle" style={styles.confirmModalTitle}>
+              {pendingAction?.type === "restore" ? "恢复备份" : "删除备份"}
+            </ThemedText>
+            <ThemedText style={styles.confirmModalMessage}>
+              {pendingAction?.type === "restore"
+                ? `将使用 ${pendingAction.backup.name} 覆盖当前所有数据，确定要恢复吗？`
+                : `确定要删除 ${pendingAction?.backup.name} 吗？此操作无法撤销。`}
+            </ThemedText>
+
+            <ThemedView style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setPendingAction(null)}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  pendingAction?.type === "restore"
+                    ? styles.confirmButton
+                    : styles.deleteConfirmButton,
+                ]}
+                onPress={confirmPendingAction}
+              >
+                <ThemedText style={styles.confirmButtonText}>
+                  {pendingAction?.type === "restore" ? "恢复" : "删除"}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F5F5",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#999999",
+    textAlign: "center",
+    marginTop: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 80,
+    paddingHorizontal: 20,
+  },
+  emptyStateText: {
+    color: "#999999",
+    fontSize: 15,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  backupItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  backupInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  backupName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#000000",
+  },
+  backupMeta: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 4,
+  },
+  backupActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#F0F0F0",
+    alignItems: "center",
+    justifyContent: "center",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.1,
+        shadowRadius: 2,
+      },
+      android: {
+        elevation: 1,
+      },
+    }),
+  },
+  iconButtonPressed: {
+    opacity: 0.6,
+    backgroundColor: "#E0E0E0",
+  },
+  bottomContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E0E0E0",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  createButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    width: "100%",
+    minHeight: 50,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#007AFF",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+    }),
+  },
+  createButtonText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  confirmModalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  confirmModalTitle: {
+    textAlign: "center",
+    marginBottom: 16,
+    color: "#000000",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  confirmModalMessage: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  confirmButton: {
+    backgroundColor: "#007AFF",
+  },
+  deleteConfirmButton: {
+    backgroundColor: "#FF3B30",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
@@ -1,12 +1,7 @@
 import { logError, logInfo } from "@/utils/debugLogger";
 import * as Haptics from "expo-haptics";
-import {
-  Stack,
-  useFocusEffect,
-  useLocalSearchParams,
-  useRouter,
-} from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   Alert,
   Dimensions,
@@ -28,19 +23,26 @@ import Animated, {
 } from "react-native-reanimated";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { FeatureValueEditor } from "@/components/FeatureValueEditor";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { UndoToast } from "@/components/UndoToast";
 import { useUnifiedData } from "@/hooks/useUnifiedData";
-import { DataAdapter } from "@/utils/dataAdapter";
-import {
-  FavoriteUnit,
+import { useUnitSelection } from "@/hooks/useUnitSelection";
+import type {
   Feature,
+  FeatureValue,
   Level,
-  RecommendedUnit,
-  TrashedUnit,
   Unit,
-  UnitFeature,
-} from "@/utils/storage";
+} from "@/types/dataStructure";
+import {
+  BULK_UNIT_ACTION_LABELS,
+  type BulkUnitAction,
+} from "@/utils/bulkUnitActions";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { FeatureValues } from "@/utils/featureValues";
+import { UnitHistory } from "@/utils/unitHistory";
 import { MaterialIcons } from "@expo/vector-icons";
 
 interface Collection {
@@ -54,16 +56,24 @@ const InteractiveUnit = ({
   unit,
   levelId,
   levelName,
+  cardText,
   onMoveToRecommend,
   onMoveToTrash,
   onDoublePress,
+  isSelecting,
+  isSelected,
+  onToggleSelect,
 }: {
   unit: Unit;
   levelId: string;
   levelName: string;
+  cardText: string;
   onMoveToRecommend: () => void;
   onMoveToTrash: () => void;
   onDoublePress: () => void;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onToggleSelect: () => void;
 }) => {
   const translateY = useSharedValue(0);
   const DRAG_THRESHOLD = 50;
@@ -123,13 +133,50 @@ const InteractiveUnit = ({
     };
   });
 
+  // 选择模式下点击切换选中状态，不响应拖动和双击
+  if (isSelecting) {
+    return (
+      <Pressable
+        style={[styles.unitItem, isSelected && styles.unitItemSelected]}
+        onPress={onToggleSelect}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <View style={styles.unitItemContent}>
+          <ThemedText
+            style={[styles.unitName, isSelected && styles.unitNameSelected]}
+          >
+            {unit.name}
+          </ThemedText>
+          {cardText ? (
+            <ThemedText
+              style={[
+                styles.unitCardText,
+                isSelected && styles.unitNameSelected,
+              ]}
+              numberOfLines={1}
+            >
+              {cardText}
+            </ThemedText>
+          ) : null}
+        </View>
+      </Pressable>
+    );
+  }
+
   return (
     <GestureDetector gesture={composedGesture}>
       <Animated.View 
         style={[styles.unitItem, animatedStyle]}
         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
       >
-        <ThemedText style={styles.unitName}>{unit.name}</ThemedText>
+        <View style={styles.unitItemContent}>
+          <ThemedText style={styles.unitName}>{unit.name}</ThemedText>
+          {cardText ? (
+            <ThemedText style={styles.unitCardText} numberOfLines={1}>
+              {cardText}
+            </ThemedText>
+          ) : null}
+        </View>
       </Animated.View>
     </GestureDetector>
   );
@@ -203,28 +250,15 @@ export default function CollectionDetailScreen() {
     data,
     loading: dataLoading,
     updateData,
+    createSnapshot,
+    undo,
+    redo,
   } = useUnifiedData();
-  const adapterRef = React.useRef<DataAdapter | null>(null);
-  if (!adapterRef.current) {
-    adapterRef.current = new DataAdapter(dataManager);
-  }
-  const adapter = adapterRef.current;
 
   const [collection, setCollection] = useState<Collection | null>(null);
   const [activeTab, setActiveTab] = useState<"level" | "recommend">("level");
   const [showMoreTabs, setShowMoreTabs] = useState(false);
   const [tabContainerHeight, setTabContainerHeight] = useState(0);
-  const [levels, setLevels] = useState<Level[]>([]);
-  const [recommendedUnits, setRecommendedUnits] = useState<RecommendedUnit[]>(
-    []
-  );
-  // 回收站数据，用于拖拽功能，实际显示在单独的回收站页面
-  const [trashedUnits, setTrashedUnits] = useState<TrashedUnit[]>([]);
-  // 使用 ref 存储最新状态，避免嵌套 setState 导致的状态读取问题
-  const recommendedUnitsRef = React.useRef<RecommendedUnit[]>([]);
-  const trashedUnitsRef = React.useRef<TrashedUnit[]>([]);
-  const [favoriteUnits, setFavoriteUnits] = useState<FavoriteUnit[]>([]);
-  const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [levelName, setLevelName] = useState("");
   const [identifierType, setIdentifierType] = useState<"numeric" | "alpha">(
@@ -236,7 +270,6 @@ export default function CollectionDetailScreen() {
   const [levelToDelete, setLevelToDelete] = useState<string | null>(null);
   const [resetConfirmVisible, setResetConfirmVisible] = useState(false);
   const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
-  const [features, setFeatures] = useState<Feature[]>([]);
   const [refreshButtonPressed, setRefreshButtonPressed] = useState(false);
   const [numericPickerVisible, setNumericPickerVisible] = useState(false);
   const [favoriteReasonModalVisible, setFavoriteReasonModalVisible] =
@@ -249,11 +282,89 @@ export default function CollectionDetailScreen() {
   const [favoriteReason, setFavoriteReason] = useState("");
   const [currentFeatureForPicker, setCurrentFeatureForPicker] =
     useState<Feature | null>(null);
-  const [unitFeatures, setUnitFeatures] = useState<UnitFeature[]>([]);
   const [editingUnitName, setEditingUnitName] = useState<string>("");
   const [unitNameError, setUnitNameError] = useState<string>("");
   const [levelNameError, setLevelNameError] = useState("");
   const [isSortingMode, setIsSortingMode] = useState(false);
+  // 排序模式下调整中的层级顺序，点击“完成排序”时才写入
+  const [sortingLevels, setSortingLevels] = useState<Level[]>([]);
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
+  // 推荐列表的排序方式，为 null 时按层级顺序
+  const [recommendSort, setRecommendSort] = useState<{
+    featureId: string;
+    descending: boolean;
+  } | null>(null);
+  const [historyState, setHistoryState] = useState({
+    canUndo: false,
+    canRedo: false,
+  });
+
+  // 页面数据全部从统一数据结构派生，单元所在的列表只由 Unit.status 决定
+  const levels = useMemo(
+    () => DataSelectors.getActiveLevels(DataSelectors.getCollection(data, id)),
+    [data, id]
+  );
+  // 只显示该集合中可用的特性（全局特性、适用于该集合或其特性组中的特性）
+  const features = useMemo(
+    () => DataSelectors.getApplicableFeatures(data, id),
+    [data, id]
+  );
+  const unitIndex = useMemo(
+    () => DataSelectors.getUnitIndex(data, id),
+    [data, id]
+  );
+  // 单元编辑弹窗中按分组显示的特性，以及在单元格中显示的特性
+  const featureSections = useMemo(
+    () => DataSelectors.groupFeatures(features),
+    [features]
+  );
+  const cardFeatures = useMemo(
+    () => features.filter((feature) => feature.showOnCard),
+    [features]
+  );
+  const sortableFeatures = useMemo(
+    () => features.filter((feature) => DataSelectors.isSortableFeature(feature)),
+    [features]
+  );
+  const recommendedUnits = useMemo(() => {
+    const units = DataSelectors.getUnitsByStatus(data, id, "recommended");
+    const sortFeature = recommendSort
+      ? sortableFeatures.find((f) => f.id === recommendSort.featureId)
+      : undefined;
+    return sortFeature
+      ? DataSelectors.sortUnitsByFeature(
+          units,
+          sortFeature,
+          data.features,
+          recommendSort?.descending ?? false
+        )
+      : units;
+  }, [data, id, sortableFeatures, recommendSort]);
+  const trashedUnits = useMemo(
+    () => DataSelectors.getUnitsByStatus(data, id, "trash"),
+    [data, id]
+  );
+  // 当前 tab 中可以多选的单元
+  const selectableUnitIds = useMemo(
+    () =>
+      activeTab === "level"
+        ? levels.flatMap((level) =>
+            level.units
+              .filter(DataSelectors.isUnitInLevelView)
+              .map((unit) => unit.id)
+          )
+        : recommendedUnits.map((item) => item.unit.id),
+    [activeTab, levels, recommendedUnits]
+  );
+  const selection = useUnitSelection(selectableUnitIds);
+  const editingUnitHistory = useMemo(
+    () =>
+      [
+        ...((editingUnitId && unitIndex.get(editingUnitId)?.unit.history) ||
+          []),
+      ].reverse(),
+    [unitIndex, editingUnitId]
+  );
 
   // 加载集合信息
   useEffect(() => {
@@ -266,65 +377,6 @@ export default function CollectionDetailScreen() {
     }
   }, [id, name, createdAt]);
 
-  // 加载数据的函数
-  const loadData = useCallback(async () => {
-    if (id && !dataLoading) {
-      setLoading(true);
-      try {
-        // 使用适配器加载数据
-        const loadedLevels = adapter.getLevelsByCollectionId(id);
-        const allFeatures = adapter.getFeaturesByCollectionId(id);
-        const loadedUnitFeatures = adapter.getUnitFeatures();
-        const loadedRecommendedUnits = adapter.getRecommendedUnits(id);
-        const loadedTrashedUnits = adapter.getTrashedUnits(id);
-        const loadedFavoriteUnits = adapter.getFavoriteUnits(id);
-
-        setLevels(loadedLevels);
-        // 只使用全局特性（collectionId 为 "global"），并去重
-        const globalFeatures = allFeatures.filter(
-          (f) => f.collectionId === "global"
-        );
-        // 根据 id 去重
-        const uniqueFeatures = Array.from(
-          new Map(globalFeatures.map((f) => [f.id, f])).values()
-        );
-        setFeatures(uniqueFeatures);
-        setUnitFeatures(loadedUnitFeatures);
-        setRecommendedUnits(loadedRecommendedUnits);
-        setTrashedUnits(loadedTrashedUnits);
-        setFavoriteUnits(loadedFavoriteUnits);
-      } catch (error) {
-        console.error("加载数据失败:", error);
-      } finally {
-        setLoading(false);
-      }
-    }
-  }, [id, dataLoading, adapter]);
-
-  // 加载层级列表和特性
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
-
-  // 当页面获得焦点时重新加载数据（从其他页面返回时）
-  useFocusEffect(
-    useCallback(() => {
-      // 重新加载所有数据，确保数据是最新的
-      if (id) {
-        loadData();
-      }
-    }, [id, loadData])
-  );
-
-  // 同步 ref 和 state，确保 ref 始终是最新值
-  useEffect(() => {
-    recommendedUnitsRef.current = recommendedUnits;
-  }, [recommendedUnits]);
-
-  useEffect(() => {
-    trashedUnitsRef.current = trashedUnits;
-  }, [trashedUnits]);
-
   // 刷新按钮处理函数，使用 useCallback 避免每次渲染都创建新函数
   const handleRefreshPress = useCallback(() => {
     // 立即设置按钮按下状态，提供视觉反馈
@@ -351,159 +403,77 @@ export default function CollectionDetailScreen() {
     }, 0);
   }, []);
 
-  // 使用 ref 跟踪是否正在更新，避免无限循环
-  const isUpdatingRef = React.useRef(false);
-  const lastSyncDataRef = React.useRef<string>("");
-
-  // 同步数据到统一数据结构
-  useEffect(() => {
-    // 在排序模式下不进行自动保存，直到退出排序模式（点击完成）时才保存
-    if (
-      !loading &&
-      !dataLoading &&
-      id &&
-      !isUpdatingRef.current &&
-      !isSortingMode
-    ) {
-      const collectionIndex = dataManager.getCollectionIndexById(id);
-      if (collectionIndex === -1) return;
-
-      // 创建当前状态的快照用于比较
-      const currentStateSnapshot = JSON.stringify({
-        levels,
-        features,
-        unitFeatures,
-        recommendedUnits,
-        trashedUnits,
-        favoriteUnits,
-      });
+  // 导出当前集合到剪贴板（包含其引用的特性定义）
+  const handleExportCollection = () => {
+    if (!id) return;
+    const success = dataManager.copyCollectionToClipboard(id);
+    if (success) {
+      Alert.alert("成功", "集合已复制到剪贴板，可在首页的导入中粘贴");
+    } else {
+      Alert.alert("错误", "导出集合失败，请重试");
+    }
+  };
 
-      // 如果数据没有变化，跳过同步
-      if (currentStateSnapshot === lastSyncDataRef.current) {
-        return;
-      }
+  // 刷新头部撤销/重做按钮的可用状态
+  const refreshHistoryState = () => {
+    setHistoryState({
+      canUndo: dataManager.canUndo(),
+      canRedo: dataManager.canRedo(),
+    });
+  };
 
-      isUpdatingRef.current = true;
-      lastSyncDataRef.current = currentStateSnapshot;
-
-      try {
-        // 将levels转换为新数据结构中的层次
-        const newLevels = levels.map((level) => {
-          // 获取该层次的所有单元（包括推荐、回收站、收藏的）
-          const levelUnits = level.units.map((unit) => {
-            // 查找单元的特性值
-            const unitFeatureValues = unitFeatures
-              .filter((uf) => uf.unitId === unit.id)
-              .map((uf) => ({
-                featureId: uf.featureId,
-                value: uf.value,
-              }));
-
-            // 确定单元状态
-            let status: "normal" | "recommended" | "favorite" | "trash" =
-              "normal";
-            let favoriteReason: string | undefined;
-            let favoriteCreatedAt: number | undefined;
-
-            const favoriteUnit = favoriteUnits.find(
-              (fu) => fu.unit.id === unit.id && fu.levelId === level.id
-            );
-            const recommendedUnit = recommendedUnits.find(
-              (ru) => ru.unit.id === unit.id && ru.levelId === level.id
-            );
-            const trashedUnit = trashedUnits.find(
-              (tu) => tu.unit.id === unit.id && tu.levelId === level.id
-            );
+  // 撤销历史由所有页面共享，数据变化后（包括其他页面的修改）刷新按钮状态
+  useEffect(() => {
+    setHistoryState({
+      canUndo: dataManager.canUndo(),
+      canRedo: dataManager.canRedo(),
+    });
+  }, [data, dataManager]);
+
+  // 修改统一数据结构并作为一个可撤销的步骤记录，随后刷新页面并稍后保存
+  const commitChange = (label: string, mutation: () => void) => {
+    if (!id) return;
+    dataManager.execute(label, mutation);
+    updateData(id).catch((error) => {
+      console.error("保存数据失败:", error);
+    });
+  };
 
-            if (favoriteUnit) {
-              status = "favorite";
-              favoriteReason = favoriteUnit.reason;
-              favoriteCreatedAt = favoriteUnit.createdAt;
-            } else if (recommendedUnit) {
-              status = "recommended";
-            } else if (trashedUnit) {
-              status = "trash";
-            }
-
-            return {
-              id: unit.id,
-              name: unit.name,
-              status,
-              features: unitFeatureValues,
-              ...(favoriteReason && { favoriteReason }),
-              ...(favoriteCreatedAt && { favoriteCreatedAt }),
-            };
-          });
-
-          return {
-            id: level.id,
-            name: level.name,
-            identifier: level.identifier,
-            units: levelUnits,
-            createdAt: level.createdAt,
-          };
-        });
+  // 对选中的单元执行批量操作，整体作为一个可撤销的步骤
+  const handleBulkAction = (action: BulkUnitAction) => {
+    const label = BULK_UNIT_ACTION_LABELS[action.type];
+    let changedCount = 0;
+    commitChange(label, () => {
+      changedCount = dataManager.applyBulkUnitAction(
+        id,
+        selection.selectedIds,
+        action
+      );
+    });
+    setUndoToastMessage(`${label}：${changedCount} 个单元`);
+    selection.endSelection();
+  };
 
-        // 更新集合（保留集合元数据，只更新层次）
-        const collection = dataManager.getCollection(collectionIndex);
-        if (collection) {
-          dataManager.updateCollection(collectionIndex, {
-            ...collection,
-            levels: newLevels,
-          });
-        }
-
-        // 更新特性（只更新全局特性）
-        features.forEach((feature) => {
-          if (feature.collectionId === "global") {
-            const existingFeature = dataManager.getFeature(feature.id);
-            if (!existingFeature) {
-              dataManager.addFeature({
-                id: feature.id,
-                name: feature.name,
-                type: feature.type,
-                createdAt: feature.createdAt,
-              });
-            } else {
-              dataManager.updateFeature(feature.id, {
-                id: feature.id,
-                name: feature.name,
-                type: feature.type,
-                createdAt: feature.createdAt,
-              });
-            }
-          }
-        });
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
+  }, []);
 
-        // 保存数据（异步执行，避免阻塞）
-        updateData()
-          .catch((error) => {
-            console.error("保存数据失败:", error);
-          })
-          .finally(() => {
-            // 延迟重置标志，避免立即触发新的同步
-            setTimeout(() => {
-              isUpdatingRef.current = false;
-            }, 100);
-          });
-      } catch (error) {
-        console.error("同步数据失败:", error);
-        isUpdatingRef.current = false;
+  // 撤销或重做后页面会随统一数据结构自动刷新
+  const handleHistoryAction = async (action: "undo" | "redo") => {
+    setUndoToastMessage(null);
+    try {
+      if (action === "undo") {
+        await undo();
+      } else {
+        await redo();
       }
+    } catch (error) {
+      console.error("撤销/重做失败:", error);
+      Alert.alert("错误", "操作失败，请重试");
+    } finally {
+      refreshHistoryState();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [
-    levels,
-    features,
-    unitFeatures,
-    recommendedUnits,
-    trashedUnits,
-    favoriteUnits,
-    loading,
-    dataLoading,
-    id,
-    isSortingMode,
-  ]);
+  };
 
   const handleCreateLevel = () => {
     if (levelName.trim() && id) {
@@ -521,13 +491,15 @@ export default function CollectionDetailScreen() {
 
       const newLevel: Level = {
         id: Date.now().toString(),
-        collectionId: id,
         name: trimmedName,
         identifier: identifierType,
         units: modalUnits,
         createdAt: Date.now(),
+        updatedAt: Date.now(),
       };
-      setLevels((prev) => [...prev, newLevel]);
+      commitChange("新建层级", () =>
+        dataManager.addLevelToCollection(id, newLevel)
+      );
       setLevelName("");
       setLevelNameError("");
       setIdentifierType("numeric");
@@ -549,7 +521,7 @@ export default function CollectionDetailScreen() {
   };
 
   const handleUpdateLevel = () => {
-    if (levelName.trim() && editingLevelId) {
+    if (levelName.trim() && editingLevelId && id) {
       const trimmedName = levelName.trim();
 
       // 检查名称是否重复（排除当前编辑的层级）
@@ -564,79 +536,12 @@ export default function CollectionDetailScreen() {
 
       setLevelNameError("");
 
-      const oldLevel = levels.find((l) => l.id === editingLevelId);
-      const oldUnitIds = oldLevel?.units.map((u) => u.id) || [];
-      const newUnitIds = modalUnits.map((u) => u.id);
-
-      // 找出被删除的单元（在旧列表中但不在新列表中）
-      const deletedUnitIds = oldUnitIds.filter(
-        (id) => !newUnitIds.includes(id)
-      );
-
-      // 将被删除的单元从推荐和回收站中移除，并放回对应的层级
-      deletedUnitIds.forEach((unitId) => {
-        // 从推荐列表中移除并放回层级
-        const recommendedItem = recommendedUnits.find(
-          (item) => item.unit.id === unitId && item.levelId === editingLevelId
-        );
-        if (recommendedItem) {
-          setRecommendedUnits((prev) =>
-            prev.filter((item) => item.unit.id !== unitId)
-          );
-          // 将单元放回层级
-          const unit = oldLevel?.units.find((u) => u.id === unitId);
-          if (unit && !modalUnits.some((u) => u.id === unitId)) {
-            setModalUnits((prev) => [...prev, unit]);
-          }
-        }
-
-        // 从回收站中移除并放回层级
-        const trashedItem = trashedUnits.find(
-          (item) => item.unit.id === unitId && item.levelId === editingLevelId
-        );
-        if (trashedItem) {
-          setTrashedUnits((prev) =>
-            prev.filter((item) => item.unit.id !== unitId)
-          );
-          // 将单元放回层级
-          const unit = oldLevel?.units.find((u) => u.id === unitId);
-          if (unit && !modalUnits.some((u) => u.id === unitId)) {
-            setModalUnits((prev) => [...prev, unit]);
-          }
-        }
-      });
-
-      // 更新层级，同时清理推荐和回收站中已不存在的单元
-      setLevels((prev) =>
-        prev.map((level) =>
-          level.id === editingLevelId
-            ? {
-                ...level,
-                name: trimmedName,
-                identifier: identifierType,
-                units: modalUnits,
-              }
-            : level
-        )
-      );
-
-      // 清理推荐列表中不在当前层级单元列表中的单元
-      setRecommendedUnits((prev) =>
-        prev.filter((item) => {
-          if (item.levelId === editingLevelId) {
-            return modalUnits.some((u) => u.id === item.unit.id);
-          }
-          return true;
-        })
-      );
-
-      // 清理回收站中不在当前层级单元列表中的单元
-      setTrashedUnits((prev) =>
-        prev.filter((item) => {
-          if (item.levelId === editingLevelId) {
-            return modalUnits.some((u) => u.id === item.unit.id);
-          }
-          return true;
+      // 不在新单元列表中的单元（包括推荐、回收站和收藏中的）随层级一起删除
+      commitChange("编辑层级", () =>
+        dataManager.updateLevelById(id, editingLevelId, {
+          name: trimmedName,
+          identifier: identifierType,
+          units: modalUnits,
         })
       );
       setLevelName("");
@@ -660,6 +565,8 @@ export default function CollectionDetailScreen() {
         : String.fromCharCode(65 + nextIndex), // 英文标识：A, B, C...
       status: "normal",
       features: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
     };
     setModalUnits((prev) => [...prev, newUnit]);
   };
@@ -680,22 +587,12 @@ export default function CollectionDetailScreen() {
   const confirmDelete = () => {
     if (!levelToDelete || !id) return;
 
-    // 删除层级
-    setLevels((prev) => prev.filter((item) => item.id !== levelToDelete));
-
-    // 删除推荐列表中关联的单元
-    setRecommendedUnits((prev) =>
-      prev.filter((item) => item.levelId !== levelToDelete)
-    );
-
-    // 删除回收站中关联的单元
-    setTrashedUnits((prev) =>
-      prev.filter((item) => item.levelId !== levelToDelete)
-    );
+    const deletedLevel = levels.find((item) => item.id === levelToDelete);
+    setUndoToastMessage(`已删除层级 ${deletedLevel?.name ?? ""}`);
 
-    // 删除收藏中关联的单元
-    setFavoriteUnits((prev) =>
-      prev.filter((item) => item.levelId !== levelToDelete)
+    // 层级连同其中的单元一起移到回收站，可以在回收站中恢复
+    commitChange("删除层级", () =>
+      dataManager.removeLevelById(id, levelToDelete)
     );
 
     setDeleteConfirmVisible(false);
@@ -738,16 +635,6 @@ export default function CollectionDetailScreen() {
         });
         return;
       }
-      const recommendedItem =
-        recommendedUnits.find((item) => item.unit.id === unit.id) || null;
-      if (recommendedItem) {
-        setCurrentUnitForFavorite({
-          unit,
-          levelName: recommendedItem.levelName,
-          levelId: recommendedItem.levelId,
-        });
-        return;
-      }
       Alert.alert("错误", "无法定位该单元所属层级");
     } catch (error) {
       logError(
@@ -809,60 +696,10 @@ export default function CollectionDetailScreen() {
       return;
     }
 
-    // 更新单元名称
-    const level = levels.find((l) =>
-      l.units.some((u) => u.id === editingUnitId)
-    );
-    if (level) {
-      setLevels((prev) =>
-        prev.map((l) =>
-          l.id === level.id
-            ? {
-                ...l,
-                units: l.units.map((u) =>
-                  u.id === editingUnitId
-                    ? { ...u, name: editingUnitName.trim() }
-                    : u
-                ),
-              }
-            : l
-        )
-      );
-    }
-
-    // 同时更新推荐、回收站、收藏中的单元名称
-    setRecommendedUnits((prev) =>
-      prev.map((item) =>
-        item.unit.id === editingUnitId
-          ? {
-              ...item,
-              unit: { ...item.unit, name: editingUnitName.trim() },
-            }
-          : item
-      )
-    );
-
-    setTrashedUnits((prev) =>
-      prev.map((item) =>
-        item.unit.id === editingUnitId
-          ? {
-              ...item,
-              unit: { ...item.unit, name: editingUnitName.trim() },
-            }
-          : item
-      )
-    );
-
-    setFavoriteUnits((prev) =>
-      prev.map((item) =>
-        item.unit.id === editingUnitId
-          ? {
-              ...item,
-              unit: { ...item.unit, name: editingUnitName.trim() },
-            }
-          : item
-      )
-    );
+    // 更新单元名称（推荐、回收站、收藏中显示的是同一个单元）
+    const unitId = editingUnitId;
+    const unitName = editingUnitName.trim();
+    commitChange("编辑单元", () => dataManager.renameUnit(unitId, unitName));
 
     // 关闭Modal
     setEditingUnitId(null);
@@ -872,12 +709,11 @@ export default function CollectionDetailScreen() {
   };
 
   // 重置集合：将推荐和回收站的所有单元归位到对应的层级
-  const handleResetCollection = useCallback(() => {
-    // 先检查是否有数据需要重置
-    const recommendedLength = recommendedUnitsRef.current.length;
-    const trashedLength = trashedUnitsRef.current.length;
+  const handleResetCollection = async () => {
+    if (!id) return;
 
-    if (recommendedLength === 0 && trashedLength === 0) {
+    // 先检查是否有数据需要重置
+    if (recommendedUnits.length === 0 && trashedUnits.length === 0) {
       // 关闭确认框
       setResetConfirmVisible(false);
       // 显示提示信息
@@ -892,117 +728,53 @@ export default function CollectionDetailScreen() {
       return;
     }
 
-    // 使用函数式更新获取最新状态
-    setRecommendedUnits((currentRecommended) => {
-      setTrashedUnits((currentTrashed) => {
-        setLevels((currentLevels) => {
-          const updatedLevels = [...currentLevels];
-
-          // 将推荐列表中的单元归位
-          currentRecommended.forEach((item) => {
-            const levelIndex = updatedLevels.findIndex(
-              (l) => l.id === item.levelId
-            );
-            if (levelIndex !== -1) {
-              const level = updatedLevels[levelIndex];
-              // 检查单元是否已经在层级中
-              const unitExists = level.units.some((u) => u.id === item.unit.id);
-              if (!unitExists) {
-                updatedLevels[levelIndex] = {
-                  ...level,
-                  units: [...level.units, item.unit],
-                };
-              }
-            }
-          });
-
-          // 将回收站中的单元归位
-          currentTrashed.forEach((item) => {
-            const levelIndex = updatedLevels.findIndex(
-              (l) => l.id === item.levelId
-            );
-            if (levelIndex !== -1) {
-              const level = updatedLevels[levelIndex];
-              // 检查单元是否已经在层级中
-              const unitExists = level.units.some((u) => u.id === item.unit.id);
-              if (!unitExists) {
-                updatedLevels[levelIndex] = {
-                  ...level,
-                  units: [...level.units, item.unit],
-                };
-              }
-            }
-          });
-
-          return updatedLevels;
-        });
-
-        // 清空回收站
-        return [];
-      });
-
-      // 清空推荐列表
-      return [];
-    });
-  }, []);
+    // 重置前为当前数据创建快照（会先写入尚未保存的修改），可在设置中回滚
+    await createSnapshot("reset");
+    setUndoToastMessage("集合已重置");
+    commitChange("重置集合", () => dataManager.resetUnitStatuses(id));
+  };
 
   const getUnitFeatureValue = (
     unitId: string,
     featureId: string
-  ): number | boolean | undefined => {
-    const unitFeature = unitFeatures.find(
-      (uf) => uf.unitId === unitId && uf.featureId === featureId
-    );
-    // 如果特性是数值类型且没有值，默认返回0
+  ): FeatureValue | undefined => {
     const feature = features.find((f) => f.id === featureId);
-    if (feature?.type === "numeric" && unitFeature === undefined) {
-      return 0;
-    }
-    return unitFeature?.value;
+    if (!feature) return undefined;
+    return DataSelectors.getUnitFeatureValue(
+      unitIndex.get(unitId)?.unit,
+      feature,
+      data.features
+    );
   };
 
+  // 单元格中显示的特性值：是/否特性为“是”时显示特性名称，其余显示格式化后的值，未设置的不显示
+  const getUnitCardText = (unitId: string): string =>
+    cardFeatures
+      .map((feature) => {
+        const value = getUnitFeatureValue(unitId, feature.id);
+        if (value === undefined || value === false) return null;
+        return value === true
+          ? feature.name
+          : FeatureValues.format(feature, value);
+      })
+      .filter((text): text is string => text !== null && text !== "")
+      .join(" · ");
+
   const handleUnitFeatureChange = (
     featureId: string,
-    value: number | boolean
+    value: FeatureValue | null
   ) => {
     if (!editingUnitId) return;
 
-    setUnitFeatures((prev) => {
-      const existing = prev.find(
-        (uf) => uf.unitId === editingUnitId && uf.featureId === featureId
-      );
-      if (existing) {
-        return prev.map((uf) =>
-          uf.unitId === editingUnitId && uf.featureId === featureId
-            ? { ...uf, value }
-            : uf
-        );
-      } else {
-        return [
-          ...prev,
-          {
-            unitId: editingUnitId,
-            featureId,
-            value,
-          },
-        ];
-      }
-    });
-  };
-
-  // 判断单元是否在推荐列表中
-  const isUnitInRecommended = (unitId: string) => {
-    return recommendedUnits.some((item) => item.unit.id === unitId);
-  };
-
-  // 判断单元是否在回收站中
-  const isUnitInTrash = (unitId: string) => {
-    return trashedUnits.some((item) => item.unit.id === unitId);
+    const unitId = editingUnitId;
+    commitChange("修改特性值", () =>
+      dataManager.setUnitFeatureValue(unitId, featureId, value)
+    );
   };
 
   // 判断单元是否已收藏
   const isUnitFavorited = (unitId: string) => {
-    return favoriteUnits.some((item) => item.unit.id === unitId);
+    return unitIndex.get(unitId)?.unit.status === "favorite";
   };
 
   // 处理收藏单元
@@ -1014,8 +786,8 @@ export default function CollectionDetailScreen() {
     // 检查是否已收藏
     if (isUnitFavorited(unit.id)) {
       // 如果已收藏，取消收藏
-      setFavoriteUnits((prev) =>
-        prev.filter((item) => item.unit.id !== unit.id)
+      commitChange("取消收藏", () =>
+        dataManager.setUnitStatus(unit.id, "normal")
       );
       // 取消收藏后，确保收藏按钮仍然显示
       // currentUnitForFavorite 保持不变，这样按钮不会消失
@@ -1031,23 +803,12 @@ export default function CollectionDetailScreen() {
   const handleConfirmFavorite = () => {
     if (!currentUnitForFavorite || !id) return;
 
-    const newFavorite: FavoriteUnit = {
-      unit: currentUnitForFavorite.unit,
-      levelName: currentUnitForFavorite.levelName,
-      levelId: currentUnitForFavorite.levelId,
-      collectionId: id,
-      reason: favoriteReason.trim() || "无",
-      createdAt: Date.now(),
-    };
-
-    setFavoriteUnits((prev) => {
-      // 检查是否已存在，避免重复
-      const exists = prev.some((item) => item.unit.id === newFavorite.unit.id);
-      if (exists) {
-        return prev;
-      }
-      return [...prev, newFavorite];
-    });
+    // 收藏与推荐、回收站互斥，收藏后单元回到层级中显示
+    const unitId = currentUnitForFavorite.unit.id;
+    const reason = favoriteReason.trim() || "无";
+    commitChange("收藏单元", () =>
+      dataManager.setUnitStatus(unitId, "favorite", reason)
+    );
 
     setFavoriteReasonModalVisible(false);
     // 不重置 currentUnitForFavorite，保持收藏按钮显示
@@ -1066,7 +827,7 @@ export default function CollectionDetailScreen() {
     (index: number) => {
       if (index <= 0 || !id) return;
 
-      setLevels((prev) => {
+      setSortingLevels((prev) => {
         const newLevels = [...prev];
         const temp = newLevels[index];
         newLevels[index] = newLevels[index - 1];
@@ -1080,9 +841,9 @@ export default function CollectionDetailScreen() {
   // 处理层级下移
   const handleMoveLevelDown = useCallback(
     (index: number) => {
-      if (index >= levels.length - 1 || !id) return;
+      if (index >= sortingLevels.length - 1 || !id) return;
 
-      setLevels((prev) => {
+      setSortingLevels((prev) => {
         const newLevels = [...prev];
         const temp = newLevels[index];
         newLevels[index] = newLevels[index + 1];
@@ -1090,12 +851,30 @@ export default function CollectionDetailScreen() {
         return newLevels;
       });
     },
-    [levels.length, id]
+    [sortingLevels.length, id]
   );
 
-  // 退出排序模式
+  // 进入排序模式
+  const handleEnterSortingMode = () => {
+    setSortingLevels(levels);
+    setIsSortingMode(true);
+  };
+
+  // 退出排序模式，顺序有变化时写入
   const handleExitSortingMode = () => {
+    const orderChanged = sortingLevels.some(
+      (level, index) => level.id !== levels[index]?.id
+    );
+    if (orderChanged && id) {
+      commitChange("调整层级顺序", () =>
+        dataManager.reorderLevels(
+          id,
+          sortingLevels.map((level) => level.id)
+        )
+      );
+    }
     setIsSortingMode(false);
+    setSortingLevels([]);
   };
 
   // Stack.Screen 必须在组件顶层，确保始终渲染
@@ -1121,13 +900,68 @@ export default function CollectionDetailScreen() {
           headerRight: () => {
             return (
               <View style={styles.headerButtons}>
-                {activeTab === "level" && (
+                {!isSortingMode && (
+                  <>
+                    <Pressable
+                      style={styles.headerButton}
+                      onPress={() => handleHistoryAction("undo")}
+                      disabled={!historyState.canUndo}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      android_ripple={{ color: "#007AFF20" }}
+                    >
+                      <MaterialIcons
+                        name="undo"
+                        size={24}
+                        color={historyState.canUndo ? "#007AFF" : "#C7C7CC"}
+                      />
+                    </Pressable>
+                    <Pressable
+                      style={styles.headerButton}
+                      onPress={() => handleHistoryAction("redo")}
+                      disabled={!historyState.canRedo}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      android_ripple={{ color: "#007AFF20" }}
+                    >
+                      <MaterialIcons
+                        name="redo"
+                        size={24}
+                        color={historyState.canRedo ? "#007AFF" : "#C7C7CC"}
+                      />
+                    </Pressable>
+                  </>
+                )}
+                {!isSortingMode && (
+                  <Pressable
+                    style={[
+                      styles.headerButton,
+                      selection.isSelecting && styles.headerButtonActive,
+                    ]}
+                    onPress={() =>
+                      selection.isSelecting
+                        ? selection.endSelection()
+                        : selection.startSelection()
+                    }
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    android_ripple={{ color: "#007AFF20" }}
+                  >
+                    <MaterialIcons
+                      name="checklist"
+                      size={24}
+                      color={selection.isSelecting ? "#0051D5" : "#007AFF"}
+                    />
+                  </Pressable>
+                )}
+                {activeTab === "level" && !selection.isSelecting && (
                   <Pressable
                     style={[
                       styles.headerButton,
                       isSortingMode && styles.headerButtonActive,
                     ]}
-                    onPress={() => setIsSortingMode(!isSortingMode)}
+                    onPress={() =>
+                      isSortingMode
+                        ? handleExitSortingMode()
+                        : handleEnterSortingMode()
+                    }
                     hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                     android_ripple={{ color: "#007AFF20" }}
                   >
@@ -1158,7 +992,7 @@ export default function CollectionDetailScreen() {
           },
         }}
       />
-      {!collection || loading ? (
+      {!collection || dataLoading ? (
         <ThemedView style={styles.container}>
           <ThemedText style={styles.loadingText}>加载中...</ThemedText>
         </ThemedView>
@@ -1182,6 +1016,7 @@ export default function CollectionDetailScreen() {
                     setActiveTab("level");
                     setShowMoreTabs(false);
                     setIsSortingMode(false);
+                    selection.endSelection();
                   }}
                 >
                   <ThemedText
@@ -1202,6 +1037,7 @@ export default function CollectionDetailScreen() {
                     setActiveTab("recommend");
                     setShowMoreTabs(false);
                     setIsSortingMode(false);
+                    selection.endSelection();
                   }}
                 >
                   <ThemedText
@@ -1266,6 +1102,17 @@ export default function CollectionDetailScreen() {
                         回收站
                       </ThemedText>
                     </Pressable>
+                    <Pressable
+                      style={styles.dropdownTab}
+                      onPress={() => {
+                        setShowMoreTabs(false);
+                        handleExportCollection();
+                      }}
+                    >
+                      <ThemedText style={styles.dropdownTabText}>
+                        导出集合
+                      </ThemedText>
+                    </Pressable>
                   </View>
                 </>
               )}
@@ -1288,7 +1135,7 @@ export default function CollectionDetailScreen() {
               <>
                 {isSortingMode ? (
                   <>
-                    {levels.length === 0 ? (
+                    {sortingLevels.length === 0 ? (
                       <ThemedView style={styles.emptyState}>
                         <ThemedText style={styles.emptyStateText}>
                           暂无层级
@@ -1296,13 +1143,13 @@ export default function CollectionDetailScreen() {
                       </ThemedView>
                     ) : (
                       <>
-                        {levels.map((level, index) => (
+                        {sortingLevels.map((level, index) => (
                           <SortableLevelItem
                             key={level.id}
                             level={level}
                             index={index}
                             isFirst={index === 0}
-                            isLast={index === levels.length - 1}
+                            isLast={index === sortingLevels.length - 1}
                             onMoveUp={() => handleMoveLevelUp(index)}
                             onMoveDown={() => handleMoveLevelDown(index)}
                           />
@@ -1359,62 +1206,44 @@ export default function CollectionDetailScreen() {
                           {level.units && level.units.length > 0 && (
                             <View style={styles.unitsContainer}>
                               {level.units
-                                .filter(
-                                  (unit) =>
-                                    !isUnitInRecommended(unit.id) &&
-                                    !isUnitInTrash(unit.id)
-                                )
+                                .filter(DataSelectors.isUnitInLevelView)
                                 .map((unit) => (
                                   <InteractiveUnit
                                     key={unit.id}
                                     unit={unit}
                                     levelId={level.id}
                                     levelName={level.name}
+                                    cardText={getUnitCardText(unit.id)}
                                     onMoveToRecommend={() => {
-                                      // 不删除单元，只添加到推荐列表
-                                      setRecommendedUnits((prev) => {
-                                        // 检查是否已存在，避免重复
-                                        const exists = prev.some(
-                                          (item) => item.unit.id === unit.id
-                                        );
-                                        if (exists) {
-                                          return prev;
-                                        }
-                                        return [
-                                          ...prev,
-                                          {
-                                            unit,
-                                            levelName: level.name,
-                                            levelId: level.id,
-                                            collectionId: id || "",
-                                          },
-                                        ];
-                                      });
+                                      setUndoToastMessage(
+                                        `已将 ${unit.name} 移到推荐`
+                                      );
+                                      commitChange("移到推荐", () =>
+                                        dataManager.setUnitStatus(
+                                          unit.id,
+                                          "recommended"
+                                        )
+                                      );
                                     }}
                                     onMoveToTrash={() => {
-                                      // 不删除单元，只添加到回收站
-                                      setTrashedUnits((prev) => {
-                                        // 检查是否已存在，避免重复
-                                        const exists = prev.some(
-                                          (item) => item.unit.id === unit.id
-                                        );
-                                        if (exists) {
-                                          return prev;
-                                        }
-                                        return [
-                                          ...prev,
-                                          {
-                                            unit,
-                                            levelName: level.name,
-                                            levelId: level.id,
-                                            collectionId: id || "",
-                                          },
-                                        ];
-                                      });
+                                      setUndoToastMessage(
+                                        `已将 ${unit.name} 移到回收站`
+                                      );
+                                      commitChange("移到回收站", () =>
+                                        dataManager.setUnitStatus(
+                                          unit.id,
+                                          "trash"
+                                        )
+                                      );
                                     }}
                                     onDoublePress={() => {
                                       handleUnitDoublePress(unit, level.name, level.id);
                                     }}
+                                    isSelecting={selection.isSelecting}
+                                    isSelected={selection.isSelected(unit.id)}
+                                    onToggleSelect={() =>
+                                      selection.toggle(unit.id)
+                                    }
                                   />
                                 ))}
                             </View>
@@ -1435,6 +1264,61 @@ export default function CollectionDetailScreen() {
                   </ThemedView>
                 ) : (
                   <View style={styles.recommendTrashContainer}>
+                    {sortableFeatures.length > 0 && (
+                      <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={styles.recommendSortBar}
+                      >
+                        {[null, ...sortableFeatures].map((feature) => {
+                          const isActive = feature
+                            ? recommendSort?.featureId === feature.id
+                            : recommendSort === null;
+                          return (
+                            <Pressable
+                              key={feature?.id ?? "default"}
+                              style={[
+                                styles.recommendSortChip,
+                                isActive && styles.recommendSortChipActive,
+                              ]}
+                              onPress={() => {
+                                if (!feature) {
+                                  setRecommendSort(null);
+                                  return;
+                                }
+                                // 再次点击当前排序的特性切换升序/降序，首次点击按从高到低排序
+                                setRecommendSort({
+                                  featureId: feature.id,
+                                  descending: isActive
+                                    ? !recommendSort?.descending
+                                    : true,
+                                });
+                              }}
+                            >
+                              <ThemedText
+                                style={[
+                                  styles.recommendSortChipText,
+                                  isActive && styles.recommendSortChipTextActive,
+                                ]}
+                              >
+                                {feature ? feature.name : "默认顺序"}
+                              </ThemedText>
+                              {feature && isActive && (
+                                <MaterialIcons
+                                  name={
+                                    recommendSort?.descending
+                                      ? "arrow-downward"
+                                      : "arrow-upward"
+                                  }
+                                  size={14}
+                                  color="#007AFF"
+                                />
+                              )}
+                            </Pressable>
+                          );
+                        })}
+                      </ScrollView>
+                    )}
                     {recommendedUnits.map((item, index) => {
                       const unitFeaturesForUnit = features.map((feature) => {
                         const value = getUnitFeatureValue(
@@ -1446,7 +1330,11 @@ export default function CollectionDetailScreen() {
                       return (
                         <View
                           key={`${item.unit.id}-${index}`}
-                          style={styles.unitRow}
+                          style={[
+                            styles.unitRow,
+                            selection.isSelected(item.unit.id) &&
+                              styles.unitRowSelected,
+                          ]}
                         >
                           <Pressable
                             style={({ pressed }) => [
@@ -1454,11 +1342,15 @@ export default function CollectionDetailScreen() {
                               pressed && styles.unitRowPressed,
                             ]}
                             onPress={() => {
+                              if (selection.isSelecting) {
+                                selection.toggle(item.unit.id);
+                                return;
+                              }
                               try {
                                 handleUnitDoublePress(
                                   item.unit,
-                                  item.levelName,
-                                  item.levelId
+                                  item.level.name,
+                                  item.level.id
                                 );
                               } catch (error) {
                                 logError(
@@ -1473,25 +1365,29 @@ export default function CollectionDetailScreen() {
                           >
                             <View style={styles.unitRowContent}>
                               <ThemedText style={styles.unitRowText}>
-                                {item.levelName} + {item.unit.name}
+                                {item.level.name} + {item.unit.name}
                               </ThemedText>
                               {unitFeaturesForUnit.length > 0 && (
                                 <View style={styles.unitFeaturesContainer}>
                                   {unitFeaturesForUnit.map(
                                     ({ feature, value }) => {
                                       if (feature.type === "numeric") {
-                                        // 数值类型：如果值为0或undefined则不显示
+                                        // 数值类型：如果值为默认值或undefined则不显示
                                         return value !== undefined &&
-                                          value !== 0 ? (
+                                          value !==
+                                            FeatureValues.getDefaultValue(
+                                              feature
+                                            ) ? (
                                           <ThemedText
                                             key={feature.id}
                                             style={styles.unitFeatureText}
                                           >
-                                            {feature.name}：{value}
+                                            {feature.name}：
+                                            {FeatureValues.format(feature, value)}
                                           </ThemedText>
                                         ) : null;
-                                      } else {
-                                        // 单选类型：只有为true时才显示
+                                      } else if (feature.type === "boolean") {
+                                        // 是/否类型：只有为true时才显示
                                         return value === true ? (
                                           <ThemedText
                                             key={feature.id}
@@ -1500,6 +1396,17 @@ export default function CollectionDetailScreen() {
                                             {feature.name}
                                           </ThemedText>
                                         ) : null;
+                                      } else {
+                                        // 其他类型：有值时显示
+                                        return value !== undefined ? (
+                                          <ThemedText
+                                            key={feature.id}
+                                            style={styles.unitFeatureText}
+                                          >
+                                            {feature.name}：
+                                            {FeatureValues.format(feature, value)}
+                                          </ThemedText>
+                                        ) : null;
                                       }
                                     }
                                   )}
@@ -1507,38 +1414,37 @@ export default function CollectionDetailScreen() {
                               )}
                             </View>
                           </Pressable>
-                          <Pressable
-                            style={styles.deleteButton}
-                            onPress={() => {
-                              // 从推荐列表删除，添加到回收站
-                              setRecommendedUnits((prev) =>
-                                prev.filter((i) => i.unit.id !== item.unit.id)
-                              );
-                              setTrashedUnits((prev) => {
-                                const exists = prev.some(
-                                  (i) => i.unit.id === item.unit.id
-                                );
-                                if (exists) {
-                                  return prev;
-                                }
-                                return [
-                                  ...prev,
-                                  {
-                                    unit: item.unit,
-                                    levelName: item.levelName,
-                                    levelId: item.levelId,
-                                    collectionId: id || "",
-                                  },
-                                ];
-                              });
-                            }}
-                          >
+                          {selection.isSelecting ? (
                             <MaterialIcons
-                              name="delete"
-                              size={20}
-                              color="#FF3B30"
+                              name={
+                                selection.isSelected(item.unit.id)
+                                  ? "check-circle"
+                                  : "radio-button-unchecked"
+                              }
+                              size={22}
+                              color="#007AFF"
+                              style={styles.deleteButton}
                             />
-                          </Pressable>
+                          ) : (
+                            <Pressable
+                              style={styles.deleteButton}
+                              onPress={() => {
+                                // 从推荐列表删除，添加到回收站
+                                commitChange("移到回收站", () =>
+                                  dataManager.setUnitStatus(
+                                    item.unit.id,
+                                    "trash"
+                                  )
+                                );
+                              }}
+                            >
+                              <MaterialIcons
+                                name="delete"
+                                size={20}
+                                color="#FF3B30"
+                              />
+                            </Pressable>
+                          )}
                         </View>
                       );
                     })}
@@ -1567,34 +1473,55 @@ export default function CollectionDetailScreen() {
             </View>
           )}
 
+          {/* 批量操作栏（选择模式） */}
+          {selection.isSelecting && (
+            <BulkActionBar
+              selectedCount={selection.selectedIds.length}
+              isAllSelected={selection.isAllSelected}
+              actions={
+                activeTab === "level"
+                  ? ["recommend", "trash", "favorite", "setFeature", "move"]
+                  : ["restore", "trash", "favorite", "setFeature", "move"]
+              }
+              features={features}
+              levels={levels}
+              onToggleAll={selection.toggleAll}
+              onCancel={selection.endSelection}
+              onApply={handleBulkAction}
+              bottomInset={insets.bottom}
+            />
+          )}
+
           {/* 创建按钮（仅在层级 tab 显示） */}
-          {activeTab === "level" && !isSortingMode && (
-            <View
-              style={[
-                styles.bottomContainer,
-                {
-                  paddingBottom: Math.max(insets.bottom, 20) + 20,
-                },
-              ]}
-            >
-              <TouchableOpacity
-                style={styles.createButton}
-                onPress={() => {
-                  setLevelName("");
-                  setLevelNameError("");
-                  setIdentifierType("numeric");
-                  setModalUnits([]);
-                  setEditingLevelId(null);
-                  setModalVisible(true);
-                }}
-                activeOpacity={0.8}
+          {activeTab === "level" &&
+            !isSortingMode &&
+            !selection.isSelecting && (
+              <View
+                style={[
+                  styles.bottomContainer,
+                  {
+                    paddingBottom: Math.max(insets.bottom, 20) + 20,
+                  },
+                ]}
               >
-                <ThemedText style={styles.createButtonText}>
-                  创建层级
-                </ThemedText>
-              </TouchableOpacity>
-            </View>
-          )}
+                <TouchableOpacity
+                  style={styles.createButton}
+                  onPress={() => {
+                    setLevelName("");
+                    setLevelNameError("");
+                    setIdentifierType("numeric");
+                    setModalUnits([]);
+                    setEditingLevelId(null);
+                    setModalVisible(true);
+                  }}
+                  activeOpacity={0.8}
+                >
+                  <ThemedText style={styles.createButtonText}>
+                    创建层级
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            )}
         </View>
       )}
 
@@ -1803,7 +1730,7 @@ export default function CollectionDetailScreen() {
               确认删除
             </ThemedText>
             <ThemedText style={styles.deleteModalMessage}>
-              确定要删除这个层级吗？此操作不可恢复。
+              确定要删除这个层级吗？层级会移到回收站，可以在回收站中恢复。
             </ThemedText>
 
             <ThemedView style={styles.buttonContainer}>
@@ -1966,122 +1893,163 @@ export default function CollectionDetailScreen() {
 
               {features.length === 0 ? (
                 <ThemedText style={styles.emptyStateText}>
-                  暂无特性，请先创建特性
+                  暂无可用的特性，请先在特性管理中创建特性
                 </ThemedText>
               ) : (
-                features.map((feature) => {
-                  const currentValue = getUnitFeatureValue(
-                    editingUnitId || "",
-                    feature.id
-                  );
-                  return (
-                    <View key={feature.id} style={styles.featureRow}>
-                      <ThemedText style={styles.featureName}>
-                        {feature.name}
+                featureSections.map((section) => (
+                  <View key={section.group ?? ""}>
+                    {featureSections.length > 1 && (
+                      <ThemedText style={styles.featureGroupTitle}>
+                        {section.group ?? "未分组"}
                       </ThemedText>
-                      {feature.type === "numeric" ? (
-                        <View style={styles.featureValueContainer}>
-                          <Pressable
-                            style={[
-                              styles.selectButton,
-                              currentValue !== undefined &&
-                                styles.selectButtonActive,
-                            ]}
-                            onPress={() => {
-                              setCurrentFeatureForPicker(feature);
-                              setNumericPickerVisible(true);
-                            }}
-                          >
-                            <ThemedText
-                              style={[
-                                styles.selectButtonText,
-                                currentValue === undefined &&
-                                  styles.selectButtonTextPlaceholder,
-                              ]}
-                            >
-                              {currentValue !== undefined
-                                ? currentValue.toString()
-                                : "0"}
-                            </ThemedText>
-                            <MaterialIcons
-                              name="arrow-drop-down"
-                              size={20}
-                              color={
-                                currentValue !== undefined
-                                  ? "#007AFF"
-                                  : "#999999"
-                              }
-                            />
-                          </Pressable>
-                        </View>
-                      ) : (
-                        <View style={styles.radioGroup}>
-                          <Pressable
-                            style={[
-                              styles.radioOption,
-                              currentValue === true && styles.radioOptionActive,
-                            ]}
-                            onPress={() =>
-                              handleUnitFeatureChange(feature.id, true)
-                            }
-                          >
-                            <View
-                              style={[
-                                styles.radioCircle,
-                                currentValue === true &&
-                                  styles.radioCircleActive,
-                              ]}
-                            >
-                              {currentValue === true && (
-                                <View style={styles.radioInner} />
-                              )}
+                    )}
+                    {section.features.map((feature) => {
+                      const currentValue = getUnitFeatureValue(
+                        editingUnitId || "",
+                        feature.id
+                      );
+                      return (
+                        <View key={feature.id} style={styles.featureRow}>
+                          <ThemedText style={styles.featureName}>
+                            {feature.name}
+                          </ThemedText>
+                          {feature.type === "numeric" ? (
+                            <View style={styles.featureValueContainer}>
+                              <Pressable
+                                style={[
+                                  styles.selectButton,
+                                  currentValue !== undefined &&
+                                    styles.selectButtonActive,
+                                ]}
+                                onPress={() => {
+                                  setCurrentFeatureForPicker(feature);
+                                  setNumericPickerVisible(true);
+                                }}
+                              >
+                                <ThemedText
+                                  style={[
+                                    styles.selectButtonText,
+                                    currentValue === undefined &&
+                                      styles.selectButtonTextPlaceholder,
+                                  ]}
+                                >
+                                  {FeatureValues.format(
+                                    feature,
+                                    currentValue ??
+                                      FeatureValues.getDefaultValue(feature)
+                                  )}
+                                </ThemedText>
+                                <MaterialIcons
+                                  name="arrow-drop-down"
+                                  size={20}
+                                  color={
+                                    currentValue !== undefined
+                                      ? "#007AFF"
+                                      : "#999999"
+                                  }
+                                />
+                              </Pressable>
                             </View>
-                            <ThemedText
-                              style={[
-                                styles.radioLabel,
-                                currentValue === true &&
-                                  styles.radioLabelActive,
-                              ]}
-                            >
-                              是
-                            </ThemedText>
-                          </Pressable>
-                          <Pressable
-                            style={[
-                              styles.radioOption,
-                              currentValue === false &&
-                                styles.radioOptionActive,
-                            ]}
-                            onPress={() =>
-                              handleUnitFeatureChange(feature.id, false)
-                            }
-                          >
-                            <View
-                              style={[
-                                styles.radioCircle,
-                                currentValue === false &&
-                                  styles.radioCircleActive,
-                              ]}
-                            >
-                              {currentValue === false && (
-                                <View style={styles.radioInner} />
-                              )}
+                          ) : feature.type === "boolean" ? (
+                            <View style={styles.radioGroup}>
+                              <Pressable
+                                style={[
+                                  styles.radioOption,
+                                  currentValue === true && styles.radioOptionActive,
+                                ]}
+                                onPress={() =>
+                                  handleUnitFeatureChange(feature.id, true)
+                                }
+                              >
+                                <View
+                                  style={[
+                                    styles.radioCircle,
+                                    currentValue === true &&
+                                      styles.radioCircleActive,
+                                  ]}
+                                >
+                                  {currentValue === true && (
+                                    <View style={styles.radioInner} />
+                                  )}
+                                </View>
+                                <ThemedText
+                                  style={[
+                                    styles.radioLabel,
+                                    currentValue === true &&
+                                      styles.radioLabelActive,
+                                  ]}
+                                >
+                                  是
+                                </ThemedText>
+                              </Pressable>
+                              <Pressable
+                                style={[
+                                  styles.radioOption,
+                                  currentValue === false &&
+                                    styles.radioOptionActive,
+                                ]}
+                                onPress={() =>
+                                  handleUnitFeatureChange(feature.id, false)
+                                }
+                              >
+                                <View
+                                  style={[
+                                    styles.radioCircle,
+                                    currentValue === false &&
+                                      styles.radioCircleActive,
+                                  ]}
+                                >
+                                  {currentValue === false && (
+                                    <View style={styles.radioInner} />
+                                  )}
+                                </View>
+                                <ThemedText
+                                  style={[
+                                    styles.radioLabel,
+                                    currentValue === false &&
+                                      styles.radioLabelActive,
+                                  ]}
+                                >
+                                  否
+                                </ThemedText>
+                              </Pressable>
                             </View>
-                            <ThemedText
-                              style={[
-                                styles.radioLabel,
-                                currentValue === false &&
-                                  styles.radioLabelActive,
-                              ]}
-                            >
-                              否
-                            </ThemedText>
-                          </Pressable>
+                          ) : (
+                            <FeatureValueEditor
+                              key={`${editingUnitId}-${feature.id}`}
+                              feature={feature}
+                              value={currentValue}
+                              onChange={(value) =>
+                                handleUnitFeatureChange(feature.id, value)
+                              }
+                              commitOnEndEditing={true}
+                            />
+                          )}
                         </View>
-                      )}
+                      );
+                    })}
+                  </View>
+                ))
+              )}
+
+              {/* 单元历史记录（最新的在前） */}
+              {editingUnitHistory.length > 0 && (
+                <View style={styles.unitHistorySection}>
+                  <ThemedText style={styles.featureName}>历史记录</ThemedText>
+                  {editingUnitHistory.map((entry, index) => (
+                    <View
+                      key={`${entry.timestamp}-${index}`}
+                      style={styles.unitHistoryItem}
+                    >
+                      <ThemedText style={styles.unitHistoryTime}>
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </ThemedText>
+                      <ThemedText style={styles.unitHistoryText}>
+                        {UnitHistory.describe(entry, data.features)}
+                      </ThemedText>
                     </View>
-                  );
-                })
+                  ))}
+                </View>
               )}
             </ScrollView>
 
@@ -2165,16 +2133,37 @@ export default function CollectionDetailScreen() {
                 showsVerticalScrollIndicator={true}
                 nestedScrollEnabled={true}
               >
+                {/* 手动输入：可选值过多或需要小数时使用 */}
+                <View style={styles.pickerDropdownInput}>
+                  <FeatureValueEditor
+                    feature={currentFeatureForPicker}
+                    value={getUnitFeatureValue(
+                      editingUnitId,
+                      currentFeatureForPicker.id
+                    )}
+                    onChange={(value) =>
+                      handleUnitFeatureChange(currentFeatureForPicker.id, value)
+                    }
+                    commitOnEndEditing={true}
+                  />
+                </View>
                 <View style={styles.pickerDropdownGrid}>
-                  {[0, ...Array.from({ length: 30 }, (_, i) => i + 1)].map(
+                  {(
+                    FeatureValues.getNumericChoices(currentFeatureForPicker) ??
+                    []
+                  ).map(
                     (num) => {
                       const currentValue = getUnitFeatureValue(
                         editingUnitId || "",
                         currentFeatureForPicker.id
                       );
-                      // 如果当前值为undefined，默认显示为0
+                      // 如果当前值为undefined，显示为默认值
                       const displayValue =
-                        currentValue === undefined ? 0 : currentValue;
+                        currentValue === undefined
+                          ? FeatureValues.getDefaultValue(
+                              currentFeatureForPicker
+                            )
+                          : currentValue;
                       const isSelected = displayValue === num;
                       return (
                         <Pressable
@@ -2198,7 +2187,10 @@ export default function CollectionDetailScreen() {
                               isSelected && styles.pickerDropdownItemTextActive,
                             ]}
                           >
-                            {num}
+                            {FeatureValues.formatNumber(
+                              currentFeatureForPicker,
+                              num
+                            )}
                           </ThemedText>
                           {isSelected && (
                             <MaterialIcons
@@ -2254,6 +2246,14 @@ export default function CollectionDetailScreen() {
           </ThemedView>
         </ThemedView>
       </Modal>
+
+      {/* 破坏性操作后的撤销提示 */}
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={() => handleHistoryAction("undo")}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + 100}
+      />
     </>
   );
 }
@@ -2471,6 +2471,25 @@ const styles = StyleSheet.create({
     minHeight: 44,
     minWidth: 60,
   },
+  unitItemContent: {
+    alignItems: "center",
+  },
+  unitCardText: {
+    fontSize: 12,
+    color: "#666666",
+    marginTop: 2,
+    maxWidth: 160,
+  },
+  unitItemSelected: {
+    backgroundColor: "#007AFF",
+  },
+  unitNameSelected: {
+    color: "#FFFFFF",
+  },
+  unitRowSelected: {
+    borderColor: "#007AFF",
+    backgroundColor: "#F0F7FF",
+  },
   unitEditButtonWrapper: {
     padding: 16,
     borderTopWidth: 1,
@@ -2512,6 +2531,34 @@ const styles = StyleSheet.create({
   recommendTrashContainer: {
     paddingVertical: 8,
   },
+  recommendSortBar: {
+    flexDirection: "row",
+    gap: 8,
+    paddingBottom: 12,
+  },
+  recommendSortChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  recommendSortChipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  recommendSortChipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  recommendSortChipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
   unitRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -3111,14 +3158,18 @@ const styles = StyleSheet.create({
   pickerDropdownContent: {
     padding: 12,
   },
+  pickerDropdownInput: {
+    marginBottom: 12,
+  },
   pickerDropdownGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
     gap: 8,
   },
   pickerDropdownItem: {
-    width: 50,
+    minWidth: 50,
     height: 50,
+    paddingHorizontal: 6,
     alignItems: "center",
     justifyContent: "center",
     borderRadius: 8,
@@ -3142,6 +3193,15 @@ const styles = StyleSheet.create({
   featureRow: {
     marginBottom: 16,
   },
+  featureGroupTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666666",
+    paddingBottom: 6,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E0E0E0",
+  },
   featureName: {
     fontSize: 16,
     fontWeight: "500",
@@ -3153,4 +3213,21 @@ const styles = StyleSheet.create({
     flexWrap: "wrap",
     gap: 8,
   },
+  unitHistorySection: {
+    marginTop: 8,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#E0E0E0",
+  },
+  unitHistoryItem: {
+    paddingVertical: 6,
+  },
+  unitHistoryTime: {
+    fontSize: 12,
+    color: "#999999",
+  },
+  unitHistoryText: {
+    fontSize: 14,
+    color: "#333333",
+  },
 });
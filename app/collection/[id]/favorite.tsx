@@ -1,12 +1,8 @@
 import { useNavigation } from "@react-navigation/native";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, {
-  useCallback,
-  useEffect,
-  useLayoutEffect,
-  useState,
-} from "react";
+import React, { useCallback, useLayoutEffect, useMemo, useState } from "react";
 import {
+  Alert,
   Platform,
   Pressable,
   ScrollView,
@@ -15,11 +11,17 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { BulkActionBar } from "@/components/BulkActionBar";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { UndoToast } from "@/components/UndoToast";
 import { useUnifiedData } from "@/hooks/useUnifiedData";
-import { DataAdapter } from "@/utils/dataAdapter";
-import { FavoriteUnit } from "@/utils/storage";
+import { useUnitSelection } from "@/hooks/useUnitSelection";
+import {
+  BULK_UNIT_ACTION_LABELS,
+  type BulkUnitAction,
+} from "@/utils/bulkUnitActions";
+import { DataSelectors } from "@/utils/dataSelectors";
 import { MaterialIcons } from "@expo/vector-icons";
 
 export default function FavoriteScreen() {
@@ -27,15 +29,27 @@ export default function FavoriteScreen() {
   const navigation = useNavigation();
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { dataManager, data, loading: dataLoading } = useUnifiedData();
-  const adapterRef = React.useRef<DataAdapter | null>(null);
-  if (!adapterRef.current) {
-    adapterRef.current = new DataAdapter(dataManager);
-  }
-  const adapter = adapterRef.current;
+  const { dataManager, data, loading, updateData, undo } = useUnifiedData();
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
 
-  const [favoriteUnits, setFavoriteUnits] = useState<FavoriteUnit[]>([]);
-  const [loading, setLoading] = useState(true);
+  // 收藏的单元即状态为 favorite 的单元
+  const favoriteUnits = useMemo(
+    () => DataSelectors.getUnitsByStatus(data, id, "favorite"),
+    [data, id]
+  );
+  const levels = useMemo(
+    () => DataSelectors.getActiveLevels(DataSelectors.getCollection(data, id)),
+    [data, id]
+  );
+  const features = useMemo(
+    () => DataSelectors.getApplicableFeatures(data, id),
+    [data, id]
+  );
+  const favoriteUnitIds = useMemo(
+    () => favoriteUnits.map((item) => item.unit.id),
+    [favoriteUnits]
+  );
+  const selection = useUnitSelection(favoriteUnitIds);
 
   // 使用 useLayoutEffect 确保导航配置在渲染前更新
   useLayoutEffect(() => {
@@ -60,33 +74,51 @@ export default function FavoriteScreen() {
     });
   }, [navigation, router, id, loading]);
 
-  // 加载收藏数据
-  const loadData = useCallback(async () => {
-    if (!id || dataLoading) {
-      setLoading(false);
-      return;
-    }
-    setLoading(true);
-    try {
-      const data = adapter.getFavoriteUnits(id);
-      setFavoriteUnits(data);
-    } catch (error) {
-      console.error("加载收藏数据失败:", error);
-    } finally {
-      setLoading(false);
-    }
-  }, [id, dataLoading, adapter]);
+  // 取消收藏
+  const handleUnfavorite = useCallback(
+    (unitId: string) => {
+      dataManager.execute("取消收藏", () =>
+        dataManager.setUnitStatus(unitId, "normal")
+      );
+      updateData(id).catch((error) => {
+        console.error("保存数据失败:", error);
+      });
+    },
+    [dataManager, updateData, id]
+  );
 
-  // 首次加载数据
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
+  // 对选中的单元执行批量操作，整体作为一个可撤销的步骤
+  const handleBulkAction = (action: BulkUnitAction) => {
+    const label = BULK_UNIT_ACTION_LABELS[action.type];
+    let changedCount = 0;
+    dataManager.execute(label, () => {
+      changedCount = dataManager.applyBulkUnitAction(
+        id,
+        selection.selectedIds,
+        action
+      );
+    });
+    updateData(id).catch((error) => {
+      console.error("保存数据失败:", error);
+    });
+    setUndoToastMessage(`${label}：${changedCount} 个单元`);
+    selection.endSelection();
+  };
 
-  // 取消收藏
-  const handleUnfavorite = useCallback((unitId: string) => {
-    setFavoriteUnits((prev) => prev.filter((item) => item.unit.id !== unitId));
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
   }, []);
 
+  const handleUndo = async () => {
+    setUndoToastMessage(null);
+    try {
+      await undo();
+    } catch (error) {
+      console.error("撤销失败:", error);
+      Alert.alert("错误", "撤销失败，请重试");
+    }
+  };
+
   // Stack.Screen 必须在组件顶层，确保始终渲染
   // 使用函数形式的 options 确保每次渲染时都更新配置
   return (
@@ -110,6 +142,23 @@ export default function FavoriteScreen() {
               <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
             </Pressable>
           ),
+          headerRight: () =>
+            favoriteUnits.length > 0 ? (
+              <Pressable
+                style={styles.headerButton}
+                onPress={() =>
+                  selection.isSelecting
+                    ? selection.endSelection()
+                    : selection.startSelection()
+                }
+              >
+                <MaterialIcons
+                  name="checklist"
+                  size={24}
+                  color={selection.isSelecting ? "#0051D5" : "#007AFF"}
+                />
+              </Pressable>
+            ) : null,
         }}
       />
       <ThemedView style={styles.container}>
@@ -122,37 +171,88 @@ export default function FavoriteScreen() {
             <ThemedText style={styles.emptyStateText}>暂无收藏</ThemedText>
           </ThemedView>
         ) : (
-          <ScrollView
-            style={styles.content}
-            contentContainerStyle={[
-              styles.contentContainer,
-              { paddingBottom: insets.bottom + 20 },
-            ]}
-            showsVerticalScrollIndicator={false}
-          >
-            {favoriteUnits.map((item, index) => (
-              <View key={`${item.unit.id}-${index}`} style={styles.unitRow}>
-                <View style={styles.unitRowContent}>
-                  <ThemedText style={styles.unitRowText}>
-                    {item.levelName} + {item.unit.name}
-                  </ThemedText>
-                  {item.reason && (
-                    <ThemedText style={styles.unitReasonText}>
-                      {item.reason}
-                    </ThemedText>
-                  )}
-                </View>
-                <Pressable
-                  style={styles.unfavoriteButton}
-                  onPress={() => handleUnfavorite(item.unit.id)}
-                >
-                  <MaterialIcons name="star" size={20} color="#FFA500" />
-                </Pressable>
-              </View>
-            ))}
-          </ScrollView>
+          <>
+            <ScrollView
+              style={styles.content}
+              contentContainerStyle={[
+                styles.contentContainer,
+                { paddingBottom: insets.bottom + 20 },
+              ]}
+              showsVerticalScrollIndicator={false}
+            >
+              {favoriteUnits.map((item, index) => {
+                const isSelected = selection.isSelected(item.unit.id);
+                return (
+                  <Pressable
+                    key={`${item.unit.id}-${index}`}
+                    style={[
+                      styles.unitRow,
+                      isSelected && styles.unitRowSelected,
+                    ]}
+                    disabled={!selection.isSelecting}
+                    onPress={() => selection.toggle(item.unit.id)}
+                  >
+                    <View style={styles.unitRowContent}>
+                      <ThemedText style={styles.unitRowText}>
+                        {item.level.name} + {item.unit.name}
+                      </ThemedText>
+                      {item.unit.favoriteReason && (
+                        <ThemedText style={styles.unitReasonText}>
+                          {item.unit.favoriteReason}
+                        </ThemedText>
+                      )}
+                    </View>
+                    {selection.isSelecting ? (
+                      <MaterialIcons
+                        name={
+                          isSelected ? "check-circle" : "radio-button-unchecked"
+                        }
+                        size={22}
+                        color="#007AFF"
+                        style={styles.unfavoriteButton}
+                      />
+                    ) : (
+                      <Pressable
+                        style={styles.unfavoriteButton}
+                        onPress={() => handleUnfavorite(item.unit.id)}
+                      >
+                        <MaterialIcons name="star" size={20} color="#FFA500" />
+                      </Pressable>
+                    )}
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+
+            {selection.isSelecting && (
+              <BulkActionBar
+                selectedCount={selection.selectedIds.length}
+                isAllSelected={selection.isAllSelected}
+                actions={[
+                  "restore",
+                  "recommend",
+                  "trash",
+                  "setFeature",
+                  "move",
+                ]}
+                features={features}
+                levels={levels}
+                onToggleAll={selection.toggleAll}
+                onCancel={selection.endSelection}
+                onApply={handleBulkAction}
+                bottomInset={insets.bottom}
+              />
+            )}
+          </>
         )}
       </ThemedView>
+
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={handleUndo}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + (selection.isSelecting ? 130 : 24)}
+      />
     </>
   );
 }
@@ -202,6 +302,10 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  unitRowSelected: {
+    borderColor: "#007AFF",
+    backgroundColor: "#F0F7FF",
+  },
   unitRowContent: {
     flex: 1,
   },
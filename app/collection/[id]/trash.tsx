@@ -1,59 +1,164 @@
-import { useNavigation } from "@react-navigation/native";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import {
+  Alert,
+  Modal,
   Platform,
   Pressable,
   ScrollView,
   StyleSheet,
+  TouchableOpacity,
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { BulkActionBar } from "@/components/BulkActionBar";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { TrashItemRow } from "@/components/TrashItemRow";
+import { UndoToast } from "@/components/UndoToast";
 import { useUnifiedData } from "@/hooks/useUnifiedData";
-import { DataAdapter } from "@/utils/dataAdapter";
-import { TrashedUnit } from "@/utils/storage";
+import { useUnitSelection } from "@/hooks/useUnitSelection";
+import {
+  BULK_UNIT_ACTION_LABELS,
+  type BulkUnitAction,
+} from "@/utils/bulkUnitActions";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { RecycleBin } from "@/utils/recycleBin";
 import { MaterialIcons } from "@expo/vector-icons";
 
+/**
+ * 等待确认的彻底删除操作
+ */
+type PendingPurge =
+  | { kind: "empty" }
+  | { kind: "unit"; unitId: string; name: string }
+  | { kind: "level"; levelId: string; name: string };
+
 export default function TrashScreen() {
   const { id } = useLocalSearchParams<{
     id: string;
   }>();
-  const navigation = useNavigation();
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { dataManager, data, loading: dataLoading } = useUnifiedData();
-  const adapterRef = React.useRef<DataAdapter | null>(null);
-  if (!adapterRef.current) {
-    adapterRef.current = new DataAdapter(dataManager);
-  }
-  const adapter = adapterRef.current;
-
-  const [trashedUnits, setTrashedUnits] = useState<TrashedUnit[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const loadData = useCallback(async () => {
-    if (!id || dataLoading) {
-      setLoading(false);
-      return;
+  const { data, loading, dataManager, updateData, undo, trashRetentionDays } =
+    useUnifiedData();
+
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
+
+  // 回收站中的单元即状态为 trash 的单元
+  const trashedUnits = useMemo(
+    () => DataSelectors.getUnitsByStatus(data, id, "trash"),
+    [data, id]
+  );
+  // 删除的层级连同其中的单元一起放在回收站中
+  const deletedLevels = useMemo(
+    () => DataSelectors.getDeletedLevels(data, id),
+    [data, id]
+  );
+  const isEmpty = trashedUnits.length === 0 && deletedLevels.length === 0;
+  const levels = useMemo(
+    () => DataSelectors.getActiveLevels(DataSelectors.getCollection(data, id)),
+    [data, id]
+  );
+  const features = useMemo(
+    () => DataSelectors.getApplicableFeatures(data, id),
+    [data, id]
+  );
+  // 多选只针对回收站中的单元，删除的层级逐个恢复
+  const trashedUnitIds = useMemo(
+    () => trashedUnits.map((item) => item.unit.id),
+    [trashedUnits]
+  );
+  const selection = useUnitSelection(trashedUnitIds);
+
+  /**
+   * 作为一个可撤销的步骤修改数据，并稍后保存
+   */
+  const commitChange = (label: string, mutation: () => void) => {
+    dataManager.execute(label, mutation);
+    updateData(id).catch((error) => {
+      console.error("保存数据失败:", error);
+    });
+  };
+
+  const handleRestoreUnit = (unitId: string, name: string) => {
+    commitChange("恢复单元", () => dataManager.setUnitStatus(unitId, "normal"));
+    setUndoToastMessage(`已恢复单元 ${name}`);
+  };
+
+  const handleRestoreLevel = (levelId: string, name: string) => {
+    commitChange("恢复层级", () => dataManager.restoreLevel(id, levelId));
+    setUndoToastMessage(`已恢复层级 ${name}`);
+  };
+
+  // 单元恢复到原来所在的层级（单元在回收站中时仍保留在原层级里）
+  const handleRestoreAll = () => {
+    commitChange("全部恢复", () => {
+      dataManager.setUnitsStatus(
+        trashedUnits.map((item) => item.unit.id),
+        "normal"
+      );
+      deletedLevels.forEach((level) => dataManager.restoreLevel(id, level.id));
+    });
+    setUndoToastMessage("已全部恢复");
+  };
+
+  // 对选中的单元执行批量操作，整体作为一个可撤销的步骤
+  const handleBulkAction = (action: BulkUnitAction) => {
+    const label = BULK_UNIT_ACTION_LABELS[action.type];
+    let changedCount = 0;
+    commitChange(label, () => {
+      changedCount = dataManager.applyBulkUnitAction(
+        id,
+        selection.selectedIds,
+        action
+      );
+    });
+    setUndoToastMessage(`${label}：${changedCount} 个单元`);
+    selection.endSelection();
+  };
+
+  const confirmPurge = () => {
+    if (!pendingPurge) return;
+    const purge = pendingPurge;
+    setPendingPurge(null);
+    switch (purge.kind) {
+      case "empty":
+        commitChange("清空回收站", () => {
+          dataManager.emptyTrash(id);
+        });
+        setUndoToastMessage("已清空回收站");
+        break;
+      case "unit":
+        commitChange("彻底删除单元", () => {
+          dataManager.removeUnits([purge.unitId]);
+        });
+        setUndoToastMessage(`已彻底删除单元 ${purge.name}`);
+        break;
+      case "level":
+        commitChange("彻底删除层级", () =>
+          dataManager.purgeLevel(id, purge.levelId)
+        );
+        setUndoToastMessage(`已彻底删除层级 ${purge.name}`);
+        break;
     }
-    setLoading(true);
+  };
+
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
+  }, []);
+
+  const handleUndo = async () => {
+    setUndoToastMessage(null);
     try {
-      const data = adapter.getTrashedUnits(id);
-      setTrashedUnits(data);
+      await undo();
     } catch (error) {
-      console.error("加载回收站数据失败:", error);
-    } finally {
-      setLoading(false);
+      console.error("撤销失败:", error);
+      Alert.alert("错误", "撤销失败，请重试");
     }
-  }, [id, dataLoading, adapter]);
-
-  // 首次加载数据
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
+  };
 
   return (
     <>
@@ -76,6 +181,23 @@ export default function TrashScreen() {
               <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
             </Pressable>
           ),
+          headerRight: () =>
+            trashedUnits.length > 0 ? (
+              <Pressable
+                style={styles.headerButton}
+                onPress={() =>
+                  selection.isSelecting
+                    ? selection.endSelection()
+                    : selection.startSelection()
+                }
+              >
+                <MaterialIcons
+                  name="checklist"
+                  size={24}
+                  color={selection.isSelecting ? "#0051D5" : "#007AFF"}
+                />
+              </Pressable>
+            ) : null,
         }}
       />
       <ThemedView style={styles.container}>
@@ -83,31 +205,172 @@ export default function TrashScreen() {
           <ThemedView style={styles.emptyState}>
             <ThemedText style={styles.loadingText}>加载中...</ThemedText>
           </ThemedView>
-        ) : trashedUnits.length === 0 ? (
+        ) : isEmpty ? (
           <ThemedView style={styles.emptyState}>
             <ThemedText style={styles.emptyStateText}>回收站为空</ThemedText>
           </ThemedView>
         ) : (
-          <ScrollView
-            style={styles.content}
-            contentContainerStyle={[
-              styles.contentContainer,
-              { paddingBottom: insets.bottom + 20 },
-            ]}
-            showsVerticalScrollIndicator={false}
-          >
-            <View style={styles.unitsContainer}>
-              {trashedUnits.map((item, index) => (
-                <View key={`${item.unit.id}-${index}`} style={styles.unitRow}>
-                  <ThemedText style={styles.unitRowText}>
-                    {item.levelName} + {item.unit.name}
+          <>
+            <ScrollView
+              style={styles.content}
+              contentContainerStyle={[
+                styles.contentContainer,
+                { paddingBottom: insets.bottom + 20 },
+              ]}
+              showsVerticalScrollIndicator={false}
+            >
+              {deletedLevels.length > 0 && !selection.isSelecting && (
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>
+                    已删除的层级
                   </ThemedText>
+                  {deletedLevels.map((level) => (
+                    <TrashItemRow
+                      key={level.id}
+                      title={`${level.name}（${level.units.length} 个单元）`}
+                      subtitle={RecycleBin.describe(
+                        level.deletedAt ?? level.updatedAt,
+                        trashRetentionDays
+                      )}
+                      onRestore={() => handleRestoreLevel(level.id, level.name)}
+                      onPurge={() =>
+                        setPendingPurge({
+                          kind: "level",
+                          levelId: level.id,
+                          name: level.name,
+                        })
+                      }
+                    />
+                  ))}
+                </View>
+              )}
+
+              {trashedUnits.length > 0 && (
+                <View style={styles.section}>
+                  {deletedLevels.length > 0 && !selection.isSelecting && (
+                    <ThemedText style={styles.sectionTitle}>单元</ThemedText>
+                  )}
+                  {trashedUnits.map((item) => (
+                    <TrashItemRow
+                      key={item.unit.id}
+                      title={`${item.level.name} + ${item.unit.name}`}
+                      subtitle={RecycleBin.describe(
+                        item.unit.trashedAt ?? item.unit.updatedAt,
+                        trashRetentionDays
+                      )}
+                      onRestore={() =>
+                        handleRestoreUnit(item.unit.id, item.unit.name)
+                      }
+                      onPurge={() =>
+                        setPendingPurge({
+                          kind: "unit",
+                          unitId: item.unit.id,
+                          name: item.unit.name,
+                        })
+                      }
+                      isSelecting={selection.isSelecting}
+                      isSelected={selection.isSelected(item.unit.id)}
+                      onToggleSelect={() => selection.toggle(item.unit.id)}
+                    />
+                  ))}
                 </View>
-              ))}
-            </View>
-          </ScrollView>
+              )}
+            </ScrollView>
+
+            {selection.isSelecting ? (
+              <BulkActionBar
+                selectedCount={selection.selectedIds.length}
+                isAllSelected={selection.isAllSelected}
+                actions={[
+                  "restore",
+                  "recommend",
+                  "favorite",
+                  "setFeature",
+                  "move",
+                ]}
+                features={features}
+                levels={levels}
+                onToggleAll={selection.toggleAll}
+                onCancel={selection.endSelection}
+                onApply={handleBulkAction}
+                bottomInset={insets.bottom}
+              />
+            ) : (
+              <View
+                style={[
+                  styles.bottomBar,
+                  { paddingBottom: Math.max(insets.bottom, 12) + 8 },
+                ]}
+              >
+                <TouchableOpacity
+                  style={[styles.bottomButton, styles.restoreAllButton]}
+                  onPress={handleRestoreAll}
+                >
+                  <ThemedText style={styles.restoreAllButtonText}>
+                    全部恢复
+                  </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.bottomButton, styles.emptyTrashButton]}
+                  onPress={() => setPendingPurge({ kind: "empty" })}
+                >
+                  <ThemedText style={styles.emptyTrashButtonText}>
+                    清空回收站
+                  </ThemedText>
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
         )}
       </ThemedView>
+
+      {/* 彻底删除确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingPurge !== null}
+        onRequestClose={() => setPendingPurge(null)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.confirmModalContent}>
+            <ThemedText type="subtitle" style={styles.confirmModalTitle}>
+              {pendingPurge?.kind === "empty" ? "清空回收站" : "彻底删除"}
+            </ThemedText>
+            <ThemedText style={styles.confirmModalMessage}>
+              {pendingPurge?.kind === "empty"
+                ? "回收站中的所有单元和层级都会被彻底删除，确定要清空吗？"
+                : `确定要彻底删除${
+                    pendingPurge?.kind === "level" ? "层级" : "单元"
+                  } ${pendingPurge?.name ?? ""} 吗？`}
+            </ThemedText>
+
+            <ThemedView style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setPendingPurge(null)}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.deleteConfirmButton]}
+                onPress={confirmPurge}
+              >
+                <ThemedText style={styles.deleteConfirmButtonText}>
+                  删除
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={handleUndo}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + 90}
+      />
     </>
   );
 }
@@ -142,32 +405,124 @@ const styles = StyleSheet.create({
     textAlign: "center",
     lineHeight: 22,
   },
-  unitsContainer: {
+  section: {
     paddingVertical: 8,
   },
-  unitRow: {
-    backgroundColor: "#FFFFFF",
-    padding: 16,
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#666666",
     marginBottom: 8,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: "#E0E0E0",
+  },
+  bottomBar: {
+    flexDirection: "row",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E0E0E0",
     ...Platform.select({
       ios: {
         shadowColor: "#000",
-        shadowOffset: { width: 0, height: 1 },
-        shadowOpacity: 0.05,
-        shadowRadius: 2,
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
       },
       android: {
-        elevation: 1,
+        elevation: 8,
       },
     }),
   },
-  unitRowText: {
+  bottomButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    minHeight: 48,
+  },
+  restoreAllButton: {
+    backgroundColor: "#007AFF",
+  },
+  restoreAllButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyTrashButton: {
+    backgroundColor: "#FFF0F0",
+  },
+  emptyTrashButtonText: {
+    color: "#FF3B30",
     fontSize: 16,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  confirmModalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  confirmModalTitle: {
+    textAlign: "center",
+    marginBottom: 16,
     color: "#000000",
-    fontWeight: "500",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  confirmModalMessage: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deleteConfirmButton: {
+    backgroundColor: "#FF3B30",
+  },
+  deleteConfirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
   },
   headerButton: {
     padding: 8,
@@ -0,0 +1,748 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Dimensions,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { UndoToast } from "@/components/UndoToast";
+import { useUnifiedData } from "@/hooks/useUnifiedData";
+import type { FeatureSet } from "@/types/dataStructure";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { collectUsedIds, generateUniqueId } from "@/utils/idGenerator";
+
+/**
+ * 特性组管理
+ * @description 特性组是一组可复用的特性，集合选择使用某个特性组后，组内的特性出现在该集合的单元编辑中
+ */
+export default function FeatureSetsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { data, loading, dataManager, updateData, undo } = useUnifiedData();
+
+  const featureSets = useMemo(() => Object.values(data.featureSets), [data]);
+  const features = useMemo(() => DataSelectors.getActiveFeatures(data), [data]);
+  const collections = useMemo(
+    () => DataSelectors.getActiveCollections(data),
+    [data]
+  );
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingFeatureSetId, setEditingFeatureSetId] = useState<string | null>(
+    null
+  );
+  const [featureSetName, setFeatureSetName] = useState("");
+  const [featureSetNameError, setFeatureSetNameError] = useState("");
+  const [selectedFeatureIds, setSelectedFeatureIds] = useState<string[]>([]);
+  const [selectedCollectionIds, setSelectedCollectionIds] = useState<string[]>(
+    []
+  );
+  const [pendingDelete, setPendingDelete] = useState<FeatureSet | null>(null);
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
+
+  /**
+   * 作为一个可撤销的步骤修改数据，并稍后保存
+   */
+  const commitChange = (label: string, mutation: () => void) => {
+    dataManager.execute(label, mutation);
+    updateData().catch((error) => {
+      console.error("保存特性组失败:", error);
+    });
+  };
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id];
+
+  // 关闭弹窗后清空表单
+  const resetForm = () => {
+    setEditingFeatureSetId(null);
+    setFeatureSetName("");
+    setFeatureSetNameError("");
+    setSelectedFeatureIds([]);
+    setSelectedCollectionIds([]);
+  };
+
+  const handleEditFeatureSet = (featureSet: FeatureSet) => {
+    setEditingFeatureSetId(featureSet.id);
+    setFeatureSetName(featureSet.name);
+    setFeatureSetNameError("");
+    setSelectedFeatureIds(featureSet.featureIds);
+    setSelectedCollectionIds(
+      DataSelectors.getCollectionsUsingFeatureSet(data, featureSet.id).map(
+        (collection) => collection.id
+      )
+    );
+    setModalVisible(true);
+  };
+
+  const handleSaveFeatureSet = () => {
+    const trimmedName = featureSetName.trim();
+    if (!trimmedName) {
+      setFeatureSetNameError("请输入特性组名称");
+      return;
+    }
+    if (
+      featureSets.some(
+        (featureSet) =>
+          featureSet.name === trimmedName &&
+          featureSet.id !== editingFeatureSetId
+      )
+    ) {
+      setFeatureSetNameError("特性组名称不能重复");
+      return;
+    }
+
+    try {
+      const existing = editingFeatureSetId
+        ? dataManager.getFeatureSet(editingFeatureSetId)
+        : undefined;
+      const now = Date.now();
+      const featureSet: FeatureSet = existing
+        ? { ...existing, name: trimmedName, featureIds: selectedFeatureIds }
+        : {
+            id: generateUniqueId(collectUsedIds(data)),
+            name: trimmedName,
+            featureIds: selectedFeatureIds,
+            createdAt: now,
+            updatedAt: now,
+          };
+      commitChange(existing ? "编辑特性组" : "添加特性组", () => {
+        if (existing) {
+          dataManager.updateFeatureSet(featureSet.id, featureSet);
+        } else {
+          dataManager.addFeatureSet(featureSet);
+        }
+        dataManager.setFeatureSetCollections(
+          featureSet.id,
+          selectedCollectionIds
+        );
+      });
+      resetForm();
+      setModalVisible(false);
+    } catch (error) {
+      console.error("保存特性组失败:", error);
+      Alert.alert("错误", "保存特性组失败，请重试");
+    }
+  };
+
+  const confirmDelete = () => {
+    const featureSet = pendingDelete;
+    setPendingDelete(null);
+    if (!featureSet) return;
+    commitChange("删除特性组", () =>
+      dataManager.removeFeatureSet(featureSet.id)
+    );
+    setUndoToastMessage(`已删除特性组 ${featureSet.name}`);
+  };
+
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
+  }, []);
+
+  const handleUndo = async () => {
+    setUndoToastMessage(null);
+    try {
+      await undo();
+    } catch (error) {
+      console.error("撤销失败:", error);
+      Alert.alert("错误", "撤销失败，请重试");
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isActive: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, isActive && styles.chipTextActive]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  // 特性组的内容说明，例如 “3 个特性：评分、难度、完成”
+  const describeFeatures = (featureSet: FeatureSet): string => {
+    const names = features
+      .filter((feature) => featureSet.featureIds.includes(feature.id))
+      .map((feature) => feature.name);
+    return names.length > 0
+      ? `${names.length} 个特性：${names.join("、")}`
+      : "暂无特性";
+  };
+
+  const describeCollections = (featureSet: FeatureSet): string => {
+    const names = DataSelectors.getCollectionsUsingFeatureSet(
+      data,
+      featureSet.id
+    )
+      .filter((collection) => collection.deletedAt === undefined)
+      .map((collection) => collection.name);
+    return names.length > 0
+      ? `使用的集合：${names.join("、")}`
+      : "还没有集合使用该特性组";
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        key="feature-sets-screen"
+        options={{
+          title: "特性组",
+          headerShown: true,
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Pressable
+              style={styles.headerButton}
+              onPress={() => {
+                if (router.canGoBack()) {
+                  router.back();
+                } else {
+                  router.push("/features");
+                }
+              }}
+            >
+              <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+            </Pressable>
+          ),
+        }}
+      />
+      {loading ? (
+        <ThemedView style={styles.container}>
+          <ThemedText style={styles.loadingText}>加载中...</ThemedText>
+        </ThemedView>
+      ) : (
+        <View style={styles.container}>
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={[
+              styles.contentContainer,
+              { paddingBottom: insets.bottom + 100 },
+            ]}
+            showsVerticalScrollIndicator={false}
+          >
+            <ThemedText style={styles.hintText}>
+              不属于任何特性组、也没有指定适用集合的特性为全局特性，在所有集合中可用
+            </ThemedText>
+            {featureSets.length === 0 ? (
+              <ThemedView style={styles.emptyState}>
+                <ThemedText style={styles.emptyStateText}>
+                  暂无特性组，点击下方按钮创建第一个特性组
+                </ThemedText>
+              </ThemedView>
+            ) : (
+              featureSets.map((featureSet) => (
+                <View key={featureSet.id} style={styles.featureSetItem}>
+                  <View style={styles.featureSetInfo}>
+                    <ThemedText style={styles.featureSetName}>
+                      {featureSet.name}
+                    </ThemedText>
+                    <ThemedText style={styles.featureSetDetail}>
+                      {describeFeatures(featureSet)}
+                    </ThemedText>
+                    <ThemedText style={styles.featureSetDetail}>
+                      {describeCollections(featureSet)}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.featureSetActions}>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
+                      ]}
+                      onPress={() => handleEditFeatureSet(featureSet)}
+                    >
+                      <MaterialIcons name="edit" size={20} color="#007AFF" />
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
+                      ]}
+                      onPress={() => setPendingDelete(featureSet)}
+                    >
+                      <MaterialIcons name="delete" size={20} color="#FF3B30" />
+                    </Pressable>
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          <View
+            style={[
+              styles.bottomContainer,
+              { paddingBottom: Math.max(insets.bottom, 20) + 20 },
+            ]}
+          >
+            <TouchableOpacity
+              style={styles.createButton}
+              onPress={() => {
+                resetForm();
+                setModalVisible(true);
+              }}
+              activeOpacity={0.8}
+            >
+              <ThemedText style={styles.createButtonText}>
+                创建特性组
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* 创建/编辑特性组 Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={modalVisible}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.modalContent}>
+            <ScrollView
+              style={styles.modalScrollView}
+              contentContainerStyle={styles.modalScrollContent}
+            >
+              <ThemedText type="subtitle" style={styles.modalTitle}>
+                {editingFeatureSetId ? "编辑特性组" : "创建特性组"}
+              </ThemedText>
+
+              <TextInput
+                style={[
+                  styles.textInput,
+                  featureSetNameError && styles.textInputError,
+                ]}
+                placeholder="请输入特性组名称"
+                value={featureSetName}
+                onChangeText={(text) => {
+                  setFeatureSetName(text);
+                  if (featureSetNameError) {
+                    setFeatureSetNameError("");
+                  }
+                }}
+              />
+              {featureSetNameError ? (
+                <ThemedText style={styles.errorText}>
+                  {featureSetNameError}
+                </ThemedText>
+              ) : null}
+
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionLabel}>组内特性：</ThemedText>
+                {features.length === 0 ? (
+                  <ThemedText style={styles.hintText}>
+                    暂无特性，请先在特性管理中创建特性
+                  </ThemedText>
+                ) : (
+                  <View style={styles.chipGroup}>
+                    {features.map((feature) =>
+                      renderChip(
+                        feature.id,
+                        feature.name,
+                        selectedFeatureIds.includes(feature.id),
+                        () =>
+                          setSelectedFeatureIds(
+                            toggleId(selectedFeatureIds, feature.id)
+                          )
+                      )
+                    )}
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionLabel}>
+                  使用该特性组的集合：
+                </ThemedText>
+                {collections.length === 0 ? (
+                  <ThemedText style={styles.hintText}>暂无集合</ThemedText>
+                ) : (
+                  <View style={styles.chipGroup}>
+                    {collections.map((collection) =>
+                      renderChip(
+                        collection.id,
+                        collection.name,
+                        selectedCollectionIds.includes(collection.id),
+                        () =>
+                          setSelectedCollectionIds(
+                            toggleId(selectedCollectionIds, collection.id)
+                          )
+                      )
+                    )}
+                  </View>
+                )}
+                <ThemedText style={styles.hintText}>
+                  加入特性组的特性不再是全局特性，只在使用该特性组的集合（以及特性自己选择的集合）中可用
+                </ThemedText>
+              </View>
+            </ScrollView>
+
+            <ThemedView style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => {
+                  setModalVisible(false);
+                  resetForm();
+                }}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.confirmButton]}
+                onPress={handleSaveFeatureSet}
+              >
+                <ThemedText style={styles.confirmButtonText}>
+                  {editingFeatureSetId ? "保存" : "创建"}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+
+      {/* 删除确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingDelete !== null}
+        onRequestClose={() => setPendingDelete(null)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.confirmModalContent}>
+            <ThemedText type="subtitle" style={styles.modalTitle}>
+              删除特性组
+            </ThemedText>
+            <ThemedText style={styles.confirmModalMessage}>
+              {pendingDelete
+                ? `确定要删除特性组 ${pendingDelete.name} 吗？特性本身不会删除，只属于该特性组的特性将不在任何集合中显示，可在特性管理中重新选择适用范围。`
+                : ""}
+            </ThemedText>
+
+            <ThemedView style={styles.confirmButtonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setPendingDelete(null)}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.deleteConfirmButton]}
+                onPress={confirmDelete}
+              >
+                <ThemedText style={styles.confirmButtonText}>删除</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={handleUndo}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + 110}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F5F5",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#999999",
+    textAlign: "center",
+    marginTop: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999999",
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 80,
+    paddingHorizontal: 20,
+  },
+  emptyStateText: {
+    color: "#999999",
+    fontSize: 15,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  featureSetItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  featureSetInfo: {
+    flex: 1,
+  },
+  featureSetName: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#000000",
+    lineHeight: 24,
+  },
+  featureSetDetail: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 2,
+  },
+  featureSetActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#F0F0F0",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  iconButtonPressed: {
+    opacity: 0.6,
+    backgroundColor: "#E0E0E0",
+  },
+  bottomContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E0E0E0",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  createButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    width: "100%",
+    minHeight: 50,
+  },
+  createButtonText: {
+    color: "#FFFFFF",
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: Dimensions.get("window").height * 0.85,
+    overflow: "hidden",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalScrollView: {
+    flexGrow: 0,
+  },
+  modalScrollContent: {
+    padding: 24,
+  },
+  modalTitle: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#000000",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 8,
+    backgroundColor: "#FFFFFF",
+    minHeight: 44,
+  },
+  textInputError: {
+    borderColor: "#FF3B30",
+  },
+  errorText: {
+    color: "#FF3B30",
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    color: "#000000",
+    marginBottom: 12,
+    fontWeight: "500",
+  },
+  chipGroup: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  chipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  chipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+    padding: 24,
+  },
+  confirmButtonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  confirmButton: {
+    backgroundColor: "#007AFF",
+  },
+  deleteConfirmButton: {
+    backgroundColor: "#FF3B30",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmModalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  confirmModalMessage: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
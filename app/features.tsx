@@ -1,6 +1,6 @@
 import { MaterialIcons } from "@expo/vector-icons";
 import { Stack, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Alert,
   Dimensions,
@@ -18,116 +18,268 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useUnifiedData } from "@/hooks/useUnifiedData";
-import { DataAdapter } from "@/utils/dataAdapter";
-import { Feature } from "@/utils/storage";
+import type {
+  Feature,
+  FeatureOption,
+  FeatureType,
+  NumericSettings,
+} from "@/types/dataStructure";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { FeatureFormula } from "@/utils/featureFormula";
+import {
+  FEATURE_TYPE_LABELS,
+  FeatureValues,
+  MULTI_SELECT_SEPARATOR,
+} from "@/utils/featureValues";
+import { generateUniqueId } from "@/utils/idGenerator";
+
+const FEATURE_TYPES = Object.keys(FEATURE_TYPE_LABELS) as FeatureType[];
+
+// 数值特性的设置项，留空表示不设置
+const NUMERIC_FIELDS: {
+  key: keyof NumericSettings;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "min", label: "最小值", placeholder: "不限" },
+  { key: "max", label: "最大值", placeholder: "不限" },
+  { key: "step", label: "步长", placeholder: "1" },
+  { key: "decimals", label: "小数位数", placeholder: "不限" },
+  { key: "defaultValue", label: "默认值", placeholder: "0" },
+  { key: "suffix", label: "单位", placeholder: "如：分、元" },
+];
+
+type NumericDraft = Record<keyof NumericSettings, string>;
+
+const EMPTY_NUMERIC_DRAFT: NumericDraft = {
+  min: "",
+  max: "",
+  step: "",
+  decimals: "",
+  defaultValue: "",
+  suffix: "",
+};
 
 export default function FeaturesScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const {
-    dataManager,
-    data,
-    loading: dataLoading,
-    updateData,
-  } = useUnifiedData();
-  const adapterRef = React.useRef<DataAdapter | null>(null);
-  if (!adapterRef.current) {
-    adapterRef.current = new DataAdapter(dataManager);
-  }
-  const adapter = adapterRef.current;
-
-  const [features, setFeatures] = useState<Feature[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { dataManager, data, loading, updateData } = useUnifiedData();
+
+  // 特性列表直接从共享数据派生，其他页面导入或撤销后自动刷新
+  const features = useMemo(() => DataSelectors.getActiveFeatures(data), [data]);
+  const collections = useMemo(
+    () => DataSelectors.getActiveCollections(data),
+    [data]
+  );
   const [modalVisible, setModalVisible] = useState(false);
   const [featureName, setFeatureName] = useState("");
-  const [featureType, setFeatureType] = useState<"numeric" | "single_choice">(
-    "numeric"
+  const [featureType, setFeatureType] = useState<FeatureType>("numeric");
+  // 单选、多选特性的选项
+  const [featureOptions, setFeatureOptions] = useState<FeatureOption[]>([]);
+  const [newOptionName, setNewOptionName] = useState("");
+  const [optionError, setOptionError] = useState("");
+  // 数值特性的设置（输入框中的文本）
+  const [numericDraft, setNumericDraft] =
+    useState<NumericDraft>(EMPTY_NUMERIC_DRAFT);
+  const [numericError, setNumericError] = useState("");
+  // 公式特性的公式文本（特性引用写作 [特性名称]）
+  const [formulaText, setFormulaText] = useState("");
+  const [formulaError, setFormulaError] = useState("");
+  // 适用的集合，为空表示不限定集合
+  const [featureCollectionIds, setFeatureCollectionIds] = useState<string[]>(
+    []
   );
+  // 编辑的特性适用的集合或特性组已被删除，未重新选择时保持不在任何集合中显示
+  const [isFeatureDetached, setIsFeatureDetached] = useState(false);
+  // 单元编辑弹窗中的分组，以及是否在层级的单元格中显示
+  const [featureGroup, setFeatureGroup] = useState("");
+  const [featureShowOnCard, setFeatureShowOnCard] = useState(false);
   const [editingFeatureId, setEditingFeatureId] = useState<string | null>(null);
   const [featureNameError, setFeatureNameError] = useState("");
+  // 排序模式下调整中的特性顺序，点击“完成排序”时才写入
+  const [isSortingMode, setIsSortingMode] = useState(false);
+  const [sortingFeatures, setSortingFeatures] = useState<Feature[]>([]);
+  const groupNames = useMemo(
+    () => DataSelectors.getFeatureGroupNames(data),
+    [data]
+  );
 
-  // 加载特性列表
-  useEffect(() => {
-    if (!dataLoading) {
-      try {
-        // 使用适配器加载全局特性
-        const allFeatures = adapter.getFeaturesByCollectionId("global");
-        // 只加载全局特性（collectionId 为 "global"）
-        const globalFeatures = allFeatures.filter(
-          (f) => f.collectionId === "global"
-        );
-        // 根据 id 去重
-        const uniqueFeatures = Array.from(
-          new Map(globalFeatures.map((f) => [f.id, f])).values()
-        );
-        setFeatures(uniqueFeatures);
-      } catch (error) {
-        console.error("加载特性数据失败:", error);
-      } finally {
-        setLoading(false);
-      }
+  const editingFeature = editingFeatureId
+    ? features.find((f) => f.id === editingFeatureId)
+    : undefined;
+  const editingFeatureSets = editingFeatureId
+    ? DataSelectors.getFeatureSetsOfFeature(data, editingFeatureId)
+    : [];
+
+  // 特性适用范围的说明，例如 “适用：集合A、集合B · 特性组：学习”
+  const describeScope = (feature: Feature): string => {
+    const collectionNames = collections
+      .filter((c) => feature.collectionIds?.includes(c.id))
+      .map((c) => c.name);
+    const featureSetNames = DataSelectors.getFeatureSetsOfFeature(
+      data,
+      feature.id
+    ).map((featureSet) => featureSet.name);
+    const parts = [];
+    if (collectionNames.length > 0) {
+      parts.push(`适用：${collectionNames.join("、")}`);
+    }
+    if (featureSetNames.length > 0) {
+      parts.push(`特性组：${featureSetNames.join("、")}`);
     }
-  }, [dataLoading, adapter]);
+    if (parts.length > 0) return parts.join(" · ");
+    return DataSelectors.isDetachedFeature(data, feature)
+      ? "适用：无（适用的集合或特性组已删除）"
+      : "适用：全部集合";
+  };
 
-  // 使用 ref 跟踪是否正在更新，避免无限循环
-  const isUpdatingRef = React.useRef(false);
-  const lastSyncFeaturesRef = React.useRef<string>("");
+  const toggleFeatureCollection = (collectionId: string) => {
+    setIsFeatureDetached(false);
+    setFeatureCollectionIds(
+      featureCollectionIds.includes(collectionId)
+        ? featureCollectionIds.filter((id) => id !== collectionId)
+        : [...featureCollectionIds, collectionId]
+    );
+  };
 
-  // 同步特性数据到统一数据结构
-  useEffect(() => {
-    if (!loading && !dataLoading && !isUpdatingRef.current) {
-      // 创建当前状态的快照用于比较
-      const currentFeaturesSnapshot = JSON.stringify(features);
+  // 保存特性修改（由持久化调度器合并连续的修改后再写入）
+  const saveFeatures = () => {
+    updateData().catch((error) => {
+      console.error("保存特性数据失败:", error);
+    });
+  };
 
-      // 如果数据没有变化，跳过同步
-      if (currentFeaturesSnapshot === lastSyncFeaturesRef.current) {
-        return;
-      }
+  // 关闭弹窗后清空表单
+  const resetForm = () => {
+    setFeatureName("");
+    setFeatureNameError("");
+    setFeatureType("numeric");
+    setFeatureOptions([]);
+    setNewOptionName("");
+    setOptionError("");
+    setNumericDraft(EMPTY_NUMERIC_DRAFT);
+    setNumericError("");
+    setFormulaText("");
+    setFormulaError("");
+    setFeatureCollectionIds([]);
+    setIsFeatureDetached(false);
+    setFeatureGroup("");
+    setFeatureShowOnCard(false);
+    setEditingFeatureId(null);
+  };
 
-      isUpdatingRef.current = true;
-      lastSyncFeaturesRef.current = currentFeaturesSnapshot;
+  // 排序模式中上移/下移特性
+  const moveSortingFeature = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= sortingFeatures.length) return;
+    const next = [...sortingFeatures];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSortingFeatures(next);
+  };
 
-      try {
-        // 更新所有特性到统一数据结构
-        features.forEach((feature) => {
-          if (feature.collectionId === "global") {
-            const existingFeature = dataManager.getFeature(feature.id);
-            if (!existingFeature) {
-              dataManager.addFeature({
-                id: feature.id,
-                name: feature.name,
-                type: feature.type,
-                createdAt: feature.createdAt,
-              });
-            } else {
-              dataManager.updateFeature(feature.id, {
-                id: feature.id,
-                name: feature.name,
-                type: feature.type,
-                createdAt: feature.createdAt,
-              });
-            }
-          }
-        });
-
-        // 保存数据（异步执行，避免阻塞）
-        updateData()
-          .catch((error) => {
-            console.error("保存特性数据失败:", error);
-          })
-          .finally(() => {
-            // 延迟重置标志，避免立即触发新的同步
-            setTimeout(() => {
-              isUpdatingRef.current = false;
-            }, 100);
-          });
-      } catch (error) {
-        console.error("同步特性数据失败:", error);
-        isUpdatingRef.current = false;
+  // 进入排序模式
+  const handleEnterSortingMode = () => {
+    setSortingFeatures(features);
+    setIsSortingMode(true);
+  };
+
+  // 退出排序模式，顺序有变化时写入
+  const handleExitSortingMode = () => {
+    const orderChanged = sortingFeatures.some(
+      (feature, index) => feature.id !== features[index]?.id
+    );
+    if (orderChanged) {
+      dataManager.reorderFeatures(sortingFeatures.map((feature) => feature.id));
+      saveFeatures();
+    }
+    setIsSortingMode(false);
+    setSortingFeatures([]);
+  };
+
+  const handleAddOption = () => {
+    const name = newOptionName.trim();
+    if (!name) return;
+    if (name.includes(MULTI_SELECT_SEPARATOR)) {
+      setOptionError(`选项名称不能包含 ${MULTI_SELECT_SEPARATOR}`);
+      return;
+    }
+    if (featureOptions.some((option) => option.name === name)) {
+      setOptionError("选项名称不能重复");
+      return;
+    }
+    const usedIds = new Set(featureOptions.map((option) => option.id));
+    setFeatureOptions([
+      ...featureOptions,
+      { id: generateUniqueId(usedIds), name },
+    ]);
+    setNewOptionName("");
+    setOptionError("");
+  };
+
+  // 校验选项并返回整理后的选项；不需要选项的类型返回 undefined，校验失败返回 null
+  const validateOptions = (): FeatureOption[] | undefined | null => {
+    if (!FeatureValues.hasOptions(featureType)) return undefined;
+    const options = featureOptions.map((option) => ({
+      ...option,
+      name: option.name.trim(),
+    }));
+    const names = options.map((option) => option.name);
+    if (options.length === 0) {
+      setOptionError("请至少添加一个选项");
+    } else if (names.some((name) => name === "")) {
+      setOptionError("选项名称不能为空");
+    } else if (new Set(names).size !== names.length) {
+      setOptionError("选项名称不能重复");
+    } else if (names.some((name) => name.includes(MULTI_SELECT_SEPARATOR))) {
+      setOptionError(`选项名称不能包含 ${MULTI_SELECT_SEPARATOR}`);
+    } else {
+      setOptionError("");
+      return options;
+    }
+    return null;
+  };
+
+  // 解析并校验数值设置；不是数值特性或没有任何设置时返回 undefined，校验失败返回 null
+  const buildNumericSettings = (): NumericSettings | undefined | null => {
+    if (featureType !== "numeric") return undefined;
+    const settings: NumericSettings = {};
+    NUMERIC_FIELDS.forEach(({ key }) => {
+      const text = numericDraft[key].trim();
+      if (text === "") return;
+      if (key === "suffix") {
+        settings.suffix = text;
+      } else {
+        settings[key] = Number(text);
       }
+    });
+    const error = FeatureValues.validateNumericSettings(settings);
+    if (error) {
+      setNumericError(error);
+      return null;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [features, loading, dataLoading]);
+    setNumericError("");
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  };
+
+  // 编译公式；不是公式特性时返回 undefined，公式有误时返回 null
+  const buildFormula = (): string | undefined | null => {
+    if (featureType !== "formula") return undefined;
+    if (!formulaText.trim()) {
+      setFormulaError("请输入公式");
+      return null;
+    }
+    const result = FeatureFormula.compile(
+      formulaText,
+      features,
+      editingFeatureId ?? undefined
+    );
+    if ("error" in result) {
+      setFormulaError(result.error);
+      return null;
+    }
+    setFormulaError("");
+    return result.formula;
+  };
 
   const handleCreateFeature = async () => {
     if (featureName.trim()) {
@@ -147,19 +299,40 @@ export default function FeaturesScreen() {
 
       setFeatureNameError("");
 
+      const options = validateOptions();
+      const numeric = buildNumericSettings();
+      const formula = buildFormula();
+      if (options === null || numeric === null || formula === null) return;
+
       try {
         const newFeature: Feature = {
           id: Date.now().toString(),
-          collectionId: "global", // 全局特性
           name: trimmedName,
           type: featureType,
           createdAt: Date.now(),
+          updatedAt: Date.now(),
         };
-        setFeatures((prev) => [...prev, newFeature]);
-        setFeatureName("");
-        setFeatureNameError("");
-        setFeatureType("numeric");
-        setEditingFeatureId(null);
+        if (options) {
+          newFeature.options = options;
+        }
+        if (numeric) {
+          newFeature.numeric = numeric;
+        }
+        if (formula) {
+          newFeature.formula = formula;
+        }
+        if (featureCollectionIds.length > 0) {
+          newFeature.collectionIds = featureCollectionIds;
+        }
+        if (featureGroup.trim()) {
+          newFeature.group = featureGroup.trim();
+        }
+        if (featureShowOnCard) {
+          newFeature.showOnCard = true;
+        }
+        dataManager.addFeature(newFeature);
+        saveFeatures();
+        resetForm();
         setModalVisible(false);
       } catch (error) {
         console.error("创建特性失败:", error);
@@ -174,6 +347,28 @@ export default function FeaturesScreen() {
     setFeatureName(feature.name);
     setFeatureNameError("");
     setFeatureType(feature.type);
+    setFeatureOptions(feature.options ?? []);
+    setNewOptionName("");
+    setOptionError("");
+    setNumericDraft({
+      min: String(feature.numeric?.min ?? ""),
+      max: String(feature.numeric?.max ?? ""),
+      step: String(feature.numeric?.step ?? ""),
+      decimals: String(feature.numeric?.decimals ?? ""),
+      defaultValue: String(feature.numeric?.defaultValue ?? ""),
+      suffix: feature.numeric?.suffix ?? "",
+    });
+    setNumericError("");
+    setFormulaText(
+      feature.formula
+        ? FeatureFormula.toDisplay(feature.formula, data.features)
+        : ""
+    );
+    setFormulaError("");
+    setFeatureCollectionIds(feature.collectionIds ?? []);
+    setIsFeatureDetached(DataSelectors.isDetachedFeature(data, feature));
+    setFeatureGroup(feature.group ?? "");
+    setFeatureShowOnCard(feature.showOnCard === true);
     setEditingFeatureId(feature.id);
     setModalVisible(true);
   };
@@ -194,22 +389,54 @@ export default function FeaturesScreen() {
 
       setFeatureNameError("");
 
-      setFeatures((prev) =>
-        prev.map((feature) =>
-          feature.id === editingFeatureId
-            ? {
-                ...feature,
-                collectionId: "global", // 确保更新后仍然是全局特性
-                name: trimmedName,
-                type: featureType,
-              }
-            : feature
-        )
-      );
-      setFeatureName("");
-      setFeatureNameError("");
-      setFeatureType("numeric");
-      setEditingFeatureId(null);
+      const options = validateOptions();
+      const numeric = buildNumericSettings();
+      const formula = buildFormula();
+      if (options === null || numeric === null || formula === null) return;
+
+      const feature = dataManager.getFeature(editingFeatureId);
+      if (feature) {
+        const updatedFeature: Feature = {
+          ...feature,
+          name: trimmedName,
+          type: featureType,
+        };
+        if (options) {
+          updatedFeature.options = options;
+        } else {
+          delete updatedFeature.options;
+        }
+        if (numeric) {
+          updatedFeature.numeric = numeric;
+        } else {
+          delete updatedFeature.numeric;
+        }
+        if (formula) {
+          updatedFeature.formula = formula;
+        } else {
+          delete updatedFeature.formula;
+        }
+        // 不再适用的集合中，单元已有的特性值保留，重新适用后即可看到
+        if (featureCollectionIds.length > 0 || isFeatureDetached) {
+          updatedFeature.collectionIds = featureCollectionIds;
+        } else {
+          delete updatedFeature.collectionIds;
+        }
+        if (featureGroup.trim()) {
+          updatedFeature.group = featureGroup.trim();
+        } else {
+          delete updatedFeature.group;
+        }
+        if (featureShowOnCard) {
+          updatedFeature.showOnCard = true;
+        } else {
+          delete updatedFeature.showOnCard;
+        }
+        // 修改类型、选项或数值设置后，特性值会被转换，无法转换的值会被清除
+        dataManager.updateFeature(editingFeatureId, updatedFeature);
+        saveFeatures();
+      }
+      resetForm();
       setModalVisible(false);
     } else {
       setFeatureNameError("请输入特性名称");
@@ -218,10 +445,8 @@ export default function FeaturesScreen() {
 
   const handleDeleteFeature = async (featureId: string) => {
     try {
-      // 使用统一数据管理器删除特性（会自动清理所有引用）
+      // 特性移到回收站，单元中的特性值保留，恢复后随之恢复
       dataManager.removeFeature(featureId);
-      // 更新本地状态
-      setFeatures((prev) => prev.filter((item) => item.id !== featureId));
       // 保存数据
       await updateData();
     } catch (error) {
@@ -250,6 +475,39 @@ export default function FeaturesScreen() {
               <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
             </Pressable>
           ),
+          headerRight: () => (
+            <View style={styles.headerButtons}>
+              {features.length > 1 && (
+                <Pressable
+                  style={[
+                    styles.headerButton,
+                    isSortingMode && styles.headerButtonActive,
+                  ]}
+                  onPress={() =>
+                    isSortingMode
+                      ? handleExitSortingMode()
+                      : handleEnterSortingMode()
+                  }
+                >
+                  <MaterialIcons
+                    name="sort"
+                    size={24}
+                    color={isSortingMode ? "#0051D5" : "#007AFF"}
+                  />
+                </Pressable>
+              )}
+              {!isSortingMode && (
+                <Pressable
+                  style={styles.headerButton}
+                  onPress={() => {
+                    router.push("/feature-sets");
+                  }}
+                >
+                  <MaterialIcons name="category" size={24} color="#007AFF" />
+                </Pressable>
+              )}
+            </View>
+          ),
         }}
       />
       {loading ? (
@@ -266,7 +524,54 @@ export default function FeaturesScreen() {
             ]}
             showsVerticalScrollIndicator={false}
           >
-            {features.length === 0 ? (
+            {isSortingMode ? (
+              sortingFeatures.map((feature, index) => (
+                <View key={feature.id} style={styles.featureItem}>
+                  <View style={styles.featureHeader}>
+                    <View style={styles.featureTitleContainer}>
+                      <ThemedText style={styles.featureName}>
+                        {feature.name}
+                      </ThemedText>
+                      {feature.group && (
+                        <ThemedText style={styles.featureTypeText}>
+                          分组：{feature.group}
+                        </ThemedText>
+                      )}
+                    </View>
+                    <View style={styles.featureActions}>
+                      <Pressable
+                        style={styles.iconButton}
+                        onPress={() => moveSortingFeature(index, -1)}
+                        disabled={index === 0}
+                        hitSlop={10}
+                      >
+                        <MaterialIcons
+                          name="keyboard-arrow-up"
+                          size={28}
+                          color={index === 0 ? "#CCCCCC" : "#007AFF"}
+                        />
+                      </Pressable>
+                      <Pressable
+                        style={styles.iconButton}
+                        onPress={() => moveSortingFeature(index, 1)}
+                        disabled={index === sortingFeatures.length - 1}
+                        hitSlop={10}
+                      >
+                        <MaterialIcons
+                          name="keyboard-arrow-down"
+                          size={28}
+                          color={
+                            index === sortingFeatures.length - 1
+                              ? "#CCCCCC"
+                              : "#007AFF"
+                          }
+                        />
+                      </Pressable>
+                    </View>
+                  </View>
+                </View>
+              ))
+            ) : features.length === 0 ? (
               <ThemedView style={styles.emptyState}>
                 <ThemedText style={styles.emptyStateText}>
                   暂无特性，点击下方按钮创建第一个特性
@@ -280,6 +585,31 @@ export default function FeaturesScreen() {
                       <ThemedText style={styles.featureName}>
                         {feature.name}
                       </ThemedText>
+                      <ThemedText style={styles.featureTypeText}>
+                        {FEATURE_TYPE_LABELS[feature.type]}
+                        {FeatureValues.hasOptions(feature.type) &&
+                          `：${(feature.options ?? [])
+                            .map((option) => option.name)
+                            .join("、")}`}
+                        {feature.formula &&
+                          `：${FeatureFormula.toDisplay(
+                            feature.formula,
+                            data.features
+                          )}`}
+                      </ThemedText>
+                      <ThemedText style={styles.featureTypeText}>
+                        {describeScope(feature)}
+                      </ThemedText>
+                      {(feature.group || feature.showOnCard) && (
+                        <ThemedText style={styles.featureTypeText}>
+                          {[
+                            feature.group && `分组：${feature.group}`,
+                            feature.showOnCard && "在单元格中显示",
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </ThemedText>
+                      )}
                     </View>
                     <View style={styles.featureActions}>
                       <Pressable
@@ -319,18 +649,30 @@ export default function FeaturesScreen() {
               },
             ]}
           >
-            <TouchableOpacity
-              style={styles.createButton}
-              onPress={() => {
-                setFeatureName("");
-                setFeatureType("numeric");
-                setEditingFeatureId(null);
-                setModalVisible(true);
-              }}
-              activeOpacity={0.8}
-            >
-              <ThemedText style={styles.createButtonText}>创建特性</ThemedText>
-            </TouchableOpacity>
+            {isSortingMode ? (
+              <TouchableOpacity
+                style={styles.createButton}
+                onPress={handleExitSortingMode}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={styles.createButtonText}>
+                  完成排序
+                </ThemedText>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.createButton}
+                onPress={() => {
+                  resetForm();
+                  setModalVisible(true);
+                }}
+                activeOpacity={0.8}
+              >
+                <ThemedText style={styles.createButtonText}>
+                  创建特性
+                </ThemedText>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       )}
@@ -378,63 +720,305 @@ export default function FeaturesScreen() {
               <View style={styles.identifierContainer}>
                 <ThemedText style={styles.identifierLabel}>类型：</ThemedText>
                 <View style={styles.radioGroup}>
-                  <Pressable
-                    style={[
-                      styles.radioOption,
-                      featureType === "numeric" && styles.radioOptionActive,
-                    ]}
-                    onPress={() => setFeatureType("numeric")}
-                  >
-                    <View
-                      style={[
-                        styles.radioCircle,
-                        featureType === "numeric" && styles.radioCircleActive,
-                      ]}
-                    >
-                      {featureType === "numeric" && (
-                        <View style={styles.radioInner} />
-                      )}
-                    </View>
-                    <ThemedText
+                  {FEATURE_TYPES.map((type) => (
+                    <Pressable
+                      key={type}
                       style={[
-                        styles.radioLabel,
-                        featureType === "numeric" && styles.radioLabelActive,
+                        styles.radioOption,
+                        featureType === type && styles.radioOptionActive,
                       ]}
+                      onPress={() => {
+                        setFeatureType(type);
+                        setOptionError("");
+                      }}
                     >
-                      数值
+                      <View
+                        style={[
+                          styles.radioCircle,
+                          featureType === type && styles.radioCircleActive,
+                        ]}
+                      >
+                        {featureType === type && (
+                          <View style={styles.radioInner} />
+                        )}
+                      </View>
+                      <ThemedText
+                        style={[
+                          styles.radioLabel,
+                          featureType === type && styles.radioLabelActive,
+                        ]}
+                      >
+                        {FEATURE_TYPE_LABELS[type]}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+                {editingFeature && editingFeature.type !== featureType && (
+                  <ThemedText style={styles.hintText}>
+                    修改类型后，单元中无法转换的特性值会被清除
+                  </ThemedText>
+                )}
+              </View>
+
+              {featureType === "numeric" && (
+                <View style={styles.identifierContainer}>
+                  <ThemedText style={styles.identifierLabel}>
+                    数值设置：
+                  </ThemedText>
+                  <View style={styles.numericFieldGrid}>
+                    {NUMERIC_FIELDS.map(({ key, label, placeholder }) => (
+                      <View key={key} style={styles.numericField}>
+                        <ThemedText style={styles.numericFieldLabel}>
+                          {label}
+                        </ThemedText>
+                        <TextInput
+                          style={[styles.textInput, styles.numericFieldInput]}
+                          placeholder={placeholder}
+                          value={numericDraft[key]}
+                          keyboardType={
+                            key === "suffix"
+                              ? "default"
+                              : "numbers-and-punctuation"
+                          }
+                          onChangeText={(text) => {
+                            setNumericDraft({ ...numericDraft, [key]: text });
+                            if (numericError) {
+                              setNumericError("");
+                            }
+                          }}
+                        />
+                      </View>
+                    ))}
+                  </View>
+                  {numericError ? (
+                    <ThemedText style={styles.optionErrorText}>
+                      {numericError}
                     </ThemedText>
-                  </Pressable>
-                  <Pressable
-                    style={[
-                      styles.radioOption,
-                      featureType === "single_choice" &&
-                        styles.radioOptionActive,
-                    ]}
-                    onPress={() => setFeatureType("single_choice")}
-                  >
-                    <View
-                      style={[
-                        styles.radioCircle,
-                        featureType === "single_choice" &&
-                          styles.radioCircleActive,
-                      ]}
-                    >
-                      {featureType === "single_choice" && (
-                        <View style={styles.radioInner} />
-                      )}
+                  ) : null}
+                  <ThemedText style={styles.hintText}>
+                    {editingFeature
+                      ? "修改范围或小数位数后，超出范围的值会调整到范围内"
+                      : "不设置范围时，选择器显示 0 到 30"}
+                  </ThemedText>
+                </View>
+              )}
+
+              {featureType === "formula" && (
+                <View style={styles.identifierContainer}>
+                  <ThemedText style={styles.identifierLabel}>公式：</ThemedText>
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder="如：[评分] * 2 + ([已拥有] ? 5 : 0)"
+                    value={formulaText}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    onChangeText={(text) => {
+                      setFormulaText(text);
+                      if (formulaError) {
+                        setFormulaError("");
+                      }
+                    }}
+                  />
+                  {formulaError ? (
+                    <ThemedText style={styles.optionErrorText}>
+                      {formulaError}
+                    </ThemedText>
+                  ) : null}
+                  <ThemedText style={styles.hintText}>
+                    用 [特性名称]
+                    引用数值、评分、是/否和多选特性（多选取选中数量），支持 + -
+                    * / %、比较、&& || !、a ? b : c，以及
+                    min、max、sum、avg、round、count
+                    等函数。公式的值自动计算，不能手动设置
+                  </ThemedText>
+                </View>
+              )}
+
+              {FeatureValues.hasOptions(featureType) && (
+                <View style={styles.identifierContainer}>
+                  <ThemedText style={styles.identifierLabel}>选项：</ThemedText>
+                  {featureOptions.map((option, index) => (
+                    <View key={option.id} style={styles.optionRow}>
+                      <TextInput
+                        style={[styles.textInput, styles.optionInput]}
+                        value={option.name}
+                        onChangeText={(text) => {
+                          setFeatureOptions(
+                            featureOptions.map((o, i) =>
+                              i === index ? { ...o, name: text } : o
+                            )
+                          );
+                          if (optionError) {
+                            setOptionError("");
+                          }
+                        }}
+                      />
+                      <Pressable
+                        style={({ pressed }) => [
+                          styles.iconButton,
+                          pressed && styles.iconButtonPressed,
+                        ]}
+                        onPress={() =>
+                          setFeatureOptions(
+                            featureOptions.filter((o) => o.id !== option.id)
+                          )
+                        }
+                      >
+                        <MaterialIcons name="close" size={20} color="#FF3B30" />
+                      </Pressable>
                     </View>
-                    <ThemedText
-                      style={[
-                        styles.radioLabel,
-                        featureType === "single_choice" &&
-                          styles.radioLabelActive,
+                  ))}
+                  <View style={styles.optionRow}>
+                    <TextInput
+                      style={[styles.textInput, styles.optionInput]}
+                      placeholder="新选项名称"
+                      value={newOptionName}
+                      onChangeText={(text) => {
+                        setNewOptionName(text);
+                        if (optionError) {
+                          setOptionError("");
+                        }
+                      }}
+                      onSubmitEditing={handleAddOption}
+                    />
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.iconButton,
+                        pressed && styles.iconButtonPressed,
                       ]}
+                      onPress={handleAddOption}
                     >
-                      单选
+                      <MaterialIcons name="add" size={20} color="#007AFF" />
+                    </Pressable>
+                  </View>
+                  {optionError ? (
+                    <ThemedText style={styles.optionErrorText}>
+                      {optionError}
                     </ThemedText>
-                  </Pressable>
+                  ) : null}
+                  {editingFeature && (
+                    <ThemedText style={styles.hintText}>
+                      删除选项后，单元中该选项的值会被清除
+                    </ThemedText>
+                  )}
                 </View>
+              )}
+
+              <View style={styles.identifierContainer}>
+                <ThemedText style={styles.identifierLabel}>
+                  适用范围：
+                </ThemedText>
+                <View style={styles.scopeChipGroup}>
+                  {[
+                    {
+                      id: null,
+                      name:
+                        editingFeatureSets.length > 0 ? "仅特性组" : "全部集合",
+                    },
+                    ...collections,
+                  ].map((collection) => {
+                    const isActive =
+                      collection.id === null
+                        ? featureCollectionIds.length === 0 &&
+                          !isFeatureDetached
+                        : featureCollectionIds.includes(collection.id);
+                    return (
+                      <Pressable
+                        key={collection.id ?? "all"}
+                        style={[
+                          styles.scopeChip,
+                          isActive && styles.scopeChipActive,
+                        ]}
+                        onPress={() => {
+                          if (collection.id === null) {
+                            setIsFeatureDetached(false);
+                            setFeatureCollectionIds([]);
+                          } else {
+                            toggleFeatureCollection(collection.id);
+                          }
+                        }}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.scopeChipText,
+                            isActive && styles.scopeChipTextActive,
+                          ]}
+                        >
+                          {collection.name}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <ThemedText style={styles.hintText}>
+                  {editingFeatureSets.length > 0
+                    ? `该特性属于特性组“${editingFeatureSets
+                        .map((featureSet) => featureSet.name)
+                        .join(
+                          "、"
+                        )}”，在使用这些特性组的集合和上面选中的集合中可用`
+                    : isFeatureDetached
+                      ? "该特性适用的集合或特性组已删除，目前不在任何集合中显示；选择集合或“全部集合”后恢复显示"
+                      : "选择集合后，特性只在这些集合的单元编辑中显示"}
+                </ThemedText>
               </View>
+
+              <View style={styles.identifierContainer}>
+                <ThemedText style={styles.identifierLabel}>分组：</ThemedText>
+                <TextInput
+                  style={styles.textInput}
+                  placeholder="不分组"
+                  value={featureGroup}
+                  onChangeText={setFeatureGroup}
+                />
+                {groupNames.length > 0 && (
+                  <View style={styles.scopeChipGroup}>
+                    {groupNames.map((group) => {
+                      const isActive = featureGroup.trim() === group;
+                      return (
+                        <Pressable
+                          key={group}
+                          style={[
+                            styles.scopeChip,
+                            isActive && styles.scopeChipActive,
+                          ]}
+                          onPress={() => setFeatureGroup(isActive ? "" : group)}
+                        >
+                          <ThemedText
+                            style={[
+                              styles.scopeChipText,
+                              isActive && styles.scopeChipTextActive,
+                            ]}
+                          >
+                            {group}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                )}
+                <ThemedText style={styles.hintText}>
+                  单元编辑窗口中同一分组的特性显示在一起
+                </ThemedText>
+              </View>
+
+              <Pressable
+                style={styles.showOnCardRow}
+                onPress={() => setFeatureShowOnCard(!featureShowOnCard)}
+              >
+                <MaterialIcons
+                  name={
+                    featureShowOnCard
+                      ? "check-circle"
+                      : "radio-button-unchecked"
+                  }
+                  size={22}
+                  color={featureShowOnCard ? "#007AFF" : "#999999"}
+                />
+                <ThemedText style={styles.showOnCardText}>
+                  在层级的单元格中显示该特性的值
+                </ThemedText>
+              </Pressable>
             </ScrollView>
 
             <ThemedView style={styles.buttonContainer}>
@@ -442,9 +1026,7 @@ export default function FeaturesScreen() {
                 style={[styles.button, styles.cancelButton]}
                 onPress={() => {
                   setModalVisible(false);
-                  setFeatureName("");
-                  setFeatureType("numeric");
-                  setEditingFeatureId(null);
+                  resetForm();
                 }}
               >
                 <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
@@ -528,6 +1110,11 @@ const styles = StyleSheet.create({
     color: "#000000",
     lineHeight: 24,
   },
+  featureTypeText: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 2,
+  },
   featureActions: {
     flexDirection: "row",
     gap: 8,
@@ -665,7 +1252,8 @@ const styles = StyleSheet.create({
   },
   radioGroup: {
     flexDirection: "row",
-    gap: 16,
+    flexWrap: "wrap",
+    gap: 12,
   },
   radioOption: {
     flexDirection: "row",
@@ -676,7 +1264,8 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     borderWidth: 2,
     borderColor: "#E0E0E0",
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: "40%",
   },
   radioOptionActive: {
     borderColor: "#007AFF",
@@ -709,6 +1298,67 @@ const styles = StyleSheet.create({
     color: "#007AFF",
     fontWeight: "600",
   },
+  hintText: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 8,
+  },
+  numericFieldGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  numericField: {
+    flexGrow: 1,
+    flexBasis: "40%",
+  },
+  numericFieldLabel: {
+    fontSize: 14,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  numericFieldInput: {
+    marginBottom: 0,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  optionInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  scopeChipGroup: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  scopeChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  scopeChipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  scopeChipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  scopeChipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  optionErrorText: {
+    color: "#FF3B30",
+    fontSize: 14,
+  },
   buttonContainer: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -778,6 +1428,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  headerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   headerButton: {
     padding: 8,
     minWidth: 44,
@@ -785,4 +1439,18 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  headerButtonActive: {
+    backgroundColor: "#E3F2FD",
+    borderRadius: 8,
+  },
+  showOnCardRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 24,
+  },
+  showOnCardText: {
+    fontSize: 15,
+    color: "#333333",
+  },
 });
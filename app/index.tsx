@@ -1,7 +1,8 @@
 import { Stack, useRouter } from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   Alert,
+  Clipboard,
   Modal,
   Platform,
   Pressable,
@@ -21,11 +22,37 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { UndoToast } from "@/components/UndoToast";
 import { useUnifiedData } from "@/hooks/useUnifiedData";
+import type { CsvImportSummary } from "@/utils/csvTransfer";
 import { DataAdapter } from "@/utils/dataAdapter";
+import type { MergeConflictPolicy, MergePreview } from "@/utils/dataMerger";
+import { DataSelectors } from "@/utils/dataSelectors";
+import type { ValidationError } from "@/utils/dataValidator";
 import { Collection } from "@/utils/storage";
 import { MaterialIcons } from "@expo/vector-icons";
 
+// 合并导入的冲突处理策略选项
+const MERGE_POLICY_OPTIONS: { value: MergeConflictPolicy; label: string }[] = [
+  { value: "keep_local", label: "保留本地" },
+  { value: "take_incoming", label: "使用导入" },
+  { value: "newest", label: "以最新为准" },
+];
+
+const MERGE_ACTION_LABELS = {
+  add: "新增",
+  update: "更新",
+  skip: "跳过",
+};
+
+const MERGE_ENTITY_LABELS = {
+  collection: "集合",
+  level: "层级",
+  unit: "单元",
+  feature: "特性",
+  featureSet: "特性组",
+};
+
 // 可拖拽排序的集合组件
 const DraggableCollection = ({
   collection,
@@ -140,8 +167,18 @@ const DraggableCollection = ({
 export default function HomeScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { dataManager, data, loading, updateData, exportData, importData } =
-    useUnifiedData();
+  const {
+    dataManager,
+    data,
+    loading,
+    updateData,
+    exportData,
+    importData,
+    exportCSVData,
+    importCSVData,
+    createSnapshot,
+    undo,
+  } = useUnifiedData();
   const adapterRef = React.useRef<DataAdapter | null>(null);
   if (!adapterRef.current) {
     adapterRef.current = new DataAdapter(dataManager);
@@ -161,13 +198,25 @@ export default function HomeScreen() {
   const [importExportModalVisible, setImportExportModalVisible] =
     useState(false);
   const [importText, setImportText] = useState("");
+  const [importErrors, setImportErrors] = useState<ValidationError[]>([]);
+  const [importFormat, setImportFormat] = useState<"json" | "csv">("json");
+  const [importMode, setImportMode] = useState<"overwrite" | "merge">(
+    "overwrite"
+  );
+  const [mergePolicy, setMergePolicy] = useState<MergeConflictPolicy>("newest");
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
   const [isSortingMode, setIsSortingMode] = useState(false);
   const [draggedCollectionIndex, setDraggedCollectionIndex] = useState<
     number | null
   >(null);
   const [dragTranslationY, setDragTranslationY] = useState(0);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
   const [collectionNameError, setCollectionNameError] = useState("");
+  // 集合列表的排列方式：手动排序的顺序，或按最近编辑时间
+  const [collectionOrder, setCollectionOrder] = useState<"manual" | "recent">(
+    "manual"
+  );
 
   // 同步数据到集合列表
   useEffect(() => {
@@ -183,6 +232,14 @@ export default function HomeScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [data, loading]);
 
+  const displayedCollections = useMemo(
+    () =>
+      collectionOrder === "recent" && data
+        ? DataSelectors.getCollectionsByRecentEdit(data)
+        : collections,
+    [collectionOrder, collections, data]
+  );
+
   const handleCreateCollection = async () => {
     if (collectionName.trim()) {
       // 检查名称是否重复
@@ -204,23 +261,17 @@ export default function HomeScreen() {
       try {
         if (editingCollectionId) {
           // 编辑模式：更新集合名称
-          const collectionIndex =
-            dataManager.getCollectionIndexById(editingCollectionId);
-          if (collectionIndex !== -1) {
-            const collection = dataManager.getCollection(collectionIndex);
-            if (collection) {
-              dataManager.updateCollection(collectionIndex, {
-                ...collection,
-                name: trimmedName,
-              });
-              // 立即更新本地状态
-              const adapterCollections = adapter.getCollections();
-              setCollections(adapterCollections);
-              // 异步保存数据
-              updateData().catch((error) => {
-                console.error("保存数据失败:", error);
-              });
-            }
+          if (dataManager.getCollectionById(editingCollectionId)) {
+            dataManager.updateCollectionById(editingCollectionId, {
+              name: trimmedName,
+            });
+            // 立即更新本地状态
+            const adapterCollections = adapter.getCollections();
+            setCollections(adapterCollections);
+            // 异步保存数据
+            updateData(editingCollectionId).catch((error) => {
+              console.error("保存数据失败:", error);
+            });
           }
           setEditingCollectionId(null);
         } else {
@@ -230,6 +281,7 @@ export default function HomeScreen() {
             id: collectionId,
             name: trimmedName,
             createdAt: Date.now(),
+            updatedAt: Date.now(),
             levels: [],
           };
           dataManager.addCollection(newCollection);
@@ -262,10 +314,11 @@ export default function HomeScreen() {
     if (!collectionToDelete) return;
 
     try {
-      const collectionIndex =
-        dataManager.getCollectionIndexById(collectionToDelete);
-      if (collectionIndex !== -1) {
-        dataManager.removeCollection(collectionIndex);
+      const collection = dataManager.getCollectionById(collectionToDelete);
+      if (collection) {
+        const collectionName = collection.name;
+        dataManager.removeCollectionById(collectionToDelete);
+        setUndoToastMessage(`已删除集合 ${collectionName}`);
         // 立即更新本地状态
         const adapterCollections = adapter.getCollections();
         setCollections(adapterCollections);
@@ -282,6 +335,21 @@ export default function HomeScreen() {
     }
   };
 
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
+  }, []);
+
+  // 撤销删除集合
+  const handleUndoDelete = async () => {
+    setUndoToastMessage(null);
+    try {
+      await undo();
+    } catch (error) {
+      console.error("撤销失败:", error);
+      Alert.alert("错误", "撤销失败，请重试");
+    }
+  };
+
   const cancelDelete = () => {
     setDeleteConfirmVisible(false);
     setCollectionToDelete(null);
@@ -312,7 +380,7 @@ export default function HomeScreen() {
   };
 
   const handleExport = () => {
-    const success = exportData();
+    const success = importFormat === "csv" ? exportCSVData() : exportData();
     if (success) {
       Alert.alert("成功", "数据已复制到剪贴板");
       setImportExportModalVisible(false);
@@ -321,35 +389,136 @@ export default function HomeScreen() {
     }
   };
 
+  // CSV 导入成功后展示新建和更新的数量
+  const showCsvImportSuccess = (summary?: CsvImportSummary) => {
+    Alert.alert(
+      "成功",
+      summary
+        ? `更新单元 ${summary.updatedUnits} 个，新建单元 ${summary.createdUnits} 个、层级 ${summary.createdLevels} 个、集合 ${summary.createdCollections} 个`
+        : "CSV 导入成功"
+    );
+    setImportText("");
+    setImportErrors([]);
+    setImportExportModalVisible(false);
+  };
+
+  // 重置导入校验结果和合并预览
+  const resetImportFeedback = () => {
+    setImportErrors([]);
+    setMergePreview(null);
+  };
+
+  // 生成合并预览，不修改现有数据
+  const handlePreviewMerge = (jsonString: string) => {
+    const result = dataManager.previewMergeFromJSON(jsonString, mergePolicy);
+    if (result.success && result.preview) {
+      setImportErrors([]);
+      setMergePreview(result.preview);
+    } else {
+      setMergePreview(null);
+      setImportErrors(result.errors);
+    }
+  };
+
+  // 确认合并
+  const handleConfirmMerge = async () => {
+    if (!mergePreview) return;
+    try {
+      // 应用前为当前数据创建快照，合并出错时可在设置中回滚
+      await createSnapshot("import");
+      dataManager.applyMerge(mergePreview);
+      await updateData();
+      Alert.alert(
+        "成功",
+        `合并完成：新增 ${mergePreview.summary.add} 项，更新 ${mergePreview.summary.update} 项`
+      );
+      setImportText("");
+      resetImportFeedback();
+      setImportExportModalVisible(false);
+    } catch (error) {
+      console.error("合并失败:", error);
+      Alert.alert("错误", "合并失败，请重试");
+    }
+  };
+
   const handleImport = async () => {
     if (importText.trim()) {
+      if (importFormat === "csv") {
+        await createSnapshot("import");
+        const result = dataManager.importFromCSV(importText);
+        if (result.success) {
+          await updateData();
+          showCsvImportSuccess(result.summary);
+        } else {
+          setImportErrors(result.errors);
+        }
+        return;
+      }
+      if (importMode === "merge") {
+        handlePreviewMerge(importText.trim());
+        return;
+      }
       try {
-        const success = await dataManager.importFromJSON(importText.trim());
-        if (success) {
+        // 导入前为当前数据创建快照，导入出错时可在设置中回滚
+        await createSnapshot("import");
+        const result = dataManager.importFromJSON(importText.trim());
+        if (result.success) {
           await updateData();
-          Alert.alert("成功", "数据导入成功");
+          Alert.alert(
+            "成功",
+            result.collectionId ? "集合已导入" : "数据导入成功"
+          );
           setImportText("");
+          setImportErrors([]);
           setImportExportModalVisible(false);
         } else {
-          Alert.alert("错误", "数据格式不正确");
+          // 在弹窗中展示带路径的错误列表
+          setImportErrors(result.errors);
         }
       } catch (error) {
         console.error("导入失败:", error);
         Alert.alert("错误", "导入失败，请重试");
       }
     } else {
-      Alert.alert("错误", "请输入JSON数据");
+      Alert.alert(
+        "错误",
+        importFormat === "csv" ? "请输入CSV数据" : "请输入JSON数据"
+      );
     }
   };
 
   const handlePasteFromClipboard = async () => {
     try {
-      const success = await importData();
-      if (success) {
-        Alert.alert("成功", "数据已从剪贴板导入");
+      if (importFormat === "csv") {
+        const result = await importCSVData();
+        if (result.success) {
+          showCsvImportSuccess(result.summary);
+        } else {
+          setImportErrors(result.errors);
+        }
+        return;
+      }
+      // 合并模式下先读取剪贴板内容并生成预览
+      if (importMode === "merge") {
+        const jsonString = await Clipboard.getString();
+        if (!jsonString) {
+          setImportErrors([{ path: "", message: "剪贴板中没有数据" }]);
+          return;
+        }
+        setImportText(jsonString);
+        handlePreviewMerge(jsonString);
+        return;
+      }
+      const result = await importData();
+      if (result.success) {
+        Alert.alert(
+          "成功",
+          result.collectionId ? "集合已从剪贴板导入" : "数据已从剪贴板导入"
+        );
+        setImportErrors([]);
         setImportExportModalVisible(false);
       } else {
-        Alert.alert("错误", "剪贴板中没有有效数据");
+        setImportErrors(result.errors);
       }
     } catch (error) {
       console.error("粘贴失败:", error);
@@ -385,17 +554,8 @@ export default function HomeScreen() {
           const [movedCollection] = newCollections.splice(fromIndex, 1);
           newCollections.splice(validToIndex, 0, movedCollection);
 
-          // 更新dataManager中的集合顺序
-          const currentData = dataManager.getData();
-          const reorderedCollections = newCollections.map(
-            (c) => currentData.collections.find((ac) => ac.id === c.id) || c
-          );
-
-          // 直接更新集合数组
-          dataManager.setData({
-            ...currentData,
-            collections: reorderedCollections,
-          });
+          // 按新的顺序重排集合（回收站中的集合不参与排序，保留在最后），作为可撤销的一步
+          dataManager.reorderCollections(newCollections.map((c) => c.id));
 
           // 异步保存
           updateData().catch((error) => {
@@ -487,6 +647,8 @@ export default function HomeScreen() {
                   style={styles.dropdownMenuItem}
                   onPress={() => {
                     setShowMoreMenu(false);
+                    // 拖拽排序调整的是手动顺序
+                    setCollectionOrder("manual");
                     setIsSortingMode(true);
                   }}
                 >
@@ -499,6 +661,25 @@ export default function HomeScreen() {
                   style={styles.dropdownMenuItem}
                   onPress={() => {
                     setShowMoreMenu(false);
+                    setCollectionOrder((prev) =>
+                      prev === "recent" ? "manual" : "recent"
+                    );
+                  }}
+                >
+                  <MaterialIcons
+                    name={collectionOrder === "recent" ? "reorder" : "history"}
+                    size={20}
+                    color="#007AFF"
+                  />
+                  <ThemedText style={styles.dropdownMenuItemText}>
+                    {collectionOrder === "recent" ? "按手动顺序" : "按最近编辑"}
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  style={styles.dropdownMenuItem}
+                  onPress={() => {
+                    setShowMoreMenu(false);
+                    resetImportFeedback();
                     setImportExportModalVisible(true);
                   }}
                 >
@@ -511,6 +692,30 @@ export default function HomeScreen() {
                     导出
                   </ThemedText>
                 </Pressable>
+                <Pressable
+                  style={styles.dropdownMenuItem}
+                  onPress={() => {
+                    setShowMoreMenu(false);
+                    router.push("/recycle-bin" as any);
+                  }}
+                >
+                  <MaterialIcons name="delete" size={20} color="#007AFF" />
+                  <ThemedText style={styles.dropdownMenuItemText}>
+                    最近删除
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  style={styles.dropdownMenuItem}
+                  onPress={() => {
+                    setShowMoreMenu(false);
+                    router.push("/settings" as any);
+                  }}
+                >
+                  <MaterialIcons name="settings" size={20} color="#007AFF" />
+                  <ThemedText style={styles.dropdownMenuItemText}>
+                    设置
+                  </ThemedText>
+                </Pressable>
               </View>
             </>
           )}
@@ -550,7 +755,7 @@ export default function HomeScreen() {
                 />
               ))
             ) : (
-              collections.map((collection) => (
+              displayedCollections.map((collection) => (
                 <View key={collection.id} style={styles.collectionItem}>
                   <Pressable
                     style={({ pressed }) => [
@@ -562,6 +767,15 @@ export default function HomeScreen() {
                     <ThemedText style={styles.collectionName}>
                       {collection.name}
                     </ThemedText>
+                    {collectionOrder === "recent" && (
+                      <ThemedText style={styles.collectionMeta}>
+                        最近编辑：
+                        {new Date(
+                          dataManager.getCollectionById(collection.id)
+                            ?.updatedAt ?? collection.createdAt
+                        ).toLocaleString()}
+                      </ThemedText>
+                    )}
                   </Pressable>
                   <Pressable
                     style={styles.collectionActions}
@@ -705,7 +919,7 @@ export default function HomeScreen() {
               确认删除
             </ThemedText>
             <ThemedText style={styles.deleteModalMessage}>
-              确定要删除这个集合吗？此操作不可恢复。
+              确定要删除这个集合吗？集合会移到回收站，可以在回收站中恢复。
             </ThemedText>
 
             <ThemedView style={styles.buttonContainer}>
@@ -737,43 +951,243 @@ export default function HomeScreen() {
         onRequestClose={() => setImportExportModalVisible(false)}
       >
         <ThemedView style={styles.modalOverlay}>
-          <ThemedView style={styles.modalContent}>
+          <ThemedView style={[styles.modalContent, styles.importModalContent]}>
             <ThemedText type="subtitle" style={styles.modalTitle}>
               导入/导出数据
             </ThemedText>
 
-            <ThemedView style={styles.importExportButtons}>
-              <TouchableOpacity
-                style={[styles.button, styles.exportButton]}
-                onPress={handleExport}
-              >
-                <MaterialIcons name="file-download" size={20} color="#FFFFFF" />
-                <ThemedText style={styles.exportButtonText}>
-                  导出到剪贴板
+            <ScrollView
+              style={styles.importModalScroll}
+              showsVerticalScrollIndicator={true}
+            >
+              {/* 数据格式 */}
+              <View style={styles.optionRow}>
+                <ThemedText style={styles.optionLabel}>数据格式：</ThemedText>
+                <View style={styles.optionGroup}>
+                  {(
+                    [
+                      { value: "json", label: "JSON" },
+                      { value: "csv", label: "CSV" },
+                    ] as const
+                  ).map((option) => (
+                    <Pressable
+                      key={option.value}
+                      style={[
+                        styles.optionChip,
+                        importFormat === option.value &&
+                          styles.optionChipActive,
+                      ]}
+                      onPress={() => {
+                        setImportFormat(option.value);
+                        setImportText("");
+                        resetImportFeedback();
+                      }}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.optionChipText,
+                          importFormat === option.value &&
+                            styles.optionChipTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              {importFormat === "csv" && (
+                <ThemedText style={styles.importHint}>
+                  每个单元一行，列为集合、层级、单元、状态、收藏理由及各特性。导入时按名称更新已有单元，并创建不存在的集合、层级和单元。
                 </ThemedText>
-              </TouchableOpacity>
+              )}
 
-              <TouchableOpacity
-                style={[styles.button, styles.importButton]}
-                onPress={handlePasteFromClipboard}
-              >
-                <MaterialIcons name="content-paste" size={20} color="#FFFFFF" />
-                <ThemedText style={styles.importButtonText}>
-                  从剪贴板导入
-                </ThemedText>
-              </TouchableOpacity>
-            </ThemedView>
+              <ThemedView style={styles.importExportButtons}>
+                <TouchableOpacity
+                  style={[styles.button, styles.exportButton]}
+                  onPress={handleExport}
+                >
+                  <MaterialIcons
+                    name="file-download"
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                  <ThemedText style={styles.exportButtonText}>
+                    导出到剪贴板
+                  </ThemedText>
+                </TouchableOpacity>
 
-            <ThemedText style={styles.importLabel}>或手动粘贴JSON：</ThemedText>
-            <TextInput
-              style={styles.textArea}
-              placeholder="粘贴JSON数据..."
-              value={importText}
-              onChangeText={setImportText}
-              multiline={true}
-              numberOfLines={10}
-              textAlignVertical="top"
-            />
+                <TouchableOpacity
+                  style={[styles.button, styles.importButton]}
+                  onPress={handlePasteFromClipboard}
+                >
+                  <MaterialIcons
+                    name="content-paste"
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                  <ThemedText style={styles.importButtonText}>
+                    从剪贴板导入
+                  </ThemedText>
+                </TouchableOpacity>
+              </ThemedView>
+
+              {/* 导入方式（CSV 始终按名称更新，不区分覆盖与合并） */}
+              {importFormat === "json" && (
+                <View style={styles.optionRow}>
+                  <ThemedText style={styles.optionLabel}>导入方式：</ThemedText>
+                  <View style={styles.optionGroup}>
+                    {(
+                      [
+                        { value: "overwrite", label: "覆盖" },
+                        { value: "merge", label: "合并" },
+                      ] as const
+                    ).map((option) => (
+                      <Pressable
+                        key={option.value}
+                        style={[
+                          styles.optionChip,
+                          importMode === option.value &&
+                            styles.optionChipActive,
+                        ]}
+                        onPress={() => {
+                          setImportMode(option.value);
+                          resetImportFeedback();
+                        }}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.optionChipText,
+                            importMode === option.value &&
+                              styles.optionChipTextActive,
+                          ]}
+                        >
+                          {option.label}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              )}
+              {importFormat === "json" && importMode === "merge" && (
+                <View style={styles.optionRow}>
+                  <ThemedText style={styles.optionLabel}>冲突处理：</ThemedText>
+                  <View style={styles.optionGroup}>
+                    {MERGE_POLICY_OPTIONS.map((option) => (
+                      <Pressable
+                        key={option.value}
+                        style={[
+                          styles.optionChip,
+                          mergePolicy === option.value &&
+                            styles.optionChipActive,
+                        ]}
+                        onPress={() => {
+                          setMergePolicy(option.value);
+                          setMergePreview(null);
+                        }}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.optionChipText,
+                            mergePolicy === option.value &&
+                              styles.optionChipTextActive,
+                          ]}
+                        >
+                          {option.label}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              <ThemedText style={styles.importLabel}>
+                {importFormat === "csv"
+                  ? "或手动粘贴CSV："
+                  : "或手动粘贴JSON："}
+              </ThemedText>
+              <TextInput
+                style={styles.textArea}
+                placeholder={
+                  importFormat === "csv" ? "粘贴CSV数据..." : "粘贴JSON数据..."
+                }
+                value={importText}
+                onChangeText={(text) => {
+                  setImportText(text);
+                  // 清除上一次的错误列表和合并预览
+                  resetImportFeedback();
+                }}
+                multiline={true}
+                numberOfLines={10}
+                textAlignVertical="top"
+              />
+
+              {/* 导入校验错误列表 */}
+              {importErrors.length > 0 && (
+                <View style={styles.importErrorsContainer}>
+                  <ThemedText style={styles.importErrorsTitle}>
+                    导入失败，发现 {importErrors.length} 个问题：
+                  </ThemedText>
+                  <ScrollView
+                    style={styles.importErrorsList}
+                    nestedScrollEnabled={true}
+                  >
+                    {importErrors.map((error, index) => (
+                      <View
+                        key={`${error.path}-${index}`}
+                        style={styles.importErrorItem}
+                      >
+                        <ThemedText style={styles.importErrorPath}>
+                          {error.path || "(根节点)"}
+                        </ThemedText>
+                        <ThemedText style={styles.importErrorMessage}>
+                          {error.message}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {/* 合并预览 */}
+              {mergePreview && (
+                <View style={styles.mergePreviewContainer}>
+                  <ThemedText style={styles.mergePreviewTitle}>
+                    合并预览：新增 {mergePreview.summary.add} · 更新{" "}
+                    {mergePreview.summary.update} · 跳过{" "}
+                    {mergePreview.summary.skip}
+                  </ThemedText>
+                  <ScrollView
+                    style={styles.mergePreviewList}
+                    nestedScrollEnabled={true}
+                  >
+                    {mergePreview.changes.map((change, index) => (
+                      <View
+                        key={`${change.entity}-${change.id}-${index}`}
+                        style={styles.mergePreviewItem}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.mergeActionTag,
+                            change.action === "add" && styles.mergeActionAdd,
+                            change.action === "update" &&
+                              styles.mergeActionUpdate,
+                          ]}
+                        >
+                          {MERGE_ACTION_LABELS[change.action]}
+                        </ThemedText>
+                        <ThemedText
+                          style={styles.mergePreviewLabel}
+                          numberOfLines={1}
+                        >
+                          {MERGE_ENTITY_LABELS[change.entity]} {change.label}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+            </ScrollView>
 
             <ThemedView style={styles.buttonContainer}>
               <TouchableOpacity
@@ -781,6 +1195,7 @@ export default function HomeScreen() {
                 onPress={() => {
                   setImportExportModalVisible(false);
                   setImportText("");
+                  resetImportFeedback();
                 }}
               >
                 <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
@@ -788,14 +1203,28 @@ export default function HomeScreen() {
 
               <TouchableOpacity
                 style={[styles.button, styles.confirmButton]}
-                onPress={handleImport}
+                onPress={mergePreview ? handleConfirmMerge : handleImport}
               >
-                <ThemedText style={styles.confirmButtonText}>导入</ThemedText>
+                <ThemedText style={styles.confirmButtonText}>
+                  {importFormat === "json" && importMode === "merge"
+                    ? mergePreview
+                      ? "确认合并"
+                      : "预览合并"
+                    : "导入"}
+                </ThemedText>
               </TouchableOpacity>
             </ThemedView>
           </ThemedView>
         </ThemedView>
       </Modal>
+
+      {/* 删除集合后的撤销提示 */}
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={handleUndoDelete}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + 100}
+      />
     </>
   );
 }
@@ -864,6 +1293,11 @@ const styles = StyleSheet.create({
     color: "#000000",
     lineHeight: 24,
   },
+  collectionMeta: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
   sortableCollectionItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -1225,4 +1659,126 @@ const styles = StyleSheet.create({
     minHeight: 200,
     fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
   },
+  importModalContent: {
+    maxHeight: "90%",
+  },
+  importModalScroll: {
+    flexGrow: 0,
+  },
+  importErrorsContainer: {
+    backgroundColor: "#FFF2F2",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#FFCDD2",
+    padding: 12,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  importErrorsTitle: {
+    color: "#FF3B30",
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  importErrorsList: {
+    maxHeight: 160,
+  },
+  importErrorItem: {
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#FFCDD2",
+  },
+  importErrorPath: {
+    fontSize: 12,
+    color: "#666666",
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+  },
+  importErrorMessage: {
+    fontSize: 14,
+    color: "#FF3B30",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  optionGroup: {
+    flex: 1,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  optionChipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  optionChipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  importHint: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  mergePreviewContainer: {
+    backgroundColor: "#F5F9FF",
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#CCE4FF",
+    padding: 12,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  mergePreviewTitle: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  mergePreviewList: {
+    maxHeight: 160,
+  },
+  mergePreviewItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#CCE4FF",
+  },
+  mergeActionTag: {
+    fontSize: 12,
+    color: "#999999",
+    fontWeight: "600",
+    minWidth: 32,
+  },
+  mergeActionAdd: {
+    color: "#34C759",
+  },
+  mergeActionUpdate: {
+    color: "#FF9500",
+  },
+  mergePreviewLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#000000",
+  },
 });
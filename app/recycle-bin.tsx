@@ -0,0 +1,542 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { TrashItemRow } from "@/components/TrashItemRow";
+import { UndoToast } from "@/components/UndoToast";
+import { useUnifiedData } from "@/hooks/useUnifiedData";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { RecycleBin } from "@/utils/recycleBin";
+
+/**
+ * 最近删除的集合、层级或特性
+ */
+type DeletedItem =
+  | { kind: "collection"; id: string; name: string }
+  | { kind: "level"; collectionId: string; id: string; name: string }
+  | { kind: "feature"; id: string; name: string };
+
+const KIND_LABELS = {
+  collection: "集合",
+  level: "层级",
+  feature: "特性",
+};
+
+// 彻底删除时一并删除的内容
+const PURGE_HINTS = {
+  collection: "集合中的层级和单元会一起删除。",
+  level: "层级中的单元会一起删除。",
+  feature: "所有单元中该特性的值会一起删除。",
+};
+
+/**
+ * 最近删除（已删除的集合、层级和特性）
+ * @description 移到回收站的单元在各集合自己的回收站中管理
+ */
+export default function RecycleBinScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { data, loading, dataManager, updateData, undo, trashRetentionDays } =
+    useUnifiedData();
+
+  // 待确认的彻底删除：单个条目，或 "all" 表示清空
+  const [pendingPurge, setPendingPurge] = useState<DeletedItem | "all" | null>(
+    null
+  );
+  const [undoToastMessage, setUndoToastMessage] = useState<string | null>(null);
+
+  const deletedCollections = useMemo(
+    () => DataSelectors.getDeletedCollections(data),
+    [data]
+  );
+  const deletedLevels = useMemo(
+    () => DataSelectors.getAllDeletedLevels(data),
+    [data]
+  );
+  const deletedFeatures = useMemo(
+    () => DataSelectors.getDeletedFeatures(data),
+    [data]
+  );
+  const isEmpty =
+    deletedCollections.length === 0 &&
+    deletedLevels.length === 0 &&
+    deletedFeatures.length === 0;
+
+  /**
+   * 作为一个可撤销的步骤修改数据，并稍后保存
+   */
+  const commitChange = (label: string, mutation: () => void) => {
+    dataManager.execute(label, mutation);
+    updateData().catch((error) => {
+      console.error("保存数据失败:", error);
+    });
+  };
+
+  const restoreItem = (item: DeletedItem) => {
+    switch (item.kind) {
+      case "collection":
+        dataManager.restoreCollection(item.id);
+        break;
+      case "level":
+        dataManager.restoreLevel(item.collectionId, item.id);
+        break;
+      case "feature":
+        dataManager.restoreFeature(item.id);
+        break;
+    }
+  };
+
+  const purgeItem = (item: DeletedItem) => {
+    switch (item.kind) {
+      case "collection":
+        dataManager.purgeCollection(item.id);
+        break;
+      case "level":
+        dataManager.purgeLevel(item.collectionId, item.id);
+        break;
+      case "feature":
+        dataManager.purgeFeature(item.id);
+        break;
+    }
+  };
+
+  const getAllItems = (): DeletedItem[] => [
+    ...deletedCollections.map((collection) => ({
+      kind: "collection" as const,
+      id: collection.id,
+      name: collection.name,
+    })),
+    ...deletedLevels.map(({ collection, level }) => ({
+      kind: "level" as const,
+      collectionId: collection.id,
+      id: level.id,
+      name: level.name,
+    })),
+    ...deletedFeatures.map((feature) => ({
+      kind: "feature" as const,
+      id: feature.id,
+      name: feature.name,
+    })),
+  ];
+
+  const handleRestore = (item: DeletedItem) => {
+    commitChange(`恢复${KIND_LABELS[item.kind]}`, () => restoreItem(item));
+    setUndoToastMessage(`已恢复${KIND_LABELS[item.kind]} ${item.name}`);
+  };
+
+  const handleRestoreAll = () => {
+    commitChange("全部恢复", () => getAllItems().forEach(restoreItem));
+    setUndoToastMessage("已全部恢复");
+  };
+
+  const confirmPurge = () => {
+    if (!pendingPurge) return;
+    const purge = pendingPurge;
+    setPendingPurge(null);
+    if (purge === "all") {
+      commitChange("清空最近删除", () => getAllItems().forEach(purgeItem));
+      setUndoToastMessage("已清空最近删除");
+    } else {
+      commitChange(`彻底删除${KIND_LABELS[purge.kind]}`, () =>
+        purgeItem(purge)
+      );
+      setUndoToastMessage(`已彻底删除${KIND_LABELS[purge.kind]} ${purge.name}`);
+    }
+  };
+
+  const dismissUndoToast = useCallback(() => {
+    setUndoToastMessage(null);
+  }, []);
+
+  const handleUndo = async () => {
+    setUndoToastMessage(null);
+    try {
+      await undo();
+    } catch (error) {
+      console.error("撤销失败:", error);
+      Alert.alert("错误", "撤销失败，请重试");
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        key="recycle-bin-screen"
+        options={{
+          title: "最近删除",
+          headerShown: true,
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Pressable
+              style={styles.headerButton}
+              onPress={() => {
+                if (router.canGoBack()) {
+                  router.back();
+                } else {
+                  router.push("/");
+                }
+              }}
+            >
+              <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+            </Pressable>
+          ),
+        }}
+      />
+      <ThemedView style={styles.container}>
+        {loading ? (
+          <ThemedText style={styles.loadingText}>加载中...</ThemedText>
+        ) : isEmpty ? (
+          <ThemedView style={styles.emptyState}>
+            <ThemedText style={styles.emptyStateText}>
+              没有最近删除的内容{"\n"}移到回收站的单元在所属集合的回收站中查看
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          <>
+            <ScrollView
+              style={styles.content}
+              contentContainerStyle={[
+                styles.contentContainer,
+                { paddingBottom: insets.bottom + 20 },
+              ]}
+              showsVerticalScrollIndicator={false}
+            >
+              <ThemedText style={styles.hintText}>
+                {trashRetentionDays > 0
+                  ? `删除的内容保留 ${trashRetentionDays} 天后彻底删除，可在设置中修改`
+                  : "删除的内容会一直保留，可在设置中修改"}
+              </ThemedText>
+
+              {deletedCollections.length > 0 && (
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>集合</ThemedText>
+                  {deletedCollections.map((collection) => {
+                    const item: DeletedItem = {
+                      kind: "collection",
+                      id: collection.id,
+                      name: collection.name,
+                    };
+                    return (
+                      <TrashItemRow
+                        key={collection.id}
+                        title={`${collection.name}（${collection.levels.length} 个层级）`}
+                        subtitle={RecycleBin.describe(
+                          collection.deletedAt ?? collection.updatedAt,
+                          trashRetentionDays
+                        )}
+                        onRestore={() => handleRestore(item)}
+                        onPurge={() => setPendingPurge(item)}
+                      />
+                    );
+                  })}
+                </View>
+              )}
+
+              {deletedLevels.length > 0 && (
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>层级</ThemedText>
+                  {deletedLevels.map(({ collection, level }) => {
+                    const item: DeletedItem = {
+                      kind: "level",
+                      collectionId: collection.id,
+                      id: level.id,
+                      name: level.name,
+                    };
+                    return (
+                      <TrashItemRow
+                        key={level.id}
+                        title={`${collection.name} / ${level.name}（${level.units.length} 个单元）`}
+                        subtitle={RecycleBin.describe(
+                          level.deletedAt ?? level.updatedAt,
+                          trashRetentionDays
+                        )}
+                        onRestore={() => handleRestore(item)}
+                        onPurge={() => setPendingPurge(item)}
+                      />
+                    );
+                  })}
+                </View>
+              )}
+
+              {deletedFeatures.length > 0 && (
+                <View style={styles.section}>
+                  <ThemedText style={styles.sectionTitle}>特性</ThemedText>
+                  {deletedFeatures.map((feature) => {
+                    const item: DeletedItem = {
+                      kind: "feature",
+                      id: feature.id,
+                      name: feature.name,
+                    };
+                    return (
+                      <TrashItemRow
+                        key={feature.id}
+                        title={feature.name}
+                        subtitle={RecycleBin.describe(
+                          feature.deletedAt ?? feature.updatedAt,
+                          trashRetentionDays
+                        )}
+                        onRestore={() => handleRestore(item)}
+                        onPurge={() => setPendingPurge(item)}
+                      />
+                    );
+                  })}
+                </View>
+              )}
+            </ScrollView>
+
+            <View
+              style={[
+                styles.bottomBar,
+                { paddingBottom: Math.max(insets.bottom, 12) + 8 },
+              ]}
+            >
+              <TouchableOpacity
+                style={[styles.bottomButton, styles.restoreAllButton]}
+                onPress={handleRestoreAll}
+              >
+                <ThemedText style={styles.restoreAllButtonText}>
+                  全部恢复
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.bottomButton, styles.emptyTrashButton]}
+                onPress={() => setPendingPurge("all")}
+              >
+                <ThemedText style={styles.emptyTrashButtonText}>
+                  全部彻底删除
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ThemedView>
+
+      {/* 彻底删除确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingPurge !== null}
+        onRequestClose={() => setPendingPurge(null)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.confirmModalContent}>
+            <ThemedText type="subtitle" style={styles.confirmModalTitle}>
+              {pendingPurge === "all" ? "全部彻底删除" : "彻底删除"}
+            </ThemedText>
+            <ThemedText style={styles.confirmModalMessage}>
+              {pendingPurge === "all"
+                ? "最近删除的所有集合、层级和特性都会被彻底删除，确定吗？"
+                : pendingPurge
+                  ? `确定要彻底删除${KIND_LABELS[pendingPurge.kind]} ${
+                      pendingPurge.name
+                    } 吗？${PURGE_HINTS[pendingPurge.kind]}`
+                  : ""}
+            </ThemedText>
+
+            <ThemedView style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setPendingPurge(null)}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.deleteConfirmButton]}
+                onPress={confirmPurge}
+              >
+                <ThemedText style={styles.deleteConfirmButtonText}>
+                  删除
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+
+      <UndoToast
+        message={undoToastMessage}
+        onUndo={handleUndo}
+        onDismiss={dismissUndoToast}
+        bottomOffset={insets.bottom + 90}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F5F5",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#999999",
+    textAlign: "center",
+    marginTop: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999999",
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 80,
+    paddingHorizontal: 20,
+  },
+  emptyStateText: {
+    color: "#999999",
+    fontSize: 15,
+    textAlign: "center",
+    lineHeight: 22,
+  },
+  section: {
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#666666",
+    marginBottom: 8,
+  },
+  bottomBar: {
+    flexDirection: "row",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E0E0E0",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  bottomButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    minHeight: 48,
+  },
+  restoreAllButton: {
+    backgroundColor: "#007AFF",
+  },
+  restoreAllButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyTrashButton: {
+    backgroundColor: "#FFF0F0",
+  },
+  emptyTrashButtonText: {
+    color: "#FF3B30",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  confirmModalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  confirmModalTitle: {
+    textAlign: "center",
+    marginBottom: 16,
+    color: "#000000",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  confirmModalMessage: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deleteConfirmButton: {
+    backgroundColor: "#FF3B30",
+  },
+  deleteConfirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
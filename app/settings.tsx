@@ -0,0 +1,493 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useUnifiedData } from "@/hooks/useUnifiedData";
+import { TRASH_RETENTION_OPTIONS } from "@/utils/recycleBin";
+import {
+  MAX_SNAPSHOTS,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from "@/utils/unifiedStorage";
+
+const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  import: "导入前",
+  reset: "重置前",
+  daily: "每日自动",
+  restore: "恢复快照前",
+};
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const {
+    loading: dataLoading,
+    listSnapshots,
+    restoreSnapshot,
+    trashRetentionDays,
+    setTrashRetentionDays,
+  } = useUnifiedData();
+
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [snapshotToRestore, setSnapshotToRestore] =
+    useState<SnapshotInfo | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (error) {
+      console.error("加载快照列表失败:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listSnapshots]);
+
+  // 等数据加载完成（可能创建了当天的快照）后再读取快照列表
+  useEffect(() => {
+    if (!dataLoading) {
+      loadSnapshots();
+    }
+  }, [dataLoading, loadSnapshots]);
+
+  const confirmRestore = async () => {
+    if (!snapshotToRestore) return;
+    const snapshot = snapshotToRestore;
+    setSnapshotToRestore(null);
+    try {
+      const success = await restoreSnapshot(snapshot.id);
+      if (success) {
+        await loadSnapshots();
+        Alert.alert(
+          "成功",
+          `已恢复到 ${new Date(snapshot.createdAt).toLocaleString()} 的快照`
+        );
+      } else {
+        Alert.alert("错误", "快照不存在或已损坏");
+      }
+    } catch (error) {
+      console.error("恢复快照失败:", error);
+      Alert.alert("错误", "恢复快照失败，请重试");
+    }
+  };
+
+  const handleChangeTrashRetention = async (days: number) => {
+    try {
+      await setTrashRetentionDays(days);
+    } catch (error) {
+      console.error("保存回收站设置失败:", error);
+      Alert.alert("错误", "保存设置失败，请重试");
+    }
+  };
+
+  // Stack.Screen 必须在组件顶层，确保始终渲染
+  // 使用 key 确保每次渲染时都更新配置
+  return (
+    <>
+      <Stack.Screen
+        key="settings-screen"
+        options={{
+          title: "设置",
+          headerShown: true,
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Pressable
+              style={styles.headerButton}
+              onPress={() => {
+                router.push("/");
+              }}
+            >
+              <MaterialIcons name="arrow-back" size={24} color="#007AFF" />
+            </Pressable>
+          ),
+        }}
+      />
+      {loading || dataLoading ? (
+        <ThemedView style={styles.container}>
+          <ThemedText style={styles.loadingText}>加载中...</ThemedText>
+        </ThemedView>
+      ) : (
+        <View style={[styles.container, { paddingTop: insets.top }]}>
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={[
+              styles.contentContainer,
+              { paddingBottom: insets.bottom + 40 },
+            ]}
+            showsVerticalScrollIndicator={false}
+          >
+            <Pressable
+              style={({ pressed }) => [
+                styles.navItem,
+                pressed && styles.navItemPressed,
+              ]}
+              onPress={() => router.push("/backups" as any)}
+            >
+              <MaterialIcons name="backup" size={22} color="#007AFF" />
+              <ThemedText style={styles.navItemText}>备份文件</ThemedText>
+              <MaterialIcons name="chevron-right" size={22} color="#C7C7CC" />
+            </Pressable>
+
+            <ThemedText style={styles.sectionTitle}>回收站保留时间</ThemedText>
+            <ThemedText style={styles.sectionHint}>
+              删除的集合、层级和移到回收站的单元超过保留时间后会被彻底删除。
+            </ThemedText>
+            <View style={styles.optionGroup}>
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <Pressable
+                  key={days}
+                  style={[
+                    styles.optionChip,
+                    trashRetentionDays === days && styles.optionChipActive,
+                  ]}
+                  onPress={() => handleChangeTrashRetention(days)}
+                >
+                  <ThemedText
+                    style={[
+                      styles.optionChipText,
+                      trashRetentionDays === days &&
+                        styles.optionChipTextActive,
+                    ]}
+                  >
+                    {days > 0 ? `${days} 天` : "永久保留"}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+
+            <ThemedText style={styles.sectionTitle}>本地快照</ThemedText>
+            <ThemedText style={styles.sectionHint}>
+              导入和重置前、以及每天首次打开时自动保存，最多保留 {MAX_SNAPSHOTS}{" "}
+              个。
+            </ThemedText>
+
+            {snapshots.length === 0 ? (
+              <ThemedView style={styles.emptyState}>
+                <ThemedText style={styles.emptyStateText}>暂无快照</ThemedText>
+              </ThemedView>
+            ) : (
+              snapshots.map((snapshot) => (
+                <View key={snapshot.id} style={styles.snapshotItem}>
+                  <View style={styles.snapshotInfo}>
+                    <View style={styles.snapshotTitleRow}>
+                      <ThemedText style={styles.snapshotTime}>
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                      </ThemedText>
+                      <ThemedText style={styles.snapshotReason}>
+                        {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                      </ThemedText>
+                    </View>
+                    <ThemedText style={styles.snapshotSummary}>
+                      {snapshot.summary.collections} 个集合 ·{" "}
+                      {snapshot.summary.levels} 个层级 ·{" "}
+                      {snapshot.summary.units} 个单元
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.iconButton,
+                      pressed && styles.iconButtonPressed,
+                    ]}
+                    onPress={() => setSnapshotToRestore(snapshot)}
+                  >
+                    <MaterialIcons name="restore" size={20} color="#007AFF" />
+                  </Pressable>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* 恢复快照确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={snapshotToRestore !== null}
+        onRequestClose={() => setSnapshotToRestore(null)}
+      >
+        <ThemedView style={styles.modalOverlay}>
+          <ThemedView style={styles.confirmModalContent}>
+            <ThemedText type="subtitle" style={styles.confirmModalTitle}>
+              恢复快照
+            </ThemedText>
+            <ThemedText style={styles.confirmModalMessage}>
+              将使用{" "}
+              {snapshotToRestore &&
+                new Date(snapshotToRestore.createdAt).toLocaleString()}{" "}
+              的快照覆盖当前所有数据，当前数据会先保存为一个新的快照。确定要恢复吗？
+            </ThemedText>
+
+            <ThemedView style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setSnapshotToRestore(null)}
+              >
+                <ThemedText style={styles.cancelButtonText}>取消</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.confirmButton]}
+                onPress={confirmRestore}
+              >
+                <ThemedText style={styles.confirmButtonText}>恢复</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F5F5F5",
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#999999",
+    textAlign: "center",
+    marginTop: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  navItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "#FFFFFF",
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 24,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  navItemPressed: {
+    opacity: 0.6,
+  },
+  navItemText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#000000",
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#000000",
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: "#999999",
+    marginBottom: 12,
+  },
+  optionGroup: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 24,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  optionChipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  optionChipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  emptyState: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 40,
+  },
+  emptyStateText: {
+    color: "#999999",
+    fontSize: 15,
+    textAlign: "center",
+  },
+  snapshotItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  snapshotInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  snapshotTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  snapshotTime: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#000000",
+  },
+  snapshotReason: {
+    fontSize: 12,
+    color: "#007AFF",
+    backgroundColor: "#E3F2FD",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  snapshotSummary: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 4,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#F0F0F0",
+    alignItems: "center",
+    justifyContent: "center",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.1,
+        shadowRadius: 2,
+      },
+      android: {
+        elevation: 1,
+      },
+    }),
+  },
+  iconButtonPressed: {
+    opacity: 0.6,
+    backgroundColor: "#E0E0E0",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  confirmModalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  confirmModalTitle: {
+    textAlign: "center",
+    marginBottom: 16,
+    color: "#000000",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  confirmModalMessage: {
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  confirmButton: {
+    backgroundColor: "#007AFF",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
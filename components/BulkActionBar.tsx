@@ -0,0 +1,533 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import { FeatureValueEditor } from "@/components/FeatureValueEditor";
+import type { Feature, FeatureValue, Level } from "@/types/dataStructure";
+import {
+  BULK_UNIT_ACTION_LABELS,
+  type BulkUnitAction,
+  type BulkUnitActionType,
+} from "@/utils/bulkUnitActions";
+import { FeatureValues } from "@/utils/featureValues";
+
+const ACTION_ICONS: Record<
+  BulkUnitActionType,
+  React.ComponentProps<typeof MaterialIcons>["name"]
+> = {
+  recommend: "thumb-up",
+  trash: "delete",
+  favorite: "star",
+  restore: "restore",
+  setFeature: "tune",
+  move: "drive-file-move",
+};
+
+export type BulkActionBarProps = {
+  selectedCount: number;
+  isAllSelected: boolean;
+  /**
+   * 当前页面可用的批量操作，按顺序显示
+   */
+  actions: BulkUnitActionType[];
+  /**
+   * 设置特性值时可选的特性
+   */
+  features?: Feature[];
+  /**
+   * 移动单元时可选的目标层级
+   */
+  levels?: Level[];
+  onToggleAll: () => void;
+  onCancel: () => void;
+  /**
+   * 用户确认后执行批量操作
+   */
+  onApply: (action: BulkUnitAction) => void;
+  /**
+   * 底部安全区域高度
+   */
+  bottomInset?: number;
+};
+
+/**
+ * 批量操作栏
+ * @description 选择模式下显示在页面底部；点击操作后在同一个确认窗口中选择参数（特性值、目标层级、收藏理由）并确认
+ */
+export function BulkActionBar({
+  selectedCount,
+  isAllSelected,
+  actions,
+  features = [],
+  levels = [],
+  onToggleAll,
+  onCancel,
+  onApply,
+  bottomInset = 0,
+}: BulkActionBarProps) {
+  const [pendingType, setPendingType] = useState<BulkUnitActionType | null>(
+    null
+  );
+  const [reason, setReason] = useState("");
+  const [featureId, setFeatureId] = useState<string | null>(null);
+  const [featureValue, setFeatureValue] = useState<FeatureValue | null>(null);
+  const [levelId, setLevelId] = useState<string | null>(null);
+
+  // 公式特性的值由公式计算，不能批量设置
+  const editableFeatures = features.filter((f) => f.type !== "formula");
+  const selectedFeature = editableFeatures.find((f) => f.id === featureId);
+  // 数值特性的可选值；可选值过多时改为手动输入
+  const numericChoices =
+    selectedFeature?.type === "numeric"
+      ? FeatureValues.getNumericChoices(selectedFeature)
+      : null;
+
+  const openConfirm = (type: BulkUnitActionType) => {
+    setReason("");
+    setFeatureId(null);
+    setFeatureValue(null);
+    setLevelId(null);
+    setPendingType(type);
+  };
+
+  // 根据确认窗口中的选择生成操作；参数不完整时返回 null
+  const buildAction = (): BulkUnitAction | null => {
+    switch (pendingType) {
+      case "recommend":
+      case "trash":
+      case "restore":
+        return { type: pendingType };
+      case "favorite":
+        return { type: "favorite", reason: reason.trim() || "无" };
+      case "setFeature":
+        return featureId && featureValue !== null
+          ? { type: "setFeature", featureId, value: featureValue }
+          : null;
+      case "move":
+        return levelId ? { type: "move", levelId } : null;
+      default:
+        return null;
+    }
+  };
+  const action = buildAction();
+
+  const handleConfirm = () => {
+    if (!action) return;
+    setPendingType(null);
+    onApply(action);
+  };
+
+  return (
+    <>
+      <View
+        style={[
+          styles.container,
+          { paddingBottom: Math.max(bottomInset, 12) + 8 },
+        ]}
+      >
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>已选择 {selectedCount} 个单元</Text>
+          <View style={styles.summaryActions}>
+            <Pressable
+              onPress={onToggleAll}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.linkText}>
+                {isAllSelected ? "取消全选" : "全选"}
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={onCancel}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.linkText}>完成</Text>
+            </Pressable>
+          </View>
+        </View>
+        <View style={styles.actionRow}>
+          {actions.map((type) => (
+            <Pressable
+              key={type}
+              style={({ pressed }) => [
+                styles.actionButton,
+                pressed && styles.actionButtonPressed,
+              ]}
+              disabled={selectedCount === 0}
+              onPress={() => openConfirm(type)}
+            >
+              <MaterialIcons
+                name={ACTION_ICONS[type]}
+                size={22}
+                color={selectedCount === 0 ? "#C7C7CC" : "#007AFF"}
+              />
+              <Text
+                style={[
+                  styles.actionText,
+                  selectedCount === 0 && styles.actionTextDisabled,
+                ]}
+                numberOfLines={1}
+              >
+                {BULK_UNIT_ACTION_LABELS[type]}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* 批量操作确认 Modal */}
+      <Modal
+        animationType="fade"
+        transparent={true}
+        visible={pendingType !== null}
+        onRequestClose={() => setPendingType(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {pendingType ? BULK_UNIT_ACTION_LABELS[pendingType] : ""}
+            </Text>
+            <Text style={styles.modalMessage}>
+              将对选中的 {selectedCount} 个单元执行此操作，可以撤销。
+            </Text>
+
+            <ScrollView
+              style={styles.optionScroll}
+              showsVerticalScrollIndicator={false}
+            >
+              {pendingType === "favorite" && (
+                <TextInput
+                  style={styles.input}
+                  placeholder="收藏理由（可选）"
+                  placeholderTextColor="#999999"
+                  value={reason}
+                  onChangeText={setReason}
+                />
+              )}
+
+              {pendingType === "setFeature" &&
+                (editableFeatures.length === 0 ? (
+                  <Text style={styles.emptyText}>暂无特性，请先创建特性</Text>
+                ) : (
+                  <>
+                    <Text style={styles.optionLabel}>特性</Text>
+                    <View style={styles.optionGroup}>
+                      {editableFeatures.map((feature) => (
+                        <Pressable
+                          key={feature.id}
+                          style={[
+                            styles.optionChip,
+                            featureId === feature.id && styles.optionChipActive,
+                          ]}
+                          onPress={() => {
+                            setFeatureId(feature.id);
+                            setFeatureValue(null);
+                          }}
+                        >
+                          <Text
+                            style={[
+                              styles.optionChipText,
+                              featureId === feature.id &&
+                                styles.optionChipTextActive,
+                            ]}
+                          >
+                            {feature.name}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    {selectedFeature && (
+                      <>
+                        <Text style={styles.optionLabel}>值</Text>
+                        {numericChoices ? (
+                          <View style={styles.optionGroup}>
+                            {numericChoices.map((value) => (
+                              <Pressable
+                                key={value}
+                                style={[
+                                  styles.optionChip,
+                                  featureValue === value &&
+                                    styles.optionChipActive,
+                                ]}
+                                onPress={() => setFeatureValue(value)}
+                              >
+                                <Text
+                                  style={[
+                                    styles.optionChipText,
+                                    featureValue === value &&
+                                      styles.optionChipTextActive,
+                                  ]}
+                                >
+                                  {FeatureValues.format(selectedFeature, value)}
+                                </Text>
+                              </Pressable>
+                            ))}
+                          </View>
+                        ) : (
+                          <FeatureValueEditor
+                            key={selectedFeature.id}
+                            feature={selectedFeature}
+                            value={featureValue ?? undefined}
+                            onChange={setFeatureValue}
+                          />
+                        )}
+                      </>
+                    )}
+                  </>
+                ))}
+
+              {pendingType === "move" &&
+                (levels.length === 0 ? (
+                  <Text style={styles.emptyText}>暂无层级</Text>
+                ) : (
+                  <>
+                    <Text style={styles.optionLabel}>目标层级</Text>
+                    <View style={styles.optionGroup}>
+                      {levels.map((level) => (
+                        <Pressable
+                          key={level.id}
+                          style={[
+                            styles.optionChip,
+                            levelId === level.id && styles.optionChipActive,
+                          ]}
+                          onPress={() => setLevelId(level.id)}
+                        >
+                          <Text
+                            style={[
+                              styles.optionChipText,
+                              levelId === level.id &&
+                                styles.optionChipTextActive,
+                            ]}
+                          >
+                            {level.name}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    <Text style={styles.hintText}>
+                      与目标层级中已有单元重名的单元不会移动
+                    </Text>
+                  </>
+                ))}
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <Pressable
+                style={[styles.button, styles.cancelButton]}
+                onPress={() => setPendingType(null)}
+              >
+                <Text style={styles.cancelButtonText}>取消</Text>
+              </Pressable>
+              <Pressable
+                style={[
+                  styles.button,
+                  pendingType === "trash"
+                    ? styles.dangerButton
+                    : styles.confirmButton,
+                  !action && styles.buttonDisabled,
+                ]}
+                disabled={!action}
+                onPress={handleConfirm}
+              >
+                <Text style={styles.confirmButtonText}>确定</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    backgroundColor: "#FFFFFF",
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#E0E0E0",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: -2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: "#000000",
+    fontWeight: "500",
+  },
+  summaryActions: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  linkText: {
+    fontSize: 15,
+    color: "#007AFF",
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  actionButtonPressed: {
+    backgroundColor: "#F0F0F0",
+  },
+  actionText: {
+    fontSize: 11,
+    color: "#007AFF",
+    marginTop: 2,
+  },
+  actionTextDisabled: {
+    color: "#C7C7CC",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "80%",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalTitle: {
+    textAlign: "center",
+    marginBottom: 12,
+    color: "#000000",
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  modalMessage: {
+    textAlign: "center",
+    marginBottom: 16,
+    color: "#666666",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  optionScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: "#666666",
+    marginBottom: 8,
+  },
+  optionGroup: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#F0F0F0",
+  },
+  optionChipActive: {
+    backgroundColor: "#007AFF",
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: "#333333",
+  },
+  optionChipTextActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#000000",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#999999",
+    fontSize: 15,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999999",
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    minHeight: 44,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  cancelButton: {
+    backgroundColor: "#F0F0F0",
+  },
+  cancelButtonText: {
+    color: "#666666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmButton: {
+    backgroundColor: "#007AFF",
+  },
+  dangerButton: {
+    backgroundColor: "#FF3B30",
+  },
+  confirmButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,312 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { Feature, FeatureValue } from "@/types/dataStructure";
+import { FeatureValues, RATING_MAX } from "@/utils/featureValues";
+
+export type FeatureValueEditorProps = {
+  feature: Feature;
+  value: FeatureValue | undefined;
+  /**
+   * 值变化时调用，null 表示清除该值
+   */
+  onChange: (value: FeatureValue | null) => void;
+  /**
+   * 数值、文本和日期在输入结束时才提交（避免每输入一个字就记录一次修改）；
+   * 为 false 时每次输入都提交，无效的输入按 null 提交
+   */
+  commitOnEndEditing?: boolean;
+};
+
+/**
+ * 特性值编辑器
+ * @description 按特性类型显示对应的编辑方式：是/否和单选为选项按钮（再次点击已选项可清除），
+ * 多选为可切换的标签，数值、文本和日期为输入框（数值按特性的范围和小数位数校验），评分为星级，公式只显示计算结果
+ */
+export function FeatureValueEditor({
+  feature,
+  value,
+  onChange,
+  commitOnEndEditing = false,
+}: FeatureValueEditorProps) {
+  const textValue =
+    typeof value === "string" || typeof value === "number" ? String(value) : "";
+  const [draft, setDraft] = useState(textValue);
+  const [inputError, setInputError] = useState("");
+  // 最近一次提交的文本，用于区分自己提交的值和外部（撤销、其他页面）的修改
+  const committedText = useRef(textValue);
+
+  // 外部修改后同步输入框
+  useEffect(() => {
+    if (textValue === committedText.current) return;
+    committedText.current = textValue;
+    setDraft(textValue);
+    setInputError("");
+  }, [textValue]);
+
+  const submit = (next: FeatureValue | null) => {
+    committedText.current = next === null ? "" : String(next);
+    onChange(next);
+  };
+
+  const commitText = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed === "") {
+      setInputError("");
+      submit(null);
+      return;
+    }
+    const parsed = FeatureValues.parse(feature, trimmed);
+    if ("error" in parsed) {
+      setInputError(parsed.error);
+      if (!commitOnEndEditing) submit(null);
+      return;
+    }
+    setInputError("");
+    submit(parsed.value);
+  };
+
+  const handleChangeText = (text: string) => {
+    setDraft(text);
+    if (!commitOnEndEditing) commitText(text);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isActive: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, isActive && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  switch (feature.type) {
+    case "boolean":
+      return (
+        <View style={styles.chipGroup}>
+          {[true, false].map((option) =>
+            renderChip(
+              String(option),
+              option ? "是" : "否",
+              value === option,
+              () => onChange(value === option ? null : option)
+            )
+          )}
+        </View>
+      );
+
+    case "enum":
+    case "multi_select": {
+      const options = feature.options ?? [];
+      if (options.length === 0) {
+        return (
+          <Text style={styles.hintText}>
+            暂无选项，请先在特性管理中添加选项
+          </Text>
+        );
+      }
+      const selectedIds = Array.isArray(value)
+        ? value
+        : typeof value === "string"
+          ? [value]
+          : [];
+      return (
+        <View style={styles.chipGroup}>
+          {options.map((option) => {
+            const isActive = selectedIds.includes(option.id);
+            return renderChip(option.id, option.name, isActive, () => {
+              if (feature.type === "enum") {
+                onChange(isActive ? null : option.id);
+                return;
+              }
+              // 多选按选项定义的顺序保存
+              const next = options
+                .map((o) => o.id)
+                .filter((id) =>
+                  id === option.id ? !isActive : selectedIds.includes(id)
+                );
+              onChange(next.length > 0 ? next : null);
+            });
+          })}
+        </View>
+      );
+    }
+
+    case "numeric":
+    case "text":
+    case "date":
+      return (
+        <View>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, inputError !== "" && styles.inputError]}
+              placeholder={
+                feature.type === "date"
+                  ? "YYYY-MM-DD"
+                  : feature.type === "numeric"
+                    ? "输入数值"
+                    : "未填写"
+              }
+              placeholderTextColor="#999999"
+              value={draft}
+              onChangeText={handleChangeText}
+              onBlur={() => commitOnEndEditing && commitText(draft)}
+              keyboardType={
+                feature.type === "text" ? "default" : "numbers-and-punctuation"
+              }
+              multiline={feature.type === "text" && !commitOnEndEditing}
+            />
+            {feature.type === "numeric" && feature.numeric?.suffix ? (
+              <Text style={styles.suffixText}>{feature.numeric.suffix}</Text>
+            ) : null}
+            {feature.type === "date" && (
+              <Pressable
+                style={styles.todayButton}
+                onPress={() => {
+                  const today = FeatureValues.today();
+                  setDraft(today);
+                  commitText(today);
+                }}
+              >
+                <Text style={styles.todayButtonText}>今天</Text>
+              </Pressable>
+            )}
+          </View>
+          {inputError !== "" && (
+            <Text style={styles.errorText}>{inputError}</Text>
+          )}
+        </View>
+      );
+
+    case "rating": {
+      const rating = typeof value === "number" ? value : 0;
+      return (
+        <View style={styles.ratingRow}>
+          {Array.from({ length: RATING_MAX }, (_, i) => i + 1).map((star) => (
+            <Pressable
+              key={star}
+              hitSlop={{ top: 6, bottom: 6, left: 2, right: 2 }}
+              // 再次点击当前评分清除评分
+              onPress={() => onChange(star === rating ? null : star)}
+            >
+              <MaterialIcons
+                name={star <= rating ? "star" : "star-border"}
+                size={28}
+                color={star <= rating ? "#FFA500" : "#C7C7CC"}
+              />
+            </Pressable>
+          ))}
+        </View>
+      );
+    }
+
+    case "formula":
+      // 公式特性只读，显示按单元当前特性值计算的结果
+      return (
+        <View>
+          <Text style={styles.formulaValueText}>
+            {value !== undefined ? FeatureValues.format(feature, value) : "—"}
+          </Text>
+          <Text style={styles.hintText}>
+            {value !== undefined
+              ? "由公式计算，修改其他特性后自动更新"
+              : "无法计算（引用的特性已删除或除数为 0）"}
+          </Text>
+        </View>
+      );
+
+    default:
+      return null;
+  }
+}
+
+const styles = StyleSheet.create({
+  chipGroup: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    backgroundColor: "#FFFFFF",
+  },
+  chipActive: {
+    borderColor: "#007AFF",
+    backgroundColor: "#E3F2FD",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  chipTextActive: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: "#000000",
+    backgroundColor: "#FFFFFF",
+    minHeight: 40,
+  },
+  inputError: {
+    borderColor: "#FF3B30",
+  },
+  suffixText: {
+    fontSize: 15,
+    color: "#666666",
+  },
+  todayButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: "#F0F0F0",
+  },
+  todayButtonText: {
+    fontSize: 14,
+    color: "#007AFF",
+    fontWeight: "500",
+  },
+  errorText: {
+    color: "#FF3B30",
+    fontSize: 13,
+    marginTop: 4,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999999",
+  },
+  formulaValueText: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#000000",
+    marginBottom: 2,
+  },
+  ratingRow: {
+    flexDirection: "row",
+    gap: 4,
+  },
+});
@@ -0,0 +1,138 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React from "react";
+import { Platform, Pressable, StyleSheet, Text, View } from "react-native";
+
+export type TrashItemRowProps = {
+  title: string;
+  /**
+   * 删除时间、剩余保留天数等说明
+   */
+  subtitle?: string;
+  onRestore: () => void;
+  onPurge: () => void;
+  /**
+   * 选择模式：点击整行切换选中状态，不显示恢复和删除按钮
+   */
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: () => void;
+};
+
+/**
+ * 回收站条目
+ * @description 显示一条已删除的内容，右侧为“恢复”和“彻底删除”按钮
+ */
+export function TrashItemRow({
+  title,
+  subtitle,
+  onRestore,
+  onPurge,
+  isSelecting = false,
+  isSelected = false,
+  onToggleSelect,
+}: TrashItemRowProps) {
+  const info = (
+    <View style={styles.info}>
+      <Text style={styles.title} numberOfLines={1}>
+        {title}
+      </Text>
+      {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
+    </View>
+  );
+
+  if (isSelecting) {
+    return (
+      <Pressable
+        style={[styles.row, isSelected && styles.rowSelected]}
+        onPress={onToggleSelect}
+      >
+        {info}
+        <MaterialIcons
+          name={isSelected ? "check-circle" : "radio-button-unchecked"}
+          size={22}
+          color="#007AFF"
+        />
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={styles.row}>
+      {info}
+      <Pressable
+        style={({ pressed }) => [
+          styles.iconButton,
+          pressed && styles.iconButtonPressed,
+        ]}
+        onPress={onRestore}
+        hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+      >
+        <MaterialIcons name="restore" size={20} color="#007AFF" />
+      </Pressable>
+      <Pressable
+        style={({ pressed }) => [
+          styles.iconButton,
+          pressed && styles.iconButtonPressed,
+        ]}
+        onPress={onPurge}
+        hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+      >
+        <MaterialIcons name="delete-forever" size={20} color="#FF3B30" />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E0E0E0",
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 2,
+      },
+      android: {
+        elevation: 1,
+      },
+    }),
+  },
+  rowSelected: {
+    borderColor: "#007AFF",
+    backgroundColor: "#F0F7FF",
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    color: "#000000",
+    fontWeight: "500",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: "#999999",
+    marginTop: 4,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#F0F0F0",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  iconButtonPressed: {
+    opacity: 0.6,
+    backgroundColor: "#E0E0E0",
+  },
+});
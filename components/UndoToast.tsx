@@ -0,0 +1,104 @@
+import React, { useEffect } from "react";
+import { Platform, Pressable, StyleSheet, Text, View } from "react-native";
+import Animated, { FadeInDown, FadeOutDown } from "react-native-reanimated";
+
+export type UndoToastProps = {
+  /**
+   * 提示文字，为 null 时隐藏
+   */
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /**
+   * 自动隐藏的时间（毫秒）
+   */
+  duration?: number;
+  /**
+   * 距离屏幕底部的距离
+   */
+  bottomOffset?: number;
+};
+
+/**
+ * 撤销提示条
+ * @description 破坏性操作后在底部短暂显示，点击“撤销”回退这一步
+ */
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 4000,
+  bottomOffset = 24,
+}: UndoToastProps) {
+  // 每次出现新的提示都重新计时
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onDismiss]);
+
+  if (!message) return null;
+
+  return (
+    <Animated.View
+      entering={FadeInDown}
+      exiting={FadeOutDown}
+      style={[styles.container, { bottom: bottomOffset }]}
+      pointerEvents="box-none"
+    >
+      <View style={styles.toast}>
+        <Text style={styles.message} numberOfLines={1}>
+          {message}
+        </Text>
+        <Pressable
+          onPress={onUndo}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Text style={styles.undoText}>撤销</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    alignItems: "center",
+    zIndex: 1000,
+  },
+  toast: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    maxWidth: 400,
+    width: "100%",
+    backgroundColor: "#323232",
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#000",
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  message: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 15,
+  },
+  undoText: {
+    color: "#4DA3FF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
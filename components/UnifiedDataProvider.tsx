@@ -0,0 +1,35 @@
+import React from "react";
+
+import {
+  UnifiedDataContext,
+  useUnifiedDataStore,
+} from "@/hooks/useUnifiedData";
+import type { StorageBackend } from "@/utils/storageBackend";
+
+import type { DataStructure } from "@/types/dataStructure";
+
+export type UnifiedDataProviderProps = {
+  children: React.ReactNode;
+  initialData?: DataStructure;
+  /**
+   * 存储后端，默认使用 defaultStorageBackend
+   */
+  backend?: StorageBackend;
+};
+
+/**
+ * 统一数据提供者
+ * @description 在应用根部创建唯一的数据管理器，所有页面通过 useUnifiedData 读取和修改同一份数据
+ */
+export function UnifiedDataProvider({
+  children,
+  initialData,
+  backend,
+}: UnifiedDataProviderProps) {
+  const store = useUnifiedDataStore(initialData, backend);
+  return (
+    <UnifiedDataContext.Provider value={store}>
+      {children}
+    </UnifiedDataContext.Provider>
+  );
+}
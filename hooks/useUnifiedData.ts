@@ -1,19 +1,53 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
 
+import { logDebug } from "@/utils/debugLogger";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/utils/recycleBin";
+import type { StorageBackend } from "@/utils/storageBackend";
 import UnifiedDataManager from "@/utils/unifiedDataManager";
-import UnifiedStorage from "@/utils/unifiedStorage";
+import type { SnapshotReason } from "@/utils/unifiedStorage";
 
 import type { DataStructure } from "@/types/dataStructure";
 
 /**
- * 统一数据管理 Hook
- * @description 提供统一数据管理器的实例和常用操作
+ * 统一数据存储 Hook
+ * @description 创建统一数据管理器并提供常用操作；backend 为空时使用默认存储后端。
+ * 只由 UnifiedDataProvider 调用，页面通过 useUnifiedData 共享同一份数据
  */
-export function useUnifiedData(initialData?: DataStructure) {
-  const [dataManager] = useState(() => new UnifiedDataManager(initialData));
+export function useUnifiedDataStore(
+  initialData?: DataStructure,
+  backend?: StorageBackend
+) {
+  const [dataManager] = useState(
+    () => new UnifiedDataManager(initialData, backend)
+  );
   const [data, setData] = useState<DataStructure>(dataManager.getData());
   const [loading, setLoading] = useState(true);
-  const dataRef = useRef<DataStructure>(data);
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(
+    DEFAULT_TRASH_RETENTION_DAYS
+  );
+
+  // 订阅数据管理器：任何页面修改数据后，所有使用共享数据的页面一起重新渲染
+  useEffect(() => {
+    return dataManager.subscribe(() => {
+      setData({ ...dataManager.getData() });
+    });
+  }, [dataManager]);
+
+  // 数据变化事件记录到调试日志，便于排查是哪一步修改了数据
+  useEffect(() => {
+    return dataManager.onAnyChange((event) => {
+      logDebug("DataChange", event.type, {
+        label: event.label,
+        payload: event.payload,
+      });
+    });
+  }, [dataManager]);
 
   /**
    * 加载数据
@@ -21,11 +55,11 @@ export function useUnifiedData(initialData?: DataStructure) {
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      // 使用统一存储加载数据（会自动处理迁移）
-      const loadedData = await UnifiedStorage.loadUnifiedData();
-      dataManager.setData(loadedData);
-      dataRef.current = { ...loadedData };
-      setData(dataRef.current);
+      // 使用统一存储加载数据（会自动处理迁移），加载完成后通过订阅刷新页面
+      await dataManager.load();
+      setTrashRetentionDaysState(
+        await dataManager.getStorage().getTrashRetentionDays()
+      );
     } catch (error) {
       console.error("加载数据失败:", error);
     } finally {
@@ -34,12 +68,11 @@ export function useUnifiedData(initialData?: DataStructure) {
   }, [dataManager]);
 
   /**
-   * 保存数据
+   * 立即保存数据
    */
   const saveData = useCallback(async () => {
     try {
-      const currentData = dataManager.getData();
-      await UnifiedStorage.saveUnifiedData(currentData);
+      await dataManager.save();
     } catch (error) {
       console.error("保存数据失败:", error);
       throw error;
@@ -47,15 +80,90 @@ export function useUnifiedData(initialData?: DataStructure) {
   }, [dataManager]);
 
   /**
-   * 更新数据并触发重新渲染和保存
+   * 更新数据并触发重新渲染，稍后合并保存
+   * @param collectionId 只修改了某个集合时传入，存储可以只比较这个集合
    */
-  const updateData = useCallback(async () => {
-    const currentData = dataManager.getData();
-    // 总是更新 data state，确保 UI 能及时响应
-    dataRef.current = { ...currentData };
-    setData({ ...currentData });
-    await saveData();
-  }, [dataManager, saveData]);
+  const updateData = useCallback(
+    async (collectionId?: string) => {
+      // 总是更新 data state，确保直接修改数据（未经 execute）时 UI 也能及时响应
+      setData({ ...dataManager.getData() });
+      dataManager.scheduleSave(collectionId);
+    },
+    [dataManager]
+  );
+
+  /**
+   * 撤销上一步修改并保存，返回被撤销的操作名称
+   */
+  const undo = useCallback(async () => {
+    const label = dataManager.undo();
+    if (label) {
+      await updateData();
+    }
+    return label;
+  }, [dataManager, updateData]);
+
+  /**
+   * 重做上一步被撤销的修改并保存，返回重做的操作名称
+   */
+  const redo = useCallback(async () => {
+    const label = dataManager.redo();
+    if (label) {
+      await updateData();
+    }
+    return label;
+  }, [dataManager, updateData]);
+
+  /**
+   * 为当前数据创建快照（在导入、合并、重置等覆盖操作应用之前调用）
+   * @description 先写入尚未保存的修改，快照才包含最新的数据
+   */
+  const createSnapshot = useCallback(
+    async (reason: SnapshotReason) => {
+      await dataManager.flush();
+      await dataManager.getStorage().createSnapshot(reason);
+    },
+    [dataManager]
+  );
+
+  /**
+   * 获取快照列表（最新的在前）
+   */
+  const listSnapshots = useCallback(() => {
+    return dataManager.getStorage().listSnapshots();
+  }, [dataManager]);
+
+  /**
+   * 恢复快照并重新加载数据
+   */
+  const restoreSnapshot = useCallback(
+    async (id: string) => {
+      // 先写入未保存的修改，避免恢复后又被覆盖
+      await dataManager.flush();
+      const restoredData = await dataManager.getStorage().restoreSnapshot(id);
+      if (!restoredData) {
+        return false;
+      }
+      dataManager.setData(restoredData);
+      return true;
+    },
+    [dataManager]
+  );
+
+  /**
+   * 修改回收站保留天数，并立即清理已超过新保留天数的内容
+   * @param days 保留天数，0 表示永久保留
+   */
+  const setTrashRetentionDays = useCallback(
+    async (days: number) => {
+      await dataManager.getStorage().setTrashRetentionDays(days);
+      setTrashRetentionDaysState(days);
+      if (dataManager.purgeExpiredTrash(days) > 0) {
+        await updateData();
+      }
+    },
+    [dataManager, updateData]
+  );
 
   /**
    * 导出数据到剪贴板
@@ -69,12 +177,47 @@ export function useUnifiedData(initialData?: DataStructure) {
    * 从剪贴板导入数据
    */
   const importData = useCallback(async () => {
-    const success = await dataManager.pasteFromClipboard();
-    if (success) {
+    await createSnapshot("import");
+    const result = await dataManager.pasteFromClipboard();
+    if (result.success) {
       await updateData();
     }
-    return success;
-  }, [dataManager, updateData]);
+    return result;
+  }, [dataManager, createSnapshot, updateData]);
+
+  /**
+   * 导出CSV数据到剪贴板
+   */
+  const exportCSVData = useCallback(() => {
+    return dataManager.copyCSVToClipboard();
+  }, [dataManager]);
+
+  /**
+   * 从剪贴板导入CSV数据
+   */
+  const importCSVData = useCallback(async () => {
+    await createSnapshot("import");
+    const result = await dataManager.pasteCSVFromClipboard();
+    if (result.success) {
+      await updateData();
+    }
+    return result;
+  }, [dataManager, createSnapshot, updateData]);
+
+  /**
+   * 从备份文件恢复数据
+   */
+  const restoreBackup = useCallback(
+    async (uri: string) => {
+      await createSnapshot("import");
+      const result = await dataManager.restoreFromBackupFile(uri);
+      if (result.success) {
+        await updateData();
+      }
+      return result;
+    },
+    [dataManager, createSnapshot, updateData]
+  );
 
   /**
    * 导出JSON字符串
@@ -88,13 +231,14 @@ export function useUnifiedData(initialData?: DataStructure) {
    */
   const importJSON = useCallback(
     async (jsonString: string) => {
-      const success = dataManager.importFromJSON(jsonString);
-      if (success) {
+      await createSnapshot("import");
+      const result = dataManager.importFromJSON(jsonString);
+      if (result.success) {
         await updateData();
       }
-      return success;
+      return result;
     },
-    [dataManager, updateData]
+    [dataManager, createSnapshot, updateData]
   );
 
   // 初始化时加载数据
@@ -102,6 +246,13 @@ export function useUnifiedData(initialData?: DataStructure) {
     loadData();
   }, [loadData]);
 
+  // 卸载时写入尚未保存的修改
+  useEffect(() => {
+    return () => {
+      dataManager.dispose().catch(() => undefined);
+    };
+  }, [dataManager]);
+
   return {
     dataManager,
     data,
@@ -110,11 +261,33 @@ export function useUnifiedData(initialData?: DataStructure) {
     saveData,
     exportData,
     importData,
+    exportCSVData,
+    importCSVData,
+    restoreBackup,
+    undo,
+    redo,
+    createSnapshot,
+    listSnapshots,
+    restoreSnapshot,
+    trashRetentionDays,
+    setTrashRetentionDays,
     exportJSON,
     importJSON,
   };
 }
 
+export type UnifiedDataStore = ReturnType<typeof useUnifiedDataStore>;
 
+export const UnifiedDataContext = createContext<UnifiedDataStore | null>(null);
 
-
+/**
+ * 统一数据管理 Hook
+ * @description 获取 UnifiedDataProvider 提供的共享数据和操作，所有页面读写同一个数据管理器
+ */
+export function useUnifiedData(): UnifiedDataStore {
+  const store = useContext(UnifiedDataContext);
+  if (!store) {
+    throw new Error("useUnifiedData 必须在 UnifiedDataProvider 中使用");
+  }
+  return store;
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+/**
+ * 单元多选 Hook
+ * @description 管理选择模式和已选单元ID；availableIds 为当前页面可选的单元，
+ * 不再可选的单元（例如已被移到其他列表）会自动从选择中移除。availableIds 应使用 useMemo 缓存，可选单元变化时才更新
+ */
+export function useUnitSelection(availableIds: string[]) {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((unitId) => availableIds.includes(unitId));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [availableIds]);
+
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  /**
+   * 进入选择模式，可同时选中一个单元
+   */
+  const startSelection = useCallback((unitId?: string) => {
+    setIsSelecting(true);
+    setSelectedIds(unitId ? [unitId] : []);
+  }, []);
+
+  /**
+   * 退出选择模式并清空选择
+   */
+  const endSelection = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  }, []);
+
+  /**
+   * 切换单元的选中状态
+   */
+  const toggle = useCallback((unitId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(unitId)
+        ? prev.filter((id) => id !== unitId)
+        : [...prev, unitId]
+    );
+  }, []);
+
+  /**
+   * 全选；已经全选时取消全选
+   */
+  const toggleAll = useCallback(() => {
+    setSelectedIds((prev) =>
+      prev.length === availableIds.length ? [] : [...availableIds]
+    );
+  }, [availableIds]);
+
+  const isSelected = useCallback(
+    (unitId: string) => selectedSet.has(unitId),
+    [selectedSet]
+  );
+
+  return {
+    isSelecting,
+    selectedIds,
+    isAllSelected:
+      availableIds.length > 0 && selectedIds.length === availableIds.length,
+    isSelected,
+    startSelection,
+    endSelection,
+    toggle,
+    toggleAll,
+  };
+}
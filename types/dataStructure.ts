@@ -4,6 +4,13 @@
  */
 export type UnitStatus = "normal" | "recommended" | "favorite" | "trash";
 
+/**
+ * 特性值
+ * @description 数值和评分存储数字，是/否存储布尔值，单选存储选项ID，多选存储选项ID数组，
+ * 文本存储字符串，日期存储 YYYY-MM-DD 格式的字符串
+ */
+export type FeatureValue = number | boolean | string | string[];
+
 /**
  * 单元特性值
  * @description 单元关联的特性值
@@ -14,9 +21,44 @@ export interface UnitFeatureValue {
    */
   featureId: string;
   /**
-   * 特性值：数值类型存储数字，单选类型存储布尔值
+   * 特性值，类型由特性的类型决定
    */
-  value: number | boolean;
+  value: FeatureValue;
+}
+
+/**
+ * 单元历史记录的操作类型
+ * @description statusChanged（状态变化，如推荐、移到回收站、恢复）、renamed（重命名）、featureChanged（特性值变化）、
+ * moved（移动到其他层次，值为层次名称）
+ */
+export type UnitHistoryAction =
+  "statusChanged" | "renamed" | "featureChanged" | "moved";
+
+/**
+ * 单元历史记录
+ * @description 记录单元的一次修改，只追加不修改
+ */
+export interface UnitHistoryEntry {
+  /**
+   * 修改时间
+   */
+  timestamp: number;
+  /**
+   * 操作类型
+   */
+  action: UnitHistoryAction;
+  /**
+   * 修改的特性ID（仅当 action 为 featureChanged 时有效）
+   */
+  featureId?: string;
+  /**
+   * 修改前的值：状态、名称、特性值或层次名称；之前没有值时为 null
+   */
+  previousValue: FeatureValue | null;
+  /**
+   * 修改后的值
+   */
+  newValue: FeatureValue | null;
 }
 
 /**
@@ -48,6 +90,22 @@ export interface Unit {
    * 收藏时间（仅当 status 为 favorite 时有效）
    */
   favoriteCreatedAt?: number;
+  /**
+   * 移到回收站的时间（仅当 status 为 trash 时有效），超过保留天数后自动彻底删除
+   */
+  trashedAt?: number;
+  /**
+   * 历史记录（按时间顺序，只追加）
+   */
+  history?: UnitHistoryEntry[];
+  /**
+   * 创建时间
+   */
+  createdAt: number;
+  /**
+   * 最后修改时间
+   */
+  updatedAt: number;
 }
 
 /**
@@ -75,6 +133,14 @@ export interface Level {
    * 创建时间
    */
   createdAt: number;
+  /**
+   * 最后修改时间（层次中单元的修改也会更新该时间）
+   */
+  updatedAt: number;
+  /**
+   * 删除时间：删除的层次先放入回收站，仍保留在集合中，可以恢复
+   */
+  deletedAt?: number;
 }
 
 /**
@@ -94,6 +160,18 @@ export interface Collection {
    * 创建时间
    */
   createdAt: number;
+  /**
+   * 最后修改时间（集合中层次、单元的修改也会更新该时间）
+   */
+  updatedAt: number;
+  /**
+   * 删除时间：删除的集合先放入回收站，仍保留在数据中，可以恢复
+   */
+  deletedAt?: number;
+  /**
+   * 集合使用的特性组ID：组内的特性在该集合中可用
+   */
+  featureSetIds?: string[];
   /**
    * 集合下的层次列表
    */
@@ -102,8 +180,65 @@ export interface Collection {
 
 /**
  * 特性类型
+ * @description numeric（数值）、boolean（是/否）、enum（单选）、multi_select（多选）、
+ * text（文本）、date（日期）、rating（评分）、formula（公式，由其他特性的值计算得出）
  */
-export type FeatureType = "numeric" | "single_choice";
+export type FeatureType =
+  | "numeric"
+  | "boolean"
+  | "enum"
+  | "multi_select"
+  | "text"
+  | "date"
+  | "rating"
+  | "formula";
+
+/**
+ * 特性选项
+ * @description 单选、多选特性的可选项；单元中存储选项ID，修改选项名称不影响已有的值
+ */
+export interface FeatureOption {
+  /**
+   * 选项唯一标识（在所属特性内唯一）
+   */
+  id: string;
+  /**
+   * 选项名称
+   */
+  name: string;
+}
+
+/**
+ * 数值特性的设置
+ * @description 都可以不设置：没有最小值、最大值时不限制范围（选择器显示 0 到 30），
+ * 没有小数位数时不限制精度；步长只用于生成选择器中的可选值
+ */
+export interface NumericSettings {
+  /**
+   * 最小值
+   */
+  min?: number;
+  /**
+   * 最大值
+   */
+  max?: number;
+  /**
+   * 步长，默认为 1
+   */
+  step?: number;
+  /**
+   * 小数位数
+   */
+  decimals?: number;
+  /**
+   * 默认值：单元没有设置该特性时视为此值，默认为 0
+   */
+  defaultValue?: number;
+  /**
+   * 显示在数值后的单位，例如“分”、“元”
+   */
+  suffix?: string;
+}
 
 /**
  * 特性
@@ -119,13 +254,78 @@ export interface Feature {
    */
   name: string;
   /**
-   * 特性类型：数值或单选
+   * 特性类型
    */
   type: FeatureType;
+  /**
+   * 可选项（仅单选、多选特性）
+   */
+  options?: FeatureOption[];
+  /**
+   * 数值设置（仅数值特性）
+   */
+  numeric?: NumericSettings;
+  /**
+   * 计算公式（仅公式特性），引用的特性写作 {特性ID}，见 FeatureFormula
+   */
+  formula?: string;
+  /**
+   * 适用的集合ID：只在这些集合中可用；
+   * 没有设置且不属于任何特性组时为全局特性，所有集合都可用；
+   * 为空数组且不属于任何特性组时不在任何集合中可用（适用的集合或特性组已被删除）
+   */
+  collectionIds?: string[];
+  /**
+   * 显示顺序：特性管理、单元编辑和 CSV 导出都按该值从小到大排列
+   */
+  order?: number;
+  /**
+   * 分组名称：单元编辑弹窗中同一分组的特性显示在同一区块，没有设置时为未分组
+   */
+  group?: string;
+  /**
+   * 是否在层级的单元格中显示该特性的值
+   */
+  showOnCard?: boolean;
   /**
    * 创建时间
    */
   createdAt: number;
+  /**
+   * 最后修改时间
+   */
+  updatedAt: number;
+  /**
+   * 删除时间：删除的特性先放入回收站，单元中该特性的值保留不动，恢复后即可继续使用
+   */
+  deletedAt?: number;
+}
+
+/**
+ * 特性组
+ * @description 一组可复用的特性，集合选择使用某个特性组后，组内的特性在该集合中可用
+ */
+export interface FeatureSet {
+  /**
+   * 特性组唯一标识
+   */
+  id: string;
+  /**
+   * 特性组名称
+   */
+  name: string;
+  /**
+   * 组内的特性ID
+   */
+  featureIds: string[];
+  /**
+   * 创建时间
+   */
+  createdAt: number;
+  /**
+   * 最后修改时间
+   */
+  updatedAt: number;
 }
 
 /**
@@ -133,6 +333,10 @@ export interface Feature {
  * @description 包含集合数组和特性
  */
 export interface DataStructure {
+  /**
+   * 数据结构版本号：加载和导入时据此执行迁移步骤
+   */
+  schemaVersion: number;
   /**
    * 集合数组：包含集合元数据和层次
    */
@@ -141,8 +345,35 @@ export interface DataStructure {
    * 特性对象：key为特性ID，value为特性对象
    */
   features: Record<string, Feature>;
+  /**
+   * 特性组对象：key为特性组ID，value为特性组对象
+   */
+  featureSets: Record<string, FeatureSet>;
 }
 
-
-
-
+/**
+ * 单个集合的导出包
+ * @description 只包含一个集合、其单元引用到的特性定义，以及集合中可用的非全局特性和特性组
+ */
+export interface CollectionBundle {
+  /**
+   * 导出包类型标识
+   */
+  bundleType: "collection";
+  /**
+   * 数据结构版本号
+   */
+  schemaVersion: number;
+  /**
+   * 导出的集合
+   */
+  collection: Collection;
+  /**
+   * 集合内单元引用到的特性，以及适用于该集合或其特性组中的特性
+   */
+  features: Record<string, Feature>;
+  /**
+   * 集合使用的特性组
+   */
+  featureSets: Record<string, FeatureSet>;
+}
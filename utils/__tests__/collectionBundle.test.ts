@@ -0,0 +1,110 @@
+import type { Collection, DataStructure, Feature } from "@/types/dataStructure";
+import { CollectionBundler } from "@/utils/collectionBundle";
+import { FeatureFormula } from "@/utils/featureFormula";
+
+const TIME = 1000;
+
+const feature = (id: string, name: string, extra: Partial<Feature> = {}) =>
+  ({
+    id,
+    name,
+    type: "numeric",
+    createdAt: TIME,
+    updatedAt: TIME,
+    ...extra,
+  }) as Feature;
+
+const dataWith = (
+  features: Record<string, Feature>,
+  value: number
+): DataStructure => {
+  const collection = {
+    id: "c1",
+    name: "集合",
+    createdAt: TIME,
+    updatedAt: TIME,
+    levels: [
+      {
+        id: "l1",
+        name: "层级",
+        identifier: "numeric",
+        createdAt: TIME,
+        updatedAt: TIME,
+        units: [
+          {
+            id: "u1",
+            name: "单元",
+            status: "normal",
+            features: [{ featureId: "a", value }],
+            createdAt: TIME,
+            updatedAt: TIME,
+          },
+        ],
+      },
+    ],
+  } as Collection;
+  return {
+    schemaVersion: 6,
+    collections: [collection],
+    features,
+    featureSets: {},
+  };
+};
+
+describe("CollectionBundler.remapForImport", () => {
+  it("更新公式中换了新ID的特性引用", () => {
+    // 本地的 a 是另一个特性，导入的 a 需要换新ID
+    const existing = dataWith({ a: feature("a", "价格") }, 100);
+    const incoming = dataWith(
+      {
+        a: feature("a", "分数"),
+        f: feature("f", "双倍", { type: "formula", formula: "{a} * 2" }),
+      },
+      3
+    );
+
+    const result = CollectionBundler.remapForImport(existing, incoming);
+
+    const score = Object.values(result.features).find((f) => f.name === "分数");
+    expect(score).toBeDefined();
+    expect(score!.id).not.toBe("a");
+    const formula = Object.values(result.features).find(
+      (f) => f.type === "formula"
+    );
+    expect(formula!.formula).toBe(`{${score!.id}} * 2`);
+
+    const unit = result.collection.levels[0].units[0];
+    expect(unit.features).toEqual([{ featureId: score!.id, value: 3 }]);
+    expect(
+      FeatureFormula.evaluate(formula!.formula!, unit, {
+        ...existing.features,
+        ...result.features,
+      })
+    ).toBe(6);
+  });
+
+  it("公式引用的特性换了新ID时不复用同ID的本地公式特性", () => {
+    const existing = dataWith(
+      {
+        a: feature("a", "价格"),
+        f: feature("f", "双倍", { type: "formula", formula: "{a} * 2" }),
+      },
+      100
+    );
+    const incoming = dataWith(
+      {
+        a: feature("a", "分数"),
+        f: feature("f", "双倍", { type: "formula", formula: "{a} * 2" }),
+      },
+      3
+    );
+
+    const result = CollectionBundler.remapForImport(existing, incoming);
+
+    const formula = Object.values(result.features).find(
+      (f) => f.type === "formula"
+    );
+    expect(formula).toBeDefined();
+    expect(formula!.id).not.toBe("f");
+  });
+});
@@ -0,0 +1,85 @@
+import type {
+  Collection,
+  DataStructure,
+  Level,
+  Unit,
+} from "@/types/dataStructure";
+import { DataIndex } from "@/utils/dataIndex";
+
+const TIME = 1000;
+
+const unit = (id: string) =>
+  ({
+    id,
+    name: id,
+    status: "normal",
+    features: [],
+    createdAt: TIME,
+    updatedAt: TIME,
+  }) as Unit;
+
+const level = (id: string, units: Unit[]) =>
+  ({
+    id,
+    name: id,
+    identifier: "numeric",
+    units,
+    createdAt: TIME,
+    updatedAt: TIME,
+  }) as Level;
+
+const collection = (id: string, levels: Level[]) =>
+  ({ id, name: id, levels, createdAt: TIME, updatedAt: TIME }) as Collection;
+
+const createData = (): DataStructure => ({
+  schemaVersion: 6,
+  collections: [
+    collection("c1", [level("l1", [unit("u1")])]),
+    collection("c2", [level("l1", [unit("u2")])]),
+  ],
+  features: {},
+  featureSets: {},
+});
+
+describe("DataIndex", () => {
+  it("按集合区分同ID的层次", () => {
+    const data = createData();
+    const index = new DataIndex();
+
+    expect(index.getLevel(data, "c1", "l1")?.level).toBe(
+      data.collections[0].levels[0]
+    );
+    expect(index.getLevel(data, "c2", "l1")?.level).toBe(
+      data.collections[1].levels[0]
+    );
+    expect(index.getUnit(data, "u2")?.collection).toBe(data.collections[1]);
+  });
+
+  it("只重建标记为有变化的集合", () => {
+    const data = createData();
+    const index = new DataIndex();
+    index.getUnit(data, "u1");
+
+    const [moved] = data.collections[0].levels[0].units.splice(0, 1);
+    data.collections[1].levels[0].units.push(moved);
+    index.markChanged("c2");
+    index.markChanged("c1");
+
+    expect(index.getUnit(data, "u1")?.collection).toBe(data.collections[1]);
+
+    data.collections.splice(0, 1);
+    index.markChanged("c1");
+    expect(index.getCollection(data, "c1")).toBeUndefined();
+    expect(index.getUnit(data, "u1")?.collection.id).toBe("c2");
+  });
+
+  it("数据对象被替换后完整重建", () => {
+    const index = new DataIndex();
+    index.getUnit(createData(), "u1");
+
+    const data = createData();
+    expect(index.getUnit(data, "u1")?.unit).toBe(
+      data.collections[0].levels[0].units[0]
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import type { Feature } from "@/types/dataStructure";
+import { FeatureValues } from "@/utils/featureValues";
+
+const numericFeature = (numeric: Feature["numeric"]): Feature => ({
+  id: "f",
+  name: "分数",
+  type: "numeric",
+  numeric,
+  createdAt: 1000,
+  updatedAt: 1000,
+});
+
+describe("FeatureValues 数值步长", () => {
+  it("只接受选择器中可以选择的值", () => {
+    const feature = numericFeature({ min: 1, max: 10, step: 0.5 });
+    const choices = FeatureValues.getNumericChoices(feature)!;
+
+    choices.forEach((value) =>
+      expect(FeatureValues.validate(feature, value)).toBeNull()
+    );
+    expect(FeatureValues.validate(feature, 1.25)).not.toBeNull();
+  });
+
+  it("没有最小值时从 0 开始计算步长，并容忍浮点误差", () => {
+    const feature = numericFeature({ step: 0.1 });
+
+    expect(FeatureValues.validate(feature, 0.3)).toBeNull();
+    expect(FeatureValues.validate(feature, 0.35)).not.toBeNull();
+  });
+
+  it("转换时把值调整到范围内的步长位置上", () => {
+    const feature = numericFeature({ min: 0, max: 10, step: 3 });
+
+    expect(FeatureValues.normalize(feature, 4)).toBe(3);
+    expect(FeatureValues.normalize(feature, 5)).toBe(6);
+    expect(FeatureValues.normalize(feature, 10)).toBe(9);
+    expect(FeatureValues.normalize(feature, 25)).toBe(9);
+  });
+});
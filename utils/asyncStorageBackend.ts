@@ -0,0 +1,25 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { StorageBackend } from "@/utils/storageBackend";
+
+/**
+ * AsyncStorage 存储后端
+ * @description 应用默认使用的存储方式
+ */
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  multiRemove(keys: string[]): Promise<void> {
+    return AsyncStorage.multiRemove(keys);
+  }
+}
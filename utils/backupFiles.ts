@@ -0,0 +1,175 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+const BACKUP_DIR_NAME = "backups/";
+const BACKUP_FILE_PREFIX = "sf-backup-";
+const BACKUP_FILE_EXTENSION = ".json";
+
+/**
+ * 备份文件信息
+ */
+export interface BackupFile {
+  /**
+   * 文件完整路径
+   */
+  uri: string;
+  /**
+   * 文件名，例如 sf-backup-20250101-093000.json
+   */
+  name: string;
+  /**
+   * 文件修改时间（毫秒时间戳）
+   */
+  modifiedAt: number;
+  /**
+   * 文件大小（字节）
+   */
+  size: number;
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+/**
+ * 生成带时间戳的备份文件名
+ */
+const createBackupFileName = (date: Date): string =>
+  `${BACKUP_FILE_PREFIX}${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(
+    date.getSeconds()
+  )}${BACKUP_FILE_EXTENSION}`;
+
+/**
+ * 备份文件工具
+ * @description 在应用文档目录的 backups 文件夹中读写 JSON 备份文件，并通过系统分享面板分享文件
+ */
+export class BackupFiles {
+  /**
+   * 当前平台是否支持文件备份（Web 平台没有文档目录）
+   */
+  static isAvailable(): boolean {
+    return !!FileSystem.documentDirectory;
+  }
+
+  /**
+   * 获取备份目录，不存在时创建
+   */
+  private static async getBackupDirectory(): Promise<string> {
+    const directory = `${FileSystem.documentDirectory}${BACKUP_DIR_NAME}`;
+    const info = await FileSystem.getInfoAsync(directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    return directory;
+  }
+
+  /**
+   * 写入备份文件
+   * @description 同一秒内多次备份时追加序号，避免覆盖已有文件
+   */
+  static async writeBackup(content: string): Promise<BackupFile | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      const directory = await this.getBackupDirectory();
+      let name = createBackupFileName(new Date());
+      let suffix = 0;
+      while ((await FileSystem.getInfoAsync(`${directory}${name}`)).exists) {
+        suffix++;
+        name = name.replace(
+          /(-\d+)?\.json$/,
+          `-${suffix}${BACKUP_FILE_EXTENSION}`
+        );
+      }
+      const uri = `${directory}${name}`;
+      await FileSystem.writeAsStringAsync(uri, content);
+      return await this.getBackupFile(uri, name);
+    } catch (error) {
+      console.error("写入备份文件失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 列出所有备份文件（最新的在前）
+   */
+  static async listBackups(): Promise<BackupFile[]> {
+    if (!this.isAvailable()) return [];
+    try {
+      const directory = await this.getBackupDirectory();
+      const names = await FileSystem.readDirectoryAsync(directory);
+      const backups = await Promise.all(
+        names
+          .filter((name) => name.endsWith(BACKUP_FILE_EXTENSION))
+          .map((name) => this.getBackupFile(`${directory}${name}`, name))
+      );
+      return backups
+        .filter((backup): backup is BackupFile => backup !== null)
+        .sort((a, b) => b.modifiedAt - a.modifiedAt);
+    } catch (error) {
+      console.error("读取备份列表失败:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 读取备份文件内容
+   */
+  static async readBackup(uri: string): Promise<string | null> {
+    if (!this.isAvailable()) return null;
+    try {
+      return await FileSystem.readAsStringAsync(uri);
+    } catch (error) {
+      console.error("读取备份文件失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 删除备份文件
+   */
+  static async deleteBackup(uri: string): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      return true;
+    } catch (error) {
+      console.error("删除备份文件失败:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 通过系统分享面板分享文件
+   */
+  static async shareFile(uri: string): Promise<boolean> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        return false;
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/json",
+        dialogTitle: "分享备份文件",
+        UTI: "public.json",
+      });
+      return true;
+    } catch (error) {
+      console.error("分享文件失败:", error);
+      return false;
+    }
+  }
+
+  private static async getBackupFile(
+    uri: string,
+    name: string
+  ): Promise<BackupFile | null> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists || info.isDirectory) return null;
+    return {
+      uri,
+      name,
+      // expo-file-system 返回的修改时间单位为秒
+      modifiedAt: Math.round(info.modificationTime * 1000),
+      size: info.size,
+    };
+  }
+}
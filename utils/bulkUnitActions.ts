@@ -0,0 +1,31 @@
+import type { FeatureValue } from "@/types/dataStructure";
+
+/**
+ * 批量单元操作的类型
+ */
+export type BulkUnitActionType =
+  "recommend" | "trash" | "favorite" | "restore" | "setFeature" | "move";
+
+/**
+ * 批量单元操作
+ * @description restore 表示放回层级（状态改为 normal）；favorite 的收藏理由对所有单元相同
+ */
+export type BulkUnitAction =
+  | { type: "recommend" }
+  | { type: "trash" }
+  | { type: "favorite"; reason: string }
+  | { type: "restore" }
+  | { type: "setFeature"; featureId: string; value: FeatureValue }
+  | { type: "move"; levelId: string };
+
+/**
+ * 批量操作的名称，同时用作撤销步骤的名称
+ */
+export const BULK_UNIT_ACTION_LABELS: Record<BulkUnitActionType, string> = {
+  recommend: "移到推荐",
+  trash: "移到回收站",
+  favorite: "收藏",
+  restore: "放回层级",
+  setFeature: "设置特性值",
+  move: "移动到层级",
+};
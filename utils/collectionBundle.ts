@@ -0,0 +1,234 @@
+import type {
+  Collection,
+  CollectionBundle,
+  DataStructure,
+  Feature,
+  FeatureSet,
+} from "@/types/dataStructure";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { FeatureFormula } from "@/utils/featureFormula";
+import { FeatureValues } from "@/utils/featureValues";
+import { collectUsedIds, generateUniqueId } from "@/utils/idGenerator";
+
+/**
+ * 单集合导出包工具
+ * @description 负责单个集合的打包、识别，以及导入时的ID重映射
+ */
+export class CollectionBundler {
+  /**
+   * 打包单个集合，只带上其单元引用到的特性定义，以及集合使用的特性组和适用于该集合的特性
+   * @description 包中特性的适用集合只保留导出的集合；单元引用到、但只适用于其他集合的特性改为适用于导出的集合
+   */
+  static createBundle(
+    data: DataStructure,
+    collectionId: string
+  ): CollectionBundle | null {
+    const collection = data.collections.find((c) => c.id === collectionId);
+    if (!collection) return null;
+
+    const features: Record<string, Feature> = {};
+    const addFeature = (featureId: string) => {
+      const feature = data.features[featureId];
+      if (!feature || features[featureId]) return;
+      const { collectionIds, ...rest } = feature;
+      features[featureId] =
+        collectionIds === undefined
+          ? rest
+          : {
+              ...rest,
+              collectionIds: collectionIds.length > 0 ? [collectionId] : [],
+            };
+    };
+    collection.levels.forEach((level) => {
+      level.units.forEach((unit) => {
+        unit.features.forEach(({ featureId }) => addFeature(featureId));
+      });
+    });
+    Object.values(data.features).forEach((feature) => {
+      if (feature.collectionIds?.includes(collectionId)) {
+        addFeature(feature.id);
+      }
+    });
+
+    const featureSets: Record<string, FeatureSet> = {};
+    (collection.featureSetIds ?? []).forEach((featureSetId) => {
+      const featureSet = data.featureSets[featureSetId];
+      if (featureSet) {
+        featureSets[featureSetId] = featureSet;
+        featureSet.featureIds.forEach(addFeature);
+      }
+    });
+
+    return {
+      bundleType: "collection",
+      schemaVersion: data.schemaVersion,
+      collection,
+      features,
+      featureSets,
+    };
+  }
+
+  /**
+   * 判断解析后的JSON是否为单集合导出包
+   */
+  static isBundle(rawData: any): boolean {
+    return rawData?.bundleType === "collection";
+  }
+
+  /**
+   * 将导出包展开为只含一个集合的完整数据结构，以便复用迁移和校验流程
+   */
+  static unwrap(rawData: any): any {
+    return {
+      schemaVersion: rawData.schemaVersion,
+      collections: rawData.collection ? [rawData.collection] : [],
+      features: rawData.features,
+      featureSets: rawData.featureSets,
+    };
+  }
+
+  /**
+   * 准备导入的集合：重映射与现有数据冲突的ID，使其可以与现有数据并存
+   * @description 同ID且名称、类型、数值设置和公式（按重映射后的特性ID比较）一致（单选、多选特性还要求本地包含导入的全部选项）的特性视为同一个特性直接复用，
+   * 否则分配新ID并更新单元和公式中的引用；单元的特性值按最终引用的特性重新整理（见 FeatureValues.normalize），不符合的值被清除。特性组同理，名称和（重映射后的）特性都一致时直接复用。
+   * 复用的特性如果在包中只适用于该集合，而本地也不是全局特性，需要把导入的集合加入其适用集合（见 scopedFeatureIds）
+   */
+  static remapForImport(
+    existing: DataStructure,
+    incoming: DataStructure
+  ): {
+    collection: Collection;
+    features: Record<string, Feature>;
+    featureSets: Record<string, FeatureSet>;
+    scopedFeatureIds: string[];
+  } {
+    const collection: Collection = JSON.parse(
+      JSON.stringify(incoming.collections[0])
+    );
+
+    const usedIds = collectUsedIds(existing);
+
+    // 特性：同名同类型直接复用，冲突则换新ID
+    const featureIdMap = new Map<string, string>();
+    const mapFeatureId = (featureId: string) =>
+      featureIdMap.get(featureId) ?? featureId;
+    const features: Record<string, Feature> = {};
+    const reusedScopedFeatureIds: string[] = [];
+    // 公式只引用非公式特性，最后处理公式特性，此时引用的特性ID已经确定
+    const incomingFeatures = Object.values(incoming.features);
+    [
+      ...incomingFeatures.filter((feature) => feature.type !== "formula"),
+      ...incomingFeatures.filter((feature) => feature.type === "formula"),
+    ].forEach((feature) => {
+      const formula =
+        feature.formula !== undefined
+          ? FeatureFormula.remapIds(feature.formula, mapFeatureId)
+          : undefined;
+      const existingFeature = existing.features[feature.id];
+      if (
+        existingFeature &&
+        existingFeature.name === feature.name &&
+        existingFeature.type === feature.type &&
+        JSON.stringify(existingFeature.numeric ?? null) ===
+          JSON.stringify(feature.numeric ?? null) &&
+        existingFeature.formula === formula &&
+        (feature.options ?? []).every(
+          (option) => !!FeatureValues.getOption(existingFeature, option.id)
+        )
+      ) {
+        if (
+          (feature.collectionIds ?? []).length > 0 &&
+          !DataSelectors.isGlobalFeature(existing, existingFeature)
+        ) {
+          reusedScopedFeatureIds.push(feature.id);
+        }
+        return;
+      }
+      const newId = existingFeature ? generateUniqueId(usedIds) : feature.id;
+      usedIds.add(newId);
+      featureIdMap.set(feature.id, newId);
+      features[newId] =
+        formula !== undefined
+          ? { ...feature, id: newId, formula }
+          : { ...feature, id: newId };
+    });
+
+    // 特性组：名称和特性都一致时直接复用，冲突则换新ID
+    const featureSetIdMap = new Map<string, string>();
+    const featureSets: Record<string, FeatureSet> = {};
+    Object.values(incoming.featureSets).forEach((featureSet) => {
+      const featureIds = featureSet.featureIds.map(mapFeatureId);
+      const existingSet = existing.featureSets[featureSet.id];
+      if (
+        existingSet &&
+        existingSet.name === featureSet.name &&
+        JSON.stringify(existingSet.featureIds) === JSON.stringify(featureIds)
+      ) {
+        return;
+      }
+      const newId = existingSet ? generateUniqueId(usedIds) : featureSet.id;
+      usedIds.add(newId);
+      featureSetIdMap.set(featureSet.id, newId);
+      featureSets[newId] = { ...featureSet, id: newId, featureIds };
+    });
+    if (collection.featureSetIds) {
+      collection.featureSetIds = collection.featureSetIds.map(
+        (featureSetId) => featureSetIdMap.get(featureSetId) ?? featureSetId
+      );
+    }
+
+    const originalCollectionId = collection.id;
+    if (usedIds.has(collection.id)) {
+      collection.id = generateUniqueId(usedIds);
+    } else {
+      usedIds.add(collection.id);
+    }
+    // 新导入的特性适用于导入后的集合
+    Object.values(features).forEach((feature) => {
+      if (feature.collectionIds) {
+        feature.collectionIds = feature.collectionIds.map((id) =>
+          id === originalCollectionId ? collection.id : id
+        );
+      }
+    });
+
+    // 集合名称不能重复，冲突时追加序号
+    const existingNames = new Set(existing.collections.map((c) => c.name));
+    const baseName = collection.name;
+    let copyIndex = 1;
+    while (existingNames.has(collection.name)) {
+      copyIndex++;
+      collection.name = `${baseName} (${copyIndex})`;
+    }
+
+    collection.levels.forEach((level) => {
+      if (usedIds.has(level.id)) {
+        level.id = generateUniqueId(usedIds);
+      } else {
+        usedIds.add(level.id);
+      }
+      level.units.forEach((unit) => {
+        if (usedIds.has(unit.id)) {
+          unit.id = generateUniqueId(usedIds);
+        } else {
+          usedIds.add(unit.id);
+        }
+        unit.features = unit.features.flatMap((featureValue) => {
+          const featureId = mapFeatureId(featureValue.featureId);
+          const feature = features[featureId] ?? existing.features[featureId];
+          const value = feature
+            ? FeatureValues.normalize(feature, featureValue.value)
+            : featureValue.value;
+          return value === undefined ? [] : [{ featureId, value }];
+        });
+      });
+    });
+
+    return {
+      collection,
+      features,
+      featureSets,
+      scopedFeatureIds: reusedScopedFeatureIds,
+    };
+  }
+}
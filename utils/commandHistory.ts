@@ -0,0 +1,96 @@
+import type { DataPatch } from "@/utils/dataPatch";
+
+/**
+ * 历史记录保留的最大步数
+ */
+export const MAX_HISTORY_SIZE = 50;
+
+/**
+ * 历史记录项
+ * @description snapshot 为操作另一侧的数据片段（只包含操作涉及的集合、特性或特性组，见 DataPatch）：
+ * 撤销栈中是操作前的数据，重做栈中是操作后的数据
+ */
+export interface HistoryEntry {
+  /**
+   * 操作名称，例如 “删除层级”
+   */
+  label: string;
+  snapshot: DataPatch;
+}
+
+/**
+ * 撤销/重做历史
+ * @description 基于数据片段快照（备忘录）实现，任何修改都可以统一撤销，无需为每种操作编写逆操作
+ */
+export class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private maxSize: number = MAX_HISTORY_SIZE) {}
+
+  /**
+   * 记录一次修改（会清空重做栈）
+   */
+  record(label: string, snapshotBefore: DataPatch): void {
+    this.undoStack.push({ label, snapshot: snapshotBefore });
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * 撤销：返回要恢复的操作前数据，并把当前数据放入重做栈
+   * @param capture 获取当前数据中与要恢复的片段相同的部分
+   */
+  undo(capture: (snapshot: DataPatch) => DataPatch): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push({
+      label: entry.label,
+      snapshot: capture(entry.snapshot),
+    });
+    return entry;
+  }
+
+  /**
+   * 重做：返回要恢复的操作后数据，并把当前数据放回撤销栈
+   * @param capture 获取当前数据中与要恢复的片段相同的部分
+   */
+  redo(capture: (snapshot: DataPatch) => DataPatch): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push({
+      label: entry.label,
+      snapshot: capture(entry.snapshot),
+    });
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 下一次撤销对应的操作名称
+   */
+  getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * 下一次重做对应的操作名称
+   */
+  getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,438 @@
+import type {
+  Collection,
+  DataStructure,
+  Feature,
+  FeatureValue,
+  Level,
+  Unit,
+  UnitStatus,
+} from "@/types/dataStructure";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { DataValidator, type ValidationError } from "@/utils/dataValidator";
+import { FeatureValues } from "@/utils/featureValues";
+import { collectUsedIds, generateUniqueId } from "@/utils/idGenerator";
+import { Timestamps } from "@/utils/timestamps";
+import { UnitHistory } from "@/utils/unitHistory";
+
+/**
+ * CSV 固定列（特性列跟在后面，列名为特性名称）
+ */
+const COLUMN_COLLECTION = "集合";
+const COLUMN_LEVEL = "层级";
+const COLUMN_UNIT = "单元";
+const COLUMN_STATUS = "状态";
+const COLUMN_FAVORITE_REASON = "收藏理由";
+// 只导出，导入时忽略（历史记录只能追加）
+const COLUMN_HISTORY = "历史记录";
+
+const FIXED_COLUMNS = [
+  COLUMN_COLLECTION,
+  COLUMN_LEVEL,
+  COLUMN_UNIT,
+  COLUMN_STATUS,
+  COLUMN_FAVORITE_REASON,
+  COLUMN_HISTORY,
+];
+const REQUIRED_COLUMNS = [COLUMN_COLLECTION, COLUMN_LEVEL, COLUMN_UNIT];
+const UNIT_STATUSES: UnitStatus[] = [
+  "normal",
+  "recommended",
+  "favorite",
+  "trash",
+];
+
+/**
+ * CSV 导入统计
+ */
+export interface CsvImportSummary {
+  createdCollections: number;
+  createdLevels: number;
+  createdUnits: number;
+  /**
+   * 内容有变化的已有单元数量
+   */
+  updatedUnits: number;
+}
+
+/**
+ * 转义单元格：包含逗号、引号或换行时用引号包裹
+ */
+const escapeCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * 解析 CSV 文本为二维数组（支持引号包裹、转义引号和单元格内换行）
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  // 去掉 Excel 保存时添加的 BOM
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * CSV 导入导出工具
+ * @description 每个单元一行，固定列为集合、层级、单元、状态、收藏理由、历史记录，之后每个特性一列（公式特性只导出计算结果）
+ */
+export class CsvTransfer {
+  private errors: ValidationError[] = [];
+  private usedIds: Set<string>;
+  private matchedUnitIds = new Set<string>();
+  // 本次导入新建的单元，它们的初始值不记入历史记录
+  private createdUnitIds = new Set<string>();
+  private summary: CsvImportSummary = {
+    createdCollections: 0,
+    createdLevels: 0,
+    createdUnits: 0,
+    updatedUnits: 0,
+  };
+
+  private constructor(private data: DataStructure) {
+    this.usedIds = collectUsedIds(data);
+  }
+
+  /**
+   * 导出全部单元为 CSV 文本
+   * @description 特性值的格式见 FeatureValues.serialize，未设置的特性留空；
+   * 已删除（在回收站中）的集合、层次、特性不导出
+   */
+  static exportUnits(data: DataStructure): string {
+    const features = DataSelectors.getActiveFeatures(data);
+    const lines = [
+      [...FIXED_COLUMNS, ...features.map((feature) => feature.name)],
+    ];
+
+    DataSelectors.getActiveCollections(data).forEach((collection) => {
+      DataSelectors.getActiveLevels(collection).forEach((level) => {
+        level.units.forEach((unit) => {
+          const values = features.map((feature) => {
+            // 公式特性导出计算结果
+            const value =
+              feature.type === "formula"
+                ? DataSelectors.getUnitFeatureValue(
+                    unit,
+                    feature,
+                    data.features
+                  )
+                : unit.features.find((f) => f.featureId === feature.id)?.value;
+            return value !== undefined
+              ? FeatureValues.serialize(feature, value)
+              : "";
+          });
+          lines.push([
+            collection.name,
+            level.name,
+            unit.name,
+            unit.status,
+            unit.favoriteReason ?? "",
+            (unit.history ?? [])
+              .map(
+                (entry) =>
+                  `${new Date(entry.timestamp).toLocaleString()} ${UnitHistory.describe(
+                    entry,
+                    data.features
+                  )}`
+              )
+              .join("\n"),
+            ...values,
+          ]);
+        });
+      });
+    });
+
+    return lines.map((line) => line.map(escapeCell).join(",")).join("\n");
+  }
+
+  /**
+   * 从 CSV 文本导入单元（不修改传入的数据）
+   * @description 按名称匹配集合、层级和单元：已存在的单元更新状态、收藏理由和特性值，不存在的集合、层级和单元会被创建；表格中没有的单元保持不变；已存在单元的状态和特性值变化会追加到其历史记录，历史记录列被忽略。存在任何错误时不返回数据
+   */
+  static importUnits(
+    data: DataStructure,
+    csvText: string
+  ): {
+    data?: DataStructure;
+    errors: ValidationError[];
+    summary?: CsvImportSummary;
+  } {
+    const isBlankRow = (row: string[]) =>
+      row.every((cell) => cell.trim() === "");
+    const rows = parseCsv(csvText);
+    if (rows.every(isBlankRow)) {
+      return { errors: [{ path: "", message: "CSV 内容为空" }] };
+    }
+
+    const transfer = new CsvTransfer(JSON.parse(JSON.stringify(data)));
+    const columns = transfer.resolveColumns(rows[0]);
+    if (columns) {
+      rows.slice(1).forEach((row, index) => {
+        if (isBlankRow(row)) return;
+        // 行号包含表头且从 1 开始，与表格软件中的行号一致
+        transfer.importRow(row, columns, index + 2);
+      });
+    }
+    if (transfer.errors.length > 0) {
+      return { errors: transfer.errors };
+    }
+
+    const validationErrors = DataValidator.validate(transfer.data);
+    if (validationErrors.length > 0) {
+      return { errors: validationErrors };
+    }
+    return { data: transfer.data, errors: [], summary: transfer.summary };
+  }
+
+  private addError(rowNumber: number, column: string, message: string) {
+    this.errors.push({ path: `第${rowNumber}行.${column}`, message });
+  }
+
+  /**
+   * 解析表头，返回列名与特性的对应关系
+   */
+  private resolveColumns(header: string[]): (Feature | string)[] | null {
+    const featuresByName = new Map<string, Feature[]>();
+    DataSelectors.getActiveFeatures(this.data).forEach((feature) => {
+      featuresByName.set(feature.name, [
+        ...(featuresByName.get(feature.name) ?? []),
+        feature,
+      ]);
+    });
+
+    const columns = header.map((cell, index) => {
+      const name = cell.trim();
+      if (FIXED_COLUMNS.includes(name)) {
+        return name;
+      }
+      const matched = featuresByName.get(name) ?? [];
+      if (matched.length === 1) {
+        return matched[0];
+      }
+      const isDeleted = DataSelectors.getDeletedFeatures(this.data).some(
+        (feature) => feature.name === name
+      );
+      this.addError(
+        1,
+        name || `第${index + 1}列`,
+        matched.length > 1
+          ? `存在多个名为"${name}"的特性，无法确定对应关系`
+          : isDeleted
+            ? `特性"${name}"已删除，请先在回收站中恢复`
+            : `未知的列"${name}"，特性列需与已有特性名称一致`
+      );
+      return name;
+    });
+
+    REQUIRED_COLUMNS.forEach((column) => {
+      if (!columns.includes(column)) {
+        this.addError(1, column, "缺少必需的列");
+      }
+    });
+    return this.errors.length > 0 ? null : columns;
+  }
+
+  private importRow(
+    row: string[],
+    columns: (Feature | string)[],
+    rowNumber: number
+  ) {
+    const cells = new Map<string, string>();
+    columns.forEach((column, index) => {
+      if (typeof column === "string") {
+        cells.set(column, (row[index] ?? "").trim());
+      }
+    });
+
+    const collectionName = cells.get(COLUMN_COLLECTION) ?? "";
+    const levelName = cells.get(COLUMN_LEVEL) ?? "";
+    const unitName = cells.get(COLUMN_UNIT) ?? "";
+    const errorCount = this.errors.length;
+    if (!collectionName)
+      this.addError(rowNumber, COLUMN_COLLECTION, "不能为空");
+    if (!levelName) this.addError(rowNumber, COLUMN_LEVEL, "不能为空");
+    if (!unitName) this.addError(rowNumber, COLUMN_UNIT, "不能为空");
+
+    const status = cells.get(COLUMN_STATUS);
+    if (status && !UNIT_STATUSES.includes(status as UnitStatus)) {
+      this.addError(
+        rowNumber,
+        COLUMN_STATUS,
+        `必须是 ${UNIT_STATUSES.join(" / ")} 之一`
+      );
+    }
+
+    const featureValues = new Map<string, FeatureValue | null>();
+    columns.forEach((column, index) => {
+      // 公式特性的值由公式计算，导入时忽略该列
+      if (typeof column === "string" || column.type === "formula") return;
+      const raw = (row[index] ?? "").trim();
+      if (raw === "") {
+        featureValues.set(column.id, null);
+        return;
+      }
+      const parsed = FeatureValues.parse(column, raw);
+      if ("error" in parsed) {
+        this.addError(rowNumber, column.name, parsed.error);
+      } else {
+        featureValues.set(column.id, parsed.value);
+      }
+    });
+
+    if (this.errors.length > errorCount) return;
+
+    const collection = this.findOrCreateCollection(collectionName);
+    const level = this.findOrCreateLevel(collection, levelName);
+    const unit = this.findOrCreateUnit(level, unitName);
+
+    const isNewUnit = this.createdUnitIds.has(unit.id);
+    const unitBefore = JSON.stringify(unit);
+    if (status) {
+      if (!isNewUnit) {
+        UnitHistory.record(unit, "statusChanged", unit.status, status);
+      }
+      unit.status = status as UnitStatus;
+    }
+    if (cells.has(COLUMN_FAVORITE_REASON)) {
+      unit.favoriteReason = cells.get(COLUMN_FAVORITE_REASON);
+    }
+    // 与 updateUnitStatus 保持一致：只有收藏状态的单元保留收藏信息，
+    // 只有回收站中的单元保留移到回收站的时间
+    if (unit.status === "favorite") {
+      unit.favoriteReason = unit.favoriteReason || "无";
+      unit.favoriteCreatedAt = unit.favoriteCreatedAt ?? Date.now();
+    } else {
+      delete unit.favoriteReason;
+      delete unit.favoriteCreatedAt;
+    }
+    if (unit.status === "trash") {
+      unit.trashedAt = unit.trashedAt ?? Date.now();
+    } else {
+      delete unit.trashedAt;
+    }
+
+    featureValues.forEach((value, featureId) => {
+      const index = unit.features.findIndex((f) => f.featureId === featureId);
+      if (!isNewUnit) {
+        UnitHistory.record(
+          unit,
+          "featureChanged",
+          index !== -1 ? unit.features[index].value : null,
+          value,
+          featureId
+        );
+      }
+      if (value === null) {
+        if (index !== -1) unit.features.splice(index, 1);
+      } else if (index !== -1) {
+        unit.features[index].value = value;
+      } else {
+        unit.features.push({ featureId, value });
+      }
+    });
+
+    if (isNewUnit) {
+      Timestamps.touch(unit, level, collection);
+    } else if (JSON.stringify(unit) !== unitBefore) {
+      Timestamps.touch(unit, level, collection);
+      this.summary.updatedUnits++;
+    }
+  }
+
+  private findOrCreateCollection(name: string): Collection {
+    let collection = DataSelectors.getActiveCollections(this.data).find(
+      (c) => c.name === name
+    );
+    if (!collection) {
+      collection = {
+        id: generateUniqueId(this.usedIds),
+        name,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        levels: [],
+      };
+      this.data.collections.push(collection);
+      this.summary.createdCollections++;
+    }
+    return collection;
+  }
+
+  private findOrCreateLevel(collection: Collection, name: string): Level {
+    let level = DataSelectors.getActiveLevels(collection).find(
+      (l) => l.name === name
+    );
+    if (!level) {
+      level = {
+        id: generateUniqueId(this.usedIds),
+        name,
+        identifier: "numeric",
+        units: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      collection.levels.push(level);
+      this.summary.createdLevels++;
+    }
+    return level;
+  }
+
+  /**
+   * 按名称查找单元；同一层级中有重名单元时，按行的顺序依次对应
+   */
+  private findOrCreateUnit(level: Level, name: string): Unit {
+    let unit = level.units.find(
+      (u) => u.name === name && !this.matchedUnitIds.has(u.id)
+    );
+    if (!unit) {
+      unit = {
+        id: generateUniqueId(this.usedIds),
+        name,
+        status: "normal",
+        features: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      level.units.push(unit);
+      this.createdUnitIds.add(unit.id);
+      this.summary.createdUnits++;
+    }
+    this.matchedUnitIds.add(unit.id);
+    return unit;
+  }
+}
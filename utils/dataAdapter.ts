@@ -1,3 +1,4 @@
+import { DataSelectors } from "@/utils/dataSelectors";
 import UnifiedDataManager from "@/utils/unifiedDataManager";
 
 import type {
@@ -25,7 +26,7 @@ export class DataAdapter {
    */
   getCollections(): OldCollection[] {
     const data = this.dataManager.getData();
-    return data.collections.map((collection) => ({
+    return DataSelectors.getActiveCollections(data).map((collection) => ({
       id: collection.id,
       name: collection.name,
       createdAt: collection.createdAt,
@@ -55,17 +56,24 @@ export class DataAdapter {
 
   /**
    * 根据集合ID获取特性列表（适配旧接口）
+   * @description 只返回集合中可用的特性（全局特性的 collectionId 为 "global"）；
+   * 旧接口只支持数值和单选（布尔）特性，其他类型的特性不返回
    */
   getFeaturesByCollectionId(collectionId: string): OldFeature[] {
-    // 新结构中特性是全局的，collectionId 参数被忽略
     const data = this.dataManager.getData();
-    return Object.values(data.features).map((feature) => ({
-      id: feature.id,
-      collectionId: "global",
-      name: feature.name,
-      type: feature.type,
-      createdAt: feature.createdAt,
-    }));
+    return DataSelectors.getApplicableFeatures(data, collectionId)
+      .filter(
+        (feature) => feature.type === "numeric" || feature.type === "boolean"
+      )
+      .map((feature) => ({
+        id: feature.id,
+        collectionId: DataSelectors.isGlobalFeature(data, feature)
+          ? "global"
+          : collectionId,
+        name: feature.name,
+        type: feature.type === "boolean" ? "single_choice" : "numeric",
+        createdAt: feature.createdAt,
+      }));
   }
 
   /**
@@ -167,6 +175,13 @@ export class DataAdapter {
       collection.levels.forEach((level) => {
         level.units.forEach((unit) => {
           unit.features.forEach((feature) => {
+            // 旧接口只支持数值和布尔值
+            if (
+              typeof feature.value !== "number" &&
+              typeof feature.value !== "boolean"
+            ) {
+              return;
+            }
             unitFeatures.push({
               unitId: unit.id,
               featureId: feature.featureId,
@@ -0,0 +1,223 @@
+import type {
+  Collection,
+  Feature,
+  FeatureSet,
+  Level,
+  Unit,
+  UnitStatus,
+} from "@/types/dataStructure";
+
+/**
+ * 整体替换数据的原因
+ */
+export type DataReplaceReason =
+  "set" | "undo" | "redo" | "import" | "merge" | "csv";
+
+/**
+ * 各类数据变化事件的内容
+ * @description before 为修改前、after 为修改后的值（新增时 before 为 null，删除时 after 为 null）；
+ * 均为事件发生时的副本，之后的修改不会影响已发出的事件
+ */
+export interface DataChangeEventMap {
+  "collection.added": {
+    collectionId: string;
+    before: null;
+    after: Collection;
+  };
+  "collection.updated": {
+    collectionId: string;
+    before: Collection;
+    after: Collection;
+  };
+  "collection.removed": {
+    collectionId: string;
+    before: Collection;
+    after: null;
+  };
+  /**
+   * before、after 为调整前后的集合ID顺序
+   */
+  "collection.reordered": {
+    before: string[];
+    after: string[];
+  };
+  "level.added": {
+    collectionId: string;
+    levelId: string;
+    before: null;
+    after: Level;
+  };
+  "level.updated": {
+    collectionId: string;
+    levelId: string;
+    before: Level;
+    after: Level;
+  };
+  "level.removed": {
+    collectionId: string;
+    levelId: string;
+    before: Level;
+    after: null;
+  };
+  /**
+   * before、after 为调整前后的层次ID顺序
+   */
+  "level.reordered": {
+    collectionId: string;
+    before: string[];
+    after: string[];
+  };
+  "unit.added": {
+    collectionId: string;
+    levelId: string;
+    unitId: string;
+    before: null;
+    after: Unit;
+  };
+  "unit.updated": {
+    collectionId: string;
+    levelId: string;
+    unitId: string;
+    before: Unit;
+    after: Unit;
+  };
+  "unit.removed": {
+    collectionId: string;
+    levelId: string;
+    unitId: string;
+    before: Unit;
+    after: null;
+  };
+  "unit.statusChanged": {
+    collectionId: string;
+    levelId: string;
+    unitId: string;
+    before: UnitStatus;
+    after: UnitStatus;
+  };
+  "feature.added": {
+    featureId: string;
+    before: null;
+    after: Feature;
+  };
+  "feature.updated": {
+    featureId: string;
+    before: Feature;
+    after: Feature;
+  };
+  "feature.removed": {
+    featureId: string;
+    before: Feature;
+    after: null;
+  };
+  /**
+   * before、after 为调整前后的特性ID顺序
+   */
+  "feature.reordered": {
+    before: string[];
+    after: string[];
+  };
+  "featureSet.added": {
+    featureSetId: string;
+    before: null;
+    after: FeatureSet;
+  };
+  "featureSet.updated": {
+    featureSetId: string;
+    before: FeatureSet;
+    after: FeatureSet;
+  };
+  "featureSet.removed": {
+    featureSetId: string;
+    before: FeatureSet;
+    after: null;
+  };
+  /**
+   * 数据被整体替换（加载、撤销/重做、导入等），订阅者应重新读取完整数据
+   */
+  "data.replaced": {
+    reason: DataReplaceReason;
+  };
+}
+
+export type DataChangeEventType = keyof DataChangeEventMap;
+
+/**
+ * 数据变化事件
+ */
+export interface DataChangeEvent<
+  K extends DataChangeEventType = DataChangeEventType,
+> {
+  type: K;
+  /**
+   * 所属的可撤销步骤名称（例如 “删除层级”），不在步骤中发生时为 null
+   */
+  label: string | null;
+  payload: DataChangeEventMap[K];
+}
+
+/**
+ * 任意类型的数据变化事件（可通过 type 收窄 payload 的类型）
+ */
+export type AnyDataChangeEvent = {
+  [K in DataChangeEventType]: DataChangeEvent<K>;
+}[DataChangeEventType];
+
+export type DataChangeEventListener<
+  K extends DataChangeEventType = DataChangeEventType,
+> = (event: DataChangeEvent<K>) => void;
+
+/**
+ * 数据变化事件分发
+ * @description 按事件类型订阅；撤销、日志、统计、界面刷新等都可以基于同一套事件实现
+ */
+export class DataEventEmitter {
+  private typedListeners = new Map<
+    DataChangeEventType,
+    Set<(event: AnyDataChangeEvent) => void>
+  >();
+  private anyListeners = new Set<(event: AnyDataChangeEvent) => void>();
+
+  /**
+   * 订阅指定类型的事件，返回取消订阅的函数
+   */
+  on<K extends DataChangeEventType>(
+    type: K,
+    listener: DataChangeEventListener<K>
+  ): () => void {
+    const listeners = this.typedListeners.get(type) ?? new Set();
+    const wrapped = listener as (event: AnyDataChangeEvent) => void;
+    listeners.add(wrapped);
+    this.typedListeners.set(type, listeners);
+    return () => {
+      listeners.delete(wrapped);
+    };
+  }
+
+  /**
+   * 订阅所有类型的事件，返回取消订阅的函数
+   */
+  onAny(listener: (event: AnyDataChangeEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 分发事件；单个订阅者出错不影响其他订阅者
+   */
+  emit(event: AnyDataChangeEvent): void {
+    const listeners = [
+      ...(this.typedListeners.get(event.type) ?? []),
+      ...this.anyListeners,
+    ];
+    listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("处理数据变化事件失败:", error);
+      }
+    });
+  }
+}
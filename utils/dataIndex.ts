@@ -0,0 +1,152 @@
+import type {
+  Collection,
+  DataStructure,
+  Level,
+  Unit,
+} from "@/types/dataStructure";
+
+/**
+ * 层次所在位置
+ */
+export interface LevelLocation {
+  collection: Collection;
+  level: Level;
+}
+
+/**
+ * 单元所在位置
+ */
+export interface UnitLocation extends LevelLocation {
+  unit: Unit;
+}
+
+/**
+ * 集合的索引条目
+ * @description 层次ID只在集合内唯一，因此层次按集合分别索引
+ */
+interface CollectionEntry {
+  collection: Collection;
+  levels: Map<string, Level>;
+  unitIds: string[];
+}
+
+/**
+ * 数据索引
+ * @description 按ID索引集合、层次和单元，查找时不再逐层遍历；索引保存的是对象引用，排序不会使其失效。
+ * 修改集合的结构（增删层次、单元或替换集合对象）后调用 markChanged，下次查询时只重建该集合的索引；
+ * 数据被整体替换后调用 invalidate，下次查询时完整重建。所有修改都需要通过数据管理器进行，否则索引不会更新
+ */
+export class DataIndex {
+  private collections = new Map<string, CollectionEntry>();
+  private units = new Map<string, UnitLocation>();
+  // 索引对应的数据对象；为 null 表示需要完整重建
+  private indexedData: DataStructure | null = null;
+  // 结构有变化、需要重建索引的集合
+  private changedCollectionIds = new Set<string>();
+
+  /**
+   * 标记索引已过期，下次查询时完整重建
+   */
+  invalidate(): void {
+    this.indexedData = null;
+    this.changedCollectionIds.clear();
+  }
+
+  /**
+   * 标记集合的结构有变化（包括新增、删除或替换集合）
+   */
+  markChanged(collectionId: string): void {
+    this.changedCollectionIds.add(collectionId);
+  }
+
+  /**
+   * 根据ID获取集合
+   */
+  getCollection(
+    data: DataStructure,
+    collectionId: string
+  ): Collection | undefined {
+    this.sync(data);
+    return this.collections.get(collectionId)?.collection;
+  }
+
+  /**
+   * 根据ID获取层次及其所属集合
+   */
+  getLevel(
+    data: DataStructure,
+    collectionId: string,
+    levelId: string
+  ): LevelLocation | undefined {
+    this.sync(data);
+    const entry = this.collections.get(collectionId);
+    const level = entry?.levels.get(levelId);
+    return entry && level ? { collection: entry.collection, level } : undefined;
+  }
+
+  /**
+   * 根据ID获取单元及其所属集合、层次
+   */
+  getUnit(data: DataStructure, unitId: string): UnitLocation | undefined {
+    this.sync(data);
+    return this.units.get(unitId);
+  }
+
+  /**
+   * 查询前使索引与数据一致：数据对象变化时完整重建，否则只重建有变化的集合
+   */
+  private sync(data: DataStructure): void {
+    if (this.indexedData !== data) {
+      this.rebuild(data);
+      return;
+    }
+    if (this.changedCollectionIds.size === 0) return;
+    this.changedCollectionIds.forEach((collectionId) =>
+      this.reindexCollection(data, collectionId)
+    );
+    this.changedCollectionIds.clear();
+  }
+
+  private rebuild(data: DataStructure): void {
+    this.collections.clear();
+    this.units.clear();
+    data.collections.forEach((collection) => this.addCollection(collection));
+    this.indexedData = data;
+    this.changedCollectionIds.clear();
+  }
+
+  private reindexCollection(data: DataStructure, collectionId: string): void {
+    const previous = this.collections.get(collectionId);
+    if (previous) {
+      this.collections.delete(collectionId);
+      // 单元可能已移到其他集合并已重建索引，只删除仍属于该集合的条目
+      previous.unitIds.forEach((unitId) => {
+        if (this.units.get(unitId)?.collection.id === collectionId) {
+          this.units.delete(unitId);
+        }
+      });
+    }
+    const collection = data.collections.find(
+      (candidate) => candidate.id === collectionId
+    );
+    if (collection) {
+      this.addCollection(collection);
+    }
+  }
+
+  private addCollection(collection: Collection): void {
+    const entry: CollectionEntry = {
+      collection,
+      levels: new Map(),
+      unitIds: [],
+    };
+    collection.levels.forEach((level) => {
+      entry.levels.set(level.id, level);
+      level.units.forEach((unit) => {
+        entry.unitIds.push(unit.id);
+        this.units.set(unit.id, { collection, level, unit });
+      });
+    });
+    this.collections.set(collection.id, entry);
+  }
+}
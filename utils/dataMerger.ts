@@ -0,0 +1,305 @@
+import type {
+  Collection,
+  DataStructure,
+  Feature,
+  FeatureSet,
+  Level,
+  Unit,
+} from "@/types/dataStructure";
+
+/**
+ * 合并冲突处理策略
+ * @description keep_local（保留本地）、take_incoming（使用导入）、newest（以最新为准）
+ */
+export type MergeConflictPolicy = "keep_local" | "take_incoming" | "newest";
+
+/**
+ * 合并动作：新增、更新、跳过
+ */
+export type MergeAction = "add" | "update" | "skip";
+
+/**
+ * 合并变更项
+ * @description 用于在应用合并前预览每个实体的处理结果
+ */
+export interface MergeChange {
+  /**
+   * 实体类型
+   */
+  entity: "collection" | "level" | "unit" | "feature" | "featureSet";
+  /**
+   * 实体ID
+   */
+  id: string;
+  /**
+   * 便于展示的实体位置，例如 集合A / 层次1 / 单元3
+   */
+  label: string;
+  /**
+   * 处理动作
+   */
+  action: MergeAction;
+}
+
+/**
+ * 合并预览
+ * @description data 为合并后的完整数据，确认后直接替换本地数据
+ */
+export interface MergePreview {
+  data: DataStructure;
+  changes: MergeChange[];
+  summary: Record<MergeAction, number>;
+}
+
+/**
+ * 获取实体自身的字段（不含子列表和修改时间），用于判断是否存在冲突
+ */
+const ownFields = (
+  entity: Collection | Level | Unit | Feature | FeatureSet
+): string => {
+  const { levels, units, updatedAt, ...rest } = entity as any;
+  return JSON.stringify(rest);
+};
+
+/**
+ * 复制删除时间（在回收站中的状态）
+ */
+const copyDeletedAt = (
+  local: { deletedAt?: number },
+  incoming: { deletedAt?: number }
+) => {
+  if (incoming.deletedAt === undefined) {
+    delete local.deletedAt;
+  } else {
+    local.deletedAt = incoming.deletedAt;
+  }
+};
+
+/**
+ * 数据合并工具
+ * @description 按 id 匹配集合、层次、单元、特性和特性组，新增缺失的实体，冲突按策略处理；本地独有的数据保持不变。
+ * 单元在所属集合的所有层次中按 id 匹配，在另一端被移动到其他层次的单元视为冲突，采用导入时移动到导入数据中的层次
+ */
+export class DataMerger {
+  private changes: MergeChange[] = [];
+
+  private constructor(private policy: MergeConflictPolicy) {}
+
+  /**
+   * 生成合并预览（不修改传入的数据）
+   */
+  static merge(
+    local: DataStructure,
+    incoming: DataStructure,
+    policy: MergeConflictPolicy
+  ): MergePreview {
+    const merger = new DataMerger(policy);
+    const data: DataStructure = JSON.parse(JSON.stringify(local));
+
+    Object.values(incoming.features).forEach((feature) => {
+      merger.mergeFeature(data, feature);
+    });
+    Object.values(incoming.featureSets).forEach((featureSet) => {
+      merger.mergeFeatureSet(data, featureSet);
+    });
+    incoming.collections.forEach((collection) => {
+      merger.mergeCollection(data, collection);
+    });
+
+    const summary: Record<MergeAction, number> = { add: 0, update: 0, skip: 0 };
+    merger.changes.forEach((change) => {
+      summary[change.action]++;
+    });
+
+    return { data, changes: merger.changes, summary };
+  }
+
+  /**
+   * 判断冲突时是否采用导入的数据
+   * @description newest 策略比较双方的修改时间
+   */
+  private shouldTakeIncoming(localTime: number, incomingTime: number): boolean {
+    switch (this.policy) {
+      case "take_incoming":
+        return true;
+      case "newest":
+        return incomingTime > localTime;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 处理同 id 的实体：内容一致时跳过，否则按策略决定是否覆盖
+   * @param moved 实体所在位置不同（如单元在另一端被移动到其他层次），内容一致时也视为冲突
+   */
+  private resolve<T extends Collection | Level | Unit | Feature | FeatureSet>(
+    entity: MergeChange["entity"],
+    label: string,
+    local: T,
+    incoming: T,
+    apply: () => void,
+    moved = false
+  ) {
+    if (
+      (moved || ownFields(local) !== ownFields(incoming)) &&
+      this.shouldTakeIncoming(local.updatedAt, incoming.updatedAt)
+    ) {
+      apply();
+      this.changes.push({ entity, id: incoming.id, label, action: "update" });
+    } else {
+      this.changes.push({ entity, id: incoming.id, label, action: "skip" });
+    }
+  }
+
+  /**
+   * 子实体有新增或更新时，父实体的修改时间取双方中较新的一个
+   * @param changeCount 合并子实体前的变更数量
+   */
+  private keepLatestUpdatedAt(
+    local: Collection | Level,
+    incoming: Collection | Level,
+    changeCount: number
+  ) {
+    const childChanged = this.changes
+      .slice(changeCount)
+      .some((change) => change.action !== "skip");
+    if (childChanged) {
+      local.updatedAt = Math.max(local.updatedAt, incoming.updatedAt);
+    }
+  }
+
+  private mergeFeature(data: DataStructure, incoming: Feature) {
+    const local = data.features[incoming.id];
+    if (!local) {
+      data.features[incoming.id] = { ...incoming };
+      this.changes.push({
+        entity: "feature",
+        id: incoming.id,
+        label: incoming.name,
+        action: "add",
+      });
+      return;
+    }
+    this.resolve("feature", local.name, local, incoming, () => {
+      data.features[incoming.id] = { ...incoming };
+    });
+  }
+
+  private mergeFeatureSet(data: DataStructure, incoming: FeatureSet) {
+    const local = data.featureSets[incoming.id];
+    if (!local) {
+      data.featureSets[incoming.id] = JSON.parse(JSON.stringify(incoming));
+      this.changes.push({
+        entity: "featureSet",
+        id: incoming.id,
+        label: incoming.name,
+        action: "add",
+      });
+      return;
+    }
+    this.resolve("featureSet", local.name, local, incoming, () => {
+      data.featureSets[incoming.id] = JSON.parse(JSON.stringify(incoming));
+    });
+  }
+
+  private mergeCollection(data: DataStructure, incoming: Collection) {
+    const local = data.collections.find((c) => c.id === incoming.id);
+    if (!local) {
+      data.collections.push(JSON.parse(JSON.stringify(incoming)));
+      this.changes.push({
+        entity: "collection",
+        id: incoming.id,
+        label: incoming.name,
+        action: "add",
+      });
+      return;
+    }
+    this.resolve("collection", local.name, local, incoming, () => {
+      local.name = incoming.name;
+      local.createdAt = incoming.createdAt;
+      local.updatedAt = incoming.updatedAt;
+      copyDeletedAt(local, incoming);
+      if (incoming.featureSetIds === undefined) {
+        delete local.featureSetIds;
+      } else {
+        local.featureSetIds = [...incoming.featureSetIds];
+      }
+    });
+    const changeCount = this.changes.length;
+    incoming.levels.forEach((level) => {
+      this.mergeLevel(local, level);
+    });
+    this.keepLatestUpdatedAt(local, incoming, changeCount);
+  }
+
+  private mergeLevel(collection: Collection, incoming: Level) {
+    const local = collection.levels.find((l) => l.id === incoming.id);
+    const label = `${collection.name} / ${incoming.name}`;
+    if (!local) {
+      // 新层次中的单元逐个合并：本地可能已有其中被移动过来的单元
+      const level: Level = JSON.parse(
+        JSON.stringify({ ...incoming, units: [] })
+      );
+      collection.levels.push(level);
+      this.changes.push({
+        entity: "level",
+        id: incoming.id,
+        label,
+        action: "add",
+      });
+      incoming.units.forEach((unit) => {
+        this.mergeUnit(collection, level, unit);
+      });
+      return;
+    }
+    this.resolve("level", label, local, incoming, () => {
+      local.name = incoming.name;
+      local.identifier = incoming.identifier;
+      local.createdAt = incoming.createdAt;
+      local.updatedAt = incoming.updatedAt;
+      copyDeletedAt(local, incoming);
+    });
+    const changeCount = this.changes.length;
+    incoming.units.forEach((unit) => {
+      this.mergeUnit(collection, local, unit);
+    });
+    this.keepLatestUpdatedAt(local, incoming, changeCount);
+  }
+
+  private mergeUnit(collection: Collection, level: Level, incoming: Unit) {
+    const localLevel = collection.levels.find((l) =>
+      l.units.some((u) => u.id === incoming.id)
+    );
+    const label = `${collection.name} / ${level.name} / ${incoming.name}`;
+    if (!localLevel) {
+      level.units.push(JSON.parse(JSON.stringify(incoming)));
+      this.changes.push({
+        entity: "unit",
+        id: incoming.id,
+        label,
+        action: "add",
+      });
+      return;
+    }
+    const unitIndex = localLevel.units.findIndex((u) => u.id === incoming.id);
+    const local = localLevel.units[unitIndex];
+    const moved = localLevel !== level;
+    this.resolve(
+      "unit",
+      label,
+      local,
+      incoming,
+      () => {
+        const unit: Unit = JSON.parse(JSON.stringify(incoming));
+        if (moved) {
+          localLevel.units.splice(unitIndex, 1);
+          level.units.push(unit);
+        } else {
+          level.units[unitIndex] = unit;
+        }
+      },
+      moved
+    );
+  }
+}
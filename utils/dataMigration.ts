@@ -31,9 +31,12 @@ export class DataMigration {
     oldTrashedUnits: Record<string, TrashedUnit[]>,
     oldFavoriteUnits: Record<string, FavoriteUnit[]>
   ): DataStructure {
+    // 旧结构迁移产出版本 1 的数据，之后的版本由 SchemaMigration 继续升级
     const newData: DataStructure = {
+      schemaVersion: 1,
       collections: [],
       features: {},
+      featureSets: {},
     };
 
     // 迁移特性
@@ -41,8 +44,10 @@ export class DataMigration {
       newData.features[oldFeature.id] = {
         id: oldFeature.id,
         name: oldFeature.name,
-        type: oldFeature.type,
+        // 旧结构中的单选特性实际存储布尔值
+        type: oldFeature.type === "single_choice" ? "boolean" : "numeric",
         createdAt: oldFeature.createdAt,
+        updatedAt: oldFeature.createdAt,
       };
     });
 
@@ -116,6 +121,9 @@ export class DataMigration {
             features: unitFeatures,
             ...(favoriteReason && { favoriteReason }),
             ...(favoriteCreatedAt && { favoriteCreatedAt }),
+            // 旧结构的单元没有时间信息，以所在层次的创建时间代替
+            createdAt: oldLevel.createdAt,
+            updatedAt: oldLevel.createdAt,
           };
         });
 
@@ -126,6 +134,7 @@ export class DataMigration {
           identifier: oldLevel.identifier,
           units: newUnits,
           createdAt: oldLevel.createdAt,
+          updatedAt: oldLevel.createdAt,
         };
 
         collectionLevels.push(newLevel);
@@ -136,6 +145,7 @@ export class DataMigration {
         id: oldCollection.id,
         name: oldCollection.name,
         createdAt: oldCollection.createdAt,
+        updatedAt: oldCollection.createdAt,
         levels: collectionLevels,
       };
       newData.collections.push(collection);
@@ -164,13 +174,14 @@ export class DataMigration {
     const oldTrashedUnits: Record<string, TrashedUnit[]> = {};
     const oldFavoriteUnits: Record<string, FavoriteUnit[]> = {};
 
-    // 迁移特性
+    // 迁移特性（旧结构只支持数值和单选，其他类型的特性及其值不迁移）
     Object.values(newData.features).forEach((feature) => {
+      if (feature.type !== "numeric" && feature.type !== "boolean") return;
       oldFeatures.push({
         id: feature.id,
         collectionId: "global", // 旧结构中的全局特性
         name: feature.name,
-        type: feature.type,
+        type: feature.type === "boolean" ? "single_choice" : "numeric",
         createdAt: feature.createdAt,
       });
     });
@@ -236,10 +247,12 @@ export class DataMigration {
 
           // 迁移单元特性
           unit.features.forEach((unitFeature) => {
+            const { value } = unitFeature;
+            if (typeof value !== "number" && typeof value !== "boolean") return;
             oldUnitFeatures.push({
               unitId: unit.id,
               featureId: unitFeature.featureId,
-              value: unitFeature.value,
+              value,
             });
           });
         });
@@ -0,0 +1,234 @@
+import type { Collection, DataStructure } from "@/types/dataStructure";
+import type { AnyDataChangeEvent } from "@/utils/dataEvents";
+
+/**
+ * 数据片段：撤销/重做历史中保存的一侧数据，只包含一次修改涉及的部分
+ * @description collections 以集合ID为键、集合的 JSON 为值，null 表示该集合在这一侧不存在；
+ * collectionOrder 只在集合的顺序（或增删）变化时记录；features、featureSets 只在有变化时记录
+ */
+export interface DataPatch {
+  collections: Record<string, string | null>;
+  collectionOrder?: string[];
+  features?: string;
+  featureSets?: string;
+}
+
+/**
+ * 一次修改可能涉及的数据范围
+ * @description allCollections 为 true 时检查所有集合（如修改特性会转换各单元中的特性值）
+ */
+export interface DataChangeScope {
+  allCollections: boolean;
+  collectionIds: Set<string>;
+  features: boolean;
+  featureSets: boolean;
+}
+
+/**
+ * 撤销历史的数据片段追踪
+ * @description 缓存上一次提交后每个集合、特性和特性组的 JSON。修改完成后只序列化事件涉及的部分并与缓存比较，
+ * 得到修改前后的数据片段，开销与涉及的集合大小相关，而不是与全部数据相关
+ */
+export class DataPatchTracker {
+  private collections = new Map<string, string>();
+  private collectionOrder: string[] = [];
+  private features = "";
+  private featureSets = "";
+  private primed = false;
+
+  /**
+   * 数据被整体替换后调用，下一次修改前重新缓存
+   */
+  invalidate(): void {
+    this.primed = false;
+  }
+
+  /**
+   * 确保缓存与当前数据一致，在修改开始前调用
+   */
+  prime(data: DataStructure): void {
+    if (this.primed) return;
+    this.collections = new Map(
+      data.collections.map((collection) => [
+        collection.id,
+        JSON.stringify(collection),
+      ])
+    );
+    this.collectionOrder = data.collections.map((collection) => collection.id);
+    this.features = JSON.stringify(data.features);
+    this.featureSets = JSON.stringify(data.featureSets);
+    this.primed = true;
+  }
+
+  /**
+   * 根据一个步骤中产生的事件推断修改范围
+   */
+  static scopeOf(events: AnyDataChangeEvent[]): DataChangeScope {
+    const scope: DataChangeScope = {
+      allCollections: false,
+      collectionIds: new Set(),
+      features: false,
+      featureSets: false,
+    };
+    events.forEach((event) => {
+      switch (event.type) {
+        case "data.replaced":
+          scope.allCollections = true;
+          scope.features = true;
+          scope.featureSets = true;
+          break;
+        case "feature.added":
+        case "feature.reordered":
+          scope.features = true;
+          break;
+        case "feature.updated":
+        case "feature.removed":
+          // 修改、删除特性会转换或清除各单元中的特性值
+          scope.features = true;
+          scope.allCollections = true;
+          break;
+        case "featureSet.added":
+        case "featureSet.updated":
+        case "featureSet.removed":
+          // 特性组会修改使用它的集合
+          scope.featureSets = true;
+          scope.allCollections = true;
+          break;
+        case "collection.reordered":
+          break;
+        default:
+          scope.collectionIds.add(event.payload.collectionId);
+      }
+    });
+    return scope;
+  }
+
+  /**
+   * 比较修改范围内的数据与缓存，返回修改前的数据片段（没有变化时返回 null），并更新缓存
+   */
+  commit(data: DataStructure, scope: DataChangeScope): DataPatch | null {
+    const patch: DataPatch = { collections: {} };
+    const current = new Map(
+      data.collections.map((collection) => [collection.id, collection])
+    );
+    const order = data.collections.map((collection) => collection.id);
+
+    // 新增或删除的集合一定在检查范围内
+    const collectionIds = new Set(
+      scope.allCollections
+        ? [...this.collections.keys(), ...order]
+        : scope.collectionIds
+    );
+    order.forEach((id) => {
+      if (!this.collections.has(id)) collectionIds.add(id);
+    });
+    this.collectionOrder.forEach((id) => {
+      if (!current.has(id)) collectionIds.add(id);
+    });
+
+    collectionIds.forEach((id) => {
+      const collection = current.get(id);
+      const after = collection ? JSON.stringify(collection) : null;
+      const before = this.collections.get(id) ?? null;
+      if (after === before) return;
+      patch.collections[id] = before;
+      if (after === null) {
+        this.collections.delete(id);
+      } else {
+        this.collections.set(id, after);
+      }
+    });
+
+    if (order.join("\n") !== this.collectionOrder.join("\n")) {
+      patch.collectionOrder = this.collectionOrder;
+      this.collectionOrder = order;
+    }
+    if (scope.features) {
+      const after = JSON.stringify(data.features);
+      if (after !== this.features) {
+        patch.features = this.features;
+        this.features = after;
+      }
+    }
+    if (scope.featureSets) {
+      const after = JSON.stringify(data.featureSets);
+      if (after !== this.featureSets) {
+        patch.featureSets = this.featureSets;
+        this.featureSets = after;
+      }
+    }
+
+    const isEmpty =
+      Object.keys(patch.collections).length === 0 &&
+      patch.collectionOrder === undefined &&
+      patch.features === undefined &&
+      patch.featureSets === undefined;
+    return isEmpty ? null : patch;
+  }
+
+  /**
+   * 将数据恢复为缓存中的状态（修改中途失败时丢弃已经做出的修改）
+   */
+  rollback(data: DataStructure): void {
+    data.collections = this.collectionOrder.map((id) =>
+      JSON.parse(this.collections.get(id) as string)
+    );
+    data.features = JSON.parse(this.features);
+    data.featureSets = JSON.parse(this.featureSets);
+  }
+
+  /**
+   * 获取当前数据中与 patch 相同部分的片段（撤销/重做前保存另一侧的数据）
+   */
+  capture(data: DataStructure, patch: DataPatch): DataPatch {
+    this.prime(data);
+    const captured: DataPatch = { collections: {} };
+    Object.keys(patch.collections).forEach((id) => {
+      captured.collections[id] = this.collections.get(id) ?? null;
+    });
+    if (patch.collectionOrder !== undefined) {
+      captured.collectionOrder = this.collectionOrder;
+    }
+    if (patch.features !== undefined) {
+      captured.features = this.features;
+    }
+    if (patch.featureSets !== undefined) {
+      captured.featureSets = this.featureSets;
+    }
+    return captured;
+  }
+
+  /**
+   * 将数据片段写回数据，并更新缓存
+   */
+  apply(data: DataStructure, patch: DataPatch): void {
+    this.prime(data);
+    const byId = new Map<string, Collection>(
+      data.collections.map((collection) => [collection.id, collection])
+    );
+    Object.entries(patch.collections).forEach(([id, json]) => {
+      if (json === null) {
+        byId.delete(id);
+        this.collections.delete(id);
+      } else {
+        byId.set(id, JSON.parse(json));
+        this.collections.set(id, json);
+      }
+    });
+    const order = (
+      patch.collectionOrder ??
+      data.collections.map((collection) => collection.id)
+    ).filter((id) => byId.has(id));
+    data.collections = order.map((id) => byId.get(id) as Collection);
+    this.collectionOrder = order;
+
+    if (patch.features !== undefined) {
+      data.features = JSON.parse(patch.features);
+      this.features = patch.features;
+    }
+    if (patch.featureSets !== undefined) {
+      data.featureSets = JSON.parse(patch.featureSets);
+      this.featureSets = patch.featureSets;
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import type {
+  Collection,
+  DataStructure,
+  Feature,
+  FeatureSet,
+  FeatureValue,
+  Level,
+  Unit,
+  UnitStatus,
+} from "@/types/dataStructure";
+import { FeatureFormula } from "@/utils/featureFormula";
+import { FeatureValues } from "@/utils/featureValues";
+
+/**
+ * 单元及其所属层次
+ */
+export interface UnitWithLevel {
+  unit: Unit;
+  level: Level;
+}
+
+/**
+ * 特性分组：group 为 null 表示未分组的特性
+ */
+export interface FeatureGroupSection {
+  group: string | null;
+  features: Feature[];
+}
+
+/**
+ * 数据查询
+ * @description 从统一数据结构中派生页面需要的数据，不做任何修改；单元所在的列表（推荐、回收站、收藏）只由 Unit.status 决定。
+ * 已删除（在回收站中）的集合、层次、特性不出现在除回收站以外的列表中
+ */
+export class DataSelectors {
+  /**
+   * 根据集合ID获取集合
+   */
+  static getCollection(
+    data: DataStructure,
+    collectionId: string
+  ): Collection | undefined {
+    return data.collections.find((c) => c.id === collectionId);
+  }
+
+  /**
+   * 获取未删除的集合
+   */
+  static getActiveCollections(data: DataStructure): Collection[] {
+    return data.collections.filter((c) => c.deletedAt === undefined);
+  }
+
+  /**
+   * 获取集合中未删除的层次
+   */
+  static getActiveLevels(collection: Collection | undefined): Level[] {
+    return (collection?.levels ?? []).filter((l) => l.deletedAt === undefined);
+  }
+
+  /**
+   * 获取按最近编辑排序的集合（最近修改的在前）
+   */
+  static getCollectionsByRecentEdit(data: DataStructure): Collection[] {
+    return this.getActiveCollections(data).sort(
+      (a, b) => b.updatedAt - a.updatedAt
+    );
+  }
+
+  /**
+   * 获取回收站中的集合（最近删除的在前）
+   */
+  static getDeletedCollections(data: DataStructure): Collection[] {
+    return data.collections
+      .filter((c) => c.deletedAt !== undefined)
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  }
+
+  /**
+   * 获取集合回收站中的层次（最近删除的在前）
+   */
+  static getDeletedLevels(data: DataStructure, collectionId: string): Level[] {
+    return (this.getCollection(data, collectionId)?.levels ?? [])
+      .filter((l) => l.deletedAt !== undefined)
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  }
+
+  /**
+   * 获取所有未删除集合中回收站里的层次及其所属集合（最近删除的在前）
+   */
+  static getAllDeletedLevels(
+    data: DataStructure
+  ): { collection: Collection; level: Level }[] {
+    return this.getActiveCollections(data)
+      .flatMap((collection) =>
+        collection.levels
+          .filter((l) => l.deletedAt !== undefined)
+          .map((level) => ({ collection, level }))
+      )
+      .sort((a, b) => (b.level.deletedAt ?? 0) - (a.level.deletedAt ?? 0));
+  }
+
+  /**
+   * 获取未删除的特性（按显示顺序排列）
+   */
+  static getActiveFeatures(data: DataStructure): Feature[] {
+    return this.sortFeatures(
+      Object.values(data.features).filter((f) => f.deletedAt === undefined)
+    );
+  }
+
+  /**
+   * 按显示顺序排列特性
+   * @description 没有 order 的特性排在最后；顺序相同时按创建时间排列
+   */
+  static sortFeatures(features: Feature[]): Feature[] {
+    return [...features].sort(
+      (a, b) =>
+        (a.order ?? Infinity) - (b.order ?? Infinity) ||
+        a.createdAt - b.createdAt
+    );
+  }
+
+  /**
+   * 将特性按分组拆分，分组按其中第一个特性的位置排列，组内保持原顺序
+   */
+  static groupFeatures(features: Feature[]): FeatureGroupSection[] {
+    const sections: FeatureGroupSection[] = [];
+    features.forEach((feature) => {
+      const group = feature.group ?? null;
+      const section = sections.find((s) => s.group === group);
+      if (section) {
+        section.features.push(feature);
+      } else {
+        sections.push({ group, features: [feature] });
+      }
+    });
+    return sections;
+  }
+
+  /**
+   * 获取未删除的特性中已使用的分组名称
+   */
+  static getFeatureGroupNames(data: DataStructure): string[] {
+    return this.groupFeatures(this.getActiveFeatures(data))
+      .map((section) => section.group)
+      .filter((group): group is string => group !== null);
+  }
+
+  /**
+   * 判断特性是否为全局特性：没有设置适用的集合，也不属于任何特性组
+   */
+  static isGlobalFeature(data: DataStructure, feature: Feature): boolean {
+    return (
+      feature.collectionIds === undefined &&
+      this.getFeatureSetsOfFeature(data, feature.id).length === 0
+    );
+  }
+
+  /**
+   * 判断特性是否不适用于任何集合：适用的集合为空，也不属于任何特性组
+   * @description 适用的集合或特性组被删除后出现，需要在特性管理中重新选择适用范围
+   */
+  static isDetachedFeature(data: DataStructure, feature: Feature): boolean {
+    return (
+      feature.collectionIds !== undefined &&
+      feature.collectionIds.length === 0 &&
+      this.getFeatureSetsOfFeature(data, feature.id).length === 0
+    );
+  }
+
+  /**
+   * 获取集合中可用的未删除特性
+   * @description 包括全局特性、指定适用于该集合的特性，以及集合使用的特性组中的特性
+   */
+  static getApplicableFeatures(
+    data: DataStructure,
+    collectionId: string
+  ): Feature[] {
+    const collection = this.getCollection(data, collectionId);
+    const setFeatureIds = new Set(
+      (collection?.featureSetIds ?? []).flatMap(
+        (featureSetId) => data.featureSets[featureSetId]?.featureIds ?? []
+      )
+    );
+    return this.getActiveFeatures(data).filter(
+      (feature) =>
+        setFeatureIds.has(feature.id) ||
+        (feature.collectionIds ?? []).includes(collectionId) ||
+        this.isGlobalFeature(data, feature)
+    );
+  }
+
+  /**
+   * 获取包含指定特性的特性组
+   */
+  static getFeatureSetsOfFeature(
+    data: DataStructure,
+    featureId: string
+  ): FeatureSet[] {
+    return Object.values(data.featureSets).filter((featureSet) =>
+      featureSet.featureIds.includes(featureId)
+    );
+  }
+
+  /**
+   * 获取使用指定特性组的集合
+   */
+  static getCollectionsUsingFeatureSet(
+    data: DataStructure,
+    featureSetId: string
+  ): Collection[] {
+    return data.collections.filter((collection) =>
+      (collection.featureSetIds ?? []).includes(featureSetId)
+    );
+  }
+
+  /**
+   * 获取回收站中的特性（最近删除的在前）
+   */
+  static getDeletedFeatures(data: DataStructure): Feature[] {
+    return Object.values(data.features)
+      .filter((f) => f.deletedAt !== undefined)
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  }
+
+  /**
+   * 获取集合中指定状态的单元，按层次顺序排列
+   */
+  static getUnitsByStatus(
+    data: DataStructure,
+    collectionId: string,
+    status: UnitStatus
+  ): UnitWithLevel[] {
+    const collection = this.getCollection(data, collectionId);
+    if (!collection) return [];
+
+    const result: UnitWithLevel[] = [];
+    this.getActiveLevels(collection).forEach((level) => {
+      level.units
+        .filter((unit) => unit.status === status)
+        .forEach((unit) => result.push({ unit, level }));
+    });
+    return result;
+  }
+
+  /**
+   * 获取集合中所有单元的索引（单元ID -> 单元及其所属层次）
+   */
+  static getUnitIndex(
+    data: DataStructure,
+    collectionId: string
+  ): Map<string, UnitWithLevel> {
+    const index = new Map<string, UnitWithLevel>();
+    const collection = this.getCollection(data, collectionId);
+    this.getActiveLevels(collection).forEach((level) => {
+      level.units.forEach((unit) => index.set(unit.id, { unit, level }));
+    });
+    return index;
+  }
+
+  /**
+   * 获取单元的特性值
+   * @description 数值类型的特性没有值时视为默认值（默认为 0）；公式特性按单元当前的特性值计算，无法计算时为 undefined
+   * @param features 全部特性，用于计算公式
+   */
+  static getUnitFeatureValue(
+    unit: Unit | undefined,
+    feature: Feature,
+    features: Record<string, Feature>
+  ): FeatureValue | undefined {
+    if (feature.type === "formula") {
+      if (!unit || feature.formula === undefined) return undefined;
+      return (
+        FeatureFormula.evaluate(feature.formula, unit, features) ?? undefined
+      );
+    }
+    const value = unit?.features.find((f) => f.featureId === feature.id)?.value;
+    if (feature.type === "numeric" && value === undefined) {
+      return FeatureValues.getDefaultValue(feature);
+    }
+    return value;
+  }
+
+  /**
+   * 特性是否可以用于排序单元（数值、评分、公式、日期、是/否）
+   */
+  static isSortableFeature(feature: Feature): boolean {
+    return ["numeric", "rating", "formula", "date", "boolean"].includes(
+      feature.type
+    );
+  }
+
+  /**
+   * 按特性值排序单元（不修改传入的数组）
+   * @description 没有值（或公式无法计算）的单元排在最后，值相同时保持原来的顺序
+   */
+  static sortUnitsByFeature(
+    items: UnitWithLevel[],
+    feature: Feature,
+    features: Record<string, Feature>,
+    descending: boolean
+  ): UnitWithLevel[] {
+    const keyed = items.map((item) => {
+      const value = this.getUnitFeatureValue(item.unit, feature, features);
+      return {
+        item,
+        key:
+          typeof value === "number" || typeof value === "string"
+            ? value
+            : typeof value === "boolean"
+              ? Number(value)
+              : undefined,
+      };
+    });
+    return keyed
+      .sort((a, b) => {
+        if (a.key === undefined || b.key === undefined) {
+          return a.key === undefined ? (b.key === undefined ? 0 : 1) : -1;
+        }
+        const order = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+        return descending ? -order : order;
+      })
+      .map(({ item }) => item);
+  }
+
+  /**
+   * 单元是否显示在层级中（推荐和回收站中的单元不显示）
+   */
+  static isUnitInLevelView(unit: Unit): boolean {
+    return unit.status !== "recommended" && unit.status !== "trash";
+  }
+}
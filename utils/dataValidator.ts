@@ -0,0 +1,472 @@
+import type {
+  Feature,
+  FeatureType,
+  UnitHistoryAction,
+  UnitStatus,
+} from "@/types/dataStructure";
+import { FeatureFormula } from "@/utils/featureFormula";
+import { FeatureValues } from "@/utils/featureValues";
+
+/**
+ * 校验错误
+ * @description path 为出错字段的 JSON 路径，例如 collections[2].levels[0].units[5].status
+ */
+export interface ValidationError {
+  /**
+   * 出错字段的 JSON 路径
+   */
+  path: string;
+  /**
+   * 错误说明
+   */
+  message: string;
+}
+
+const UNIT_STATUSES: UnitStatus[] = [
+  "normal",
+  "recommended",
+  "favorite",
+  "trash",
+];
+const FEATURE_TYPES: FeatureType[] = [
+  "numeric",
+  "boolean",
+  "enum",
+  "multi_select",
+  "text",
+  "date",
+  "rating",
+  "formula",
+];
+const LEVEL_IDENTIFIERS = ["numeric", "alpha"];
+const UNIT_HISTORY_ACTIONS: UnitHistoryAction[] = [
+  "statusChanged",
+  "renamed",
+  "featureChanged",
+  "moved",
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 数据校验器
+ * @description 深度校验集合、层次、单元、单元特性值和特性，返回带路径的错误列表
+ */
+export class DataValidator {
+  private errors: ValidationError[] = [];
+  private features: Record<string, Feature> = {};
+  private featureSetIds = new Set<string>();
+  private unitIds = new Map<string, string>();
+
+  /**
+   * 校验完整数据结构，返回所有错误（为空表示校验通过）
+   */
+  static validate(data: any): ValidationError[] {
+    const validator = new DataValidator();
+    validator.validateRoot(data);
+    return validator.errors;
+  }
+
+  /**
+   * 将错误列表格式化为便于展示的文本
+   */
+  static formatErrors(errors: ValidationError[]): string {
+    return errors
+      .map((error) => `${error.path || "(根节点)"}: ${error.message}`)
+      .join("\n");
+  }
+
+  private addError(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  private checkString(value: any, path: string, allowEmpty = false) {
+    if (typeof value !== "string") {
+      this.addError(path, "必须是字符串");
+    } else if (!allowEmpty && value.trim() === "") {
+      this.addError(path, "不能为空");
+    }
+  }
+
+  private checkTimestamp(value: any, path: string) {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.addError(path, "必须是时间戳数字");
+    }
+  }
+
+  private checkEnum(value: any, allowed: string[], path: string) {
+    if (!allowed.includes(value)) {
+      this.addError(path, `必须是 ${allowed.join(" / ")} 之一`);
+    }
+  }
+
+  /**
+   * 检查ID数组：元素必须是不重复的字符串
+   */
+  private checkIdArray(value: any, path: string): value is string[] {
+    if (!Array.isArray(value)) {
+      this.addError(path, "必须是数组");
+      return false;
+    }
+    const errorCount = this.errors.length;
+    value.forEach((id, index) => this.checkString(id, `${path}[${index}]`));
+    if (new Set(value).size !== value.length) {
+      this.addError(path, "不能包含重复的ID");
+    }
+    return this.errors.length === errorCount;
+  }
+
+  private validateRoot(data: any) {
+    if (!isObject(data)) {
+      this.addError("", "数据必须是对象");
+      return;
+    }
+
+    if (typeof data.schemaVersion !== "number") {
+      this.addError("schemaVersion", "必须是数字");
+    }
+
+    // 先校验特性，单元特性值的引用检查依赖特性列表
+    if (!isObject(data.features)) {
+      this.addError("features", "必须是对象");
+    } else {
+      Object.entries(data.features).forEach(([featureId, feature]) => {
+        if (this.validateFeature(feature, featureId)) {
+          this.features[featureId] = feature as Feature;
+        }
+      });
+    }
+
+    // 特性组引用特性，集合又引用特性组
+    if (!isObject(data.featureSets)) {
+      this.addError("featureSets", "必须是对象");
+    } else {
+      Object.entries(data.featureSets).forEach(([featureSetId, featureSet]) => {
+        if (this.validateFeatureSet(featureSet, featureSetId)) {
+          this.featureSetIds.add(featureSetId);
+        }
+      });
+    }
+
+    if (!Array.isArray(data.collections)) {
+      this.addError("collections", "必须是数组");
+      return;
+    }
+
+    const collectionIds = new Set<string>();
+    data.collections.forEach((collection: any, index: number) => {
+      const path = `collections[${index}]`;
+      this.validateCollection(collection, path);
+      if (isObject(collection) && typeof collection.id === "string") {
+        if (collectionIds.has(collection.id)) {
+          this.addError(`${path}.id`, `集合ID "${collection.id}" 重复`);
+        }
+        collectionIds.add(collection.id);
+      }
+    });
+  }
+
+  private validateFeature(feature: any, featureId: string): boolean {
+    const path = `features["${featureId}"]`;
+    if (!isObject(feature)) {
+      this.addError(path, "必须是对象");
+      return false;
+    }
+    const errorCount = this.errors.length;
+    this.checkString(feature.id, `${path}.id`);
+    if (typeof feature.id === "string" && feature.id !== featureId) {
+      this.addError(`${path}.id`, "必须与特性对象的 key 一致");
+    }
+    this.checkString(feature.name, `${path}.name`);
+    this.checkEnum(feature.type, FEATURE_TYPES, `${path}.type`);
+    this.checkTimestamp(feature.createdAt, `${path}.createdAt`);
+    this.checkTimestamp(feature.updatedAt, `${path}.updatedAt`);
+    if (feature.deletedAt !== undefined) {
+      this.checkTimestamp(feature.deletedAt, `${path}.deletedAt`);
+    }
+    if (FeatureValues.hasOptions(feature.type)) {
+      this.validateFeatureOptions(feature.options, `${path}.options`);
+    } else if (
+      feature.options !== undefined &&
+      !Array.isArray(feature.options)
+    ) {
+      this.addError(`${path}.options`, "必须是数组");
+    }
+    if (feature.numeric !== undefined) {
+      this.validateNumericSettings(feature.numeric, `${path}.numeric`);
+    }
+    if (feature.type === "formula" || feature.formula !== undefined) {
+      this.validateFormula(feature.formula, `${path}.formula`);
+    }
+    // 集合可能已被彻底删除，这里不检查集合ID是否存在
+    if (feature.collectionIds !== undefined) {
+      this.checkIdArray(feature.collectionIds, `${path}.collectionIds`);
+    }
+    if (
+      feature.order !== undefined &&
+      (typeof feature.order !== "number" || !Number.isFinite(feature.order))
+    ) {
+      this.addError(`${path}.order`, "必须是数字");
+    }
+    if (feature.group !== undefined) {
+      this.checkString(feature.group, `${path}.group`);
+    }
+    if (
+      feature.showOnCard !== undefined &&
+      typeof feature.showOnCard !== "boolean"
+    ) {
+      this.addError(`${path}.showOnCard`, "必须是布尔值");
+    }
+    return this.errors.length === errorCount;
+  }
+
+  private validateFormula(formula: any, path: string) {
+    if (typeof formula !== "string") {
+      this.addError(path, "公式特性必须有公式字符串");
+      return;
+    }
+    const error = FeatureFormula.check(formula);
+    if (error) {
+      this.addError(path, error);
+    }
+  }
+
+  private validateFeatureSet(featureSet: any, featureSetId: string): boolean {
+    const path = `featureSets["${featureSetId}"]`;
+    if (!isObject(featureSet)) {
+      this.addError(path, "必须是对象");
+      return false;
+    }
+    const errorCount = this.errors.length;
+    this.checkString(featureSet.id, `${path}.id`);
+    if (typeof featureSet.id === "string" && featureSet.id !== featureSetId) {
+      this.addError(`${path}.id`, "必须与特性组对象的 key 一致");
+    }
+    this.checkString(featureSet.name, `${path}.name`);
+    this.checkTimestamp(featureSet.createdAt, `${path}.createdAt`);
+    this.checkTimestamp(featureSet.updatedAt, `${path}.updatedAt`);
+    if (this.checkIdArray(featureSet.featureIds, `${path}.featureIds`)) {
+      featureSet.featureIds.forEach((featureId: string, index: number) => {
+        if (!this.features[featureId]) {
+          this.addError(
+            `${path}.featureIds[${index}]`,
+            `引用了不存在的特性 "${featureId}"`
+          );
+        }
+      });
+    }
+    return this.errors.length === errorCount;
+  }
+
+  private validateNumericSettings(settings: any, path: string) {
+    if (!isObject(settings)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    if (settings.suffix !== undefined) {
+      this.checkString(settings.suffix, `${path}.suffix`, true);
+    }
+    const error = FeatureValues.validateNumericSettings(settings);
+    if (error) {
+      this.addError(path, error);
+    }
+  }
+
+  private validateFeatureOptions(options: any, path: string) {
+    if (!Array.isArray(options)) {
+      this.addError(path, "单选、多选特性必须有选项数组");
+      return;
+    }
+    const optionIds = new Set<string>();
+    options.forEach((option: any, index: number) => {
+      const optionPath = `${path}[${index}]`;
+      if (!isObject(option)) {
+        this.addError(optionPath, "必须是对象");
+        return;
+      }
+      this.checkString(option.id, `${optionPath}.id`);
+      this.checkString(option.name, `${optionPath}.name`);
+      if (typeof option.id === "string") {
+        if (optionIds.has(option.id)) {
+          this.addError(`${optionPath}.id`, `选项ID "${option.id}" 重复`);
+        }
+        optionIds.add(option.id);
+      }
+    });
+  }
+
+  private validateCollection(collection: any, path: string) {
+    if (!isObject(collection)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    this.checkString(collection.id, `${path}.id`);
+    this.checkString(collection.name, `${path}.name`);
+    this.checkTimestamp(collection.createdAt, `${path}.createdAt`);
+    this.checkTimestamp(collection.updatedAt, `${path}.updatedAt`);
+    if (collection.deletedAt !== undefined) {
+      this.checkTimestamp(collection.deletedAt, `${path}.deletedAt`);
+    }
+    if (
+      collection.featureSetIds !== undefined &&
+      this.checkIdArray(collection.featureSetIds, `${path}.featureSetIds`)
+    ) {
+      collection.featureSetIds.forEach(
+        (featureSetId: string, index: number) => {
+          if (!this.featureSetIds.has(featureSetId)) {
+            this.addError(
+              `${path}.featureSetIds[${index}]`,
+              `引用了不存在的特性组 "${featureSetId}"`
+            );
+          }
+        }
+      );
+    }
+
+    if (!Array.isArray(collection.levels)) {
+      this.addError(`${path}.levels`, "必须是数组");
+      return;
+    }
+
+    const levelIds = new Set<string>();
+    collection.levels.forEach((level: any, index: number) => {
+      const levelPath = `${path}.levels[${index}]`;
+      this.validateLevel(level, levelPath);
+      if (isObject(level) && typeof level.id === "string") {
+        if (levelIds.has(level.id)) {
+          this.addError(`${levelPath}.id`, `层次ID "${level.id}" 重复`);
+        }
+        levelIds.add(level.id);
+      }
+    });
+  }
+
+  private validateLevel(level: any, path: string) {
+    if (!isObject(level)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    this.checkString(level.id, `${path}.id`);
+    this.checkString(level.name, `${path}.name`);
+    this.checkEnum(level.identifier, LEVEL_IDENTIFIERS, `${path}.identifier`);
+    this.checkTimestamp(level.createdAt, `${path}.createdAt`);
+    this.checkTimestamp(level.updatedAt, `${path}.updatedAt`);
+    if (level.deletedAt !== undefined) {
+      this.checkTimestamp(level.deletedAt, `${path}.deletedAt`);
+    }
+
+    if (!Array.isArray(level.units)) {
+      this.addError(`${path}.units`, "必须是数组");
+      return;
+    }
+    level.units.forEach((unit: any, index: number) => {
+      this.validateUnit(unit, `${path}.units[${index}]`);
+    });
+  }
+
+  private validateUnit(unit: any, path: string) {
+    if (!isObject(unit)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    this.checkString(unit.id, `${path}.id`);
+    if (typeof unit.id === "string") {
+      // 单元ID在全部集合中唯一，findUnit 依赖这一点
+      const existingPath = this.unitIds.get(unit.id);
+      if (existingPath) {
+        this.addError(
+          `${path}.id`,
+          `单元ID "${unit.id}" 与 ${existingPath} 重复`
+        );
+      } else {
+        this.unitIds.set(unit.id, path);
+      }
+    }
+    this.checkString(unit.name, `${path}.name`);
+    this.checkEnum(unit.status, UNIT_STATUSES, `${path}.status`);
+    this.checkTimestamp(unit.createdAt, `${path}.createdAt`);
+    this.checkTimestamp(unit.updatedAt, `${path}.updatedAt`);
+
+    if (unit.favoriteReason !== undefined) {
+      this.checkString(unit.favoriteReason, `${path}.favoriteReason`, true);
+    }
+    if (unit.favoriteCreatedAt !== undefined) {
+      this.checkTimestamp(unit.favoriteCreatedAt, `${path}.favoriteCreatedAt`);
+    }
+    if (unit.trashedAt !== undefined) {
+      this.checkTimestamp(unit.trashedAt, `${path}.trashedAt`);
+    }
+    if (unit.history !== undefined) {
+      if (Array.isArray(unit.history)) {
+        unit.history.forEach((entry: any, index: number) => {
+          this.validateUnitHistoryEntry(entry, `${path}.history[${index}]`);
+        });
+      } else {
+        this.addError(`${path}.history`, "必须是数组");
+      }
+    }
+
+    if (!Array.isArray(unit.features)) {
+      this.addError(`${path}.features`, "必须是数组");
+      return;
+    }
+    unit.features.forEach((featureValue: any, index: number) => {
+      this.validateUnitFeatureValue(featureValue, `${path}.features[${index}]`);
+    });
+  }
+
+  private validateUnitHistoryEntry(entry: any, path: string) {
+    if (!isObject(entry)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    this.checkTimestamp(entry.timestamp, `${path}.timestamp`);
+    this.checkEnum(entry.action, UNIT_HISTORY_ACTIONS, `${path}.action`);
+    if (entry.featureId !== undefined) {
+      this.checkString(entry.featureId, `${path}.featureId`);
+    }
+    // 特性可能已被删除，这里不检查 featureId 是否存在
+    ["previousValue", "newValue"].forEach((key) => {
+      const value = entry[key];
+      const isStringArray =
+        Array.isArray(value) &&
+        value.every((item: unknown) => typeof item === "string");
+      if (
+        value !== null &&
+        !isStringArray &&
+        !["string", "number", "boolean"].includes(typeof value)
+      ) {
+        this.addError(
+          `${path}.${key}`,
+          "必须是字符串、数字、布尔值、字符串数组或 null"
+        );
+      }
+    });
+  }
+
+  private validateUnitFeatureValue(featureValue: any, path: string) {
+    if (!isObject(featureValue)) {
+      this.addError(path, "必须是对象");
+      return;
+    }
+    if (typeof featureValue.featureId !== "string") {
+      this.addError(`${path}.featureId`, "必须是字符串");
+      return;
+    }
+
+    const feature = this.features[featureValue.featureId];
+    if (!feature) {
+      this.addError(
+        `${path}.featureId`,
+        `引用了不存在的特性 "${featureValue.featureId}"`
+      );
+      return;
+    }
+
+    const error = FeatureValues.validate(feature, featureValue.value);
+    if (error) {
+      this.addError(`${path}.value`, `特性"${feature.name}"的值${error}`);
+    }
+  }
+}
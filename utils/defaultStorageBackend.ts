@@ -0,0 +1,12 @@
+import { AsyncStorageBackend } from "@/utils/asyncStorageBackend";
+import { SqliteStorageBackend } from "@/utils/sqliteStore";
+import type { StorageBackend } from "@/utils/storageBackend";
+
+/**
+ * 应用默认的存储后端
+ * @description 设置环境变量 EXPO_PUBLIC_STORAGE_BACKEND=sqlite 时使用 SQLite 规范化存储，并从 AsyncStorage 迁移已有数据
+ */
+export const defaultStorageBackend: StorageBackend =
+  process.env.EXPO_PUBLIC_STORAGE_BACKEND === "sqlite"
+    ? new SqliteStorageBackend(undefined, new AsyncStorageBackend())
+    : new AsyncStorageBackend();
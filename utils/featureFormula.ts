@@ -0,0 +1,616 @@
+import type {
+  Feature,
+  FeatureType,
+  FeatureValue,
+  Unit,
+} from "@/types/dataStructure";
+
+/**
+ * 公式中可以引用的特性类型
+ * @description 数值取单元的值（没有设置时为默认值）；评分没有设置时为 0；
+ * 是/否为布尔值（没有设置时为否）；多选为选中的选项数量
+ */
+export const FORMULA_REFERENCE_TYPES: FeatureType[] = [
+  "numeric",
+  "rating",
+  "boolean",
+  "multi_select",
+];
+
+/**
+ * 公式结果显示的最多小数位数
+ */
+export const FORMULA_DECIMALS = 2;
+
+/**
+ * 公式中可用的函数
+ */
+const FORMULA_FUNCTIONS: Record<string, (args: number[]) => number> = {
+  min: (args) => Math.min(...args),
+  max: (args) => Math.max(...args),
+  sum: (args) => args.reduce((total, value) => total + value, 0),
+  avg: (args) =>
+    args.length > 0
+      ? args.reduce((total, value) => total + value, 0) / args.length
+      : 0,
+  abs: (args) => Math.abs(args[0]),
+  round: (args) => {
+    const factor = 10 ** (args[1] ?? 0);
+    return Math.round(args[0] * factor) / factor;
+  },
+  floor: (args) => Math.floor(args[0]),
+  ceil: (args) => Math.ceil(args[0]),
+};
+
+// 单参数函数和 round（1 到 2 个参数），其余函数至少 1 个参数
+const FUNCTION_ARITY: Record<string, [number, number]> = {
+  abs: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  round: [1, 2],
+};
+
+type FormulaScalar = number | boolean;
+
+type Token =
+  | { kind: "number"; value: number; start: number; end: number }
+  | { kind: "name"; name: string; start: number; end: number }
+  | { kind: "ref"; name: string; start: number; end: number }
+  | { kind: "id"; id: string; start: number; end: number }
+  | { kind: "op"; op: string; start: number; end: number };
+
+type FormulaNode =
+  | { kind: "literal"; value: FormulaScalar }
+  | { kind: "feature"; featureId: string }
+  | { kind: "unary"; op: string; operand: FormulaNode }
+  | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | {
+      kind: "conditional";
+      test: FormulaNode;
+      consequent: FormulaNode;
+      alternate: FormulaNode;
+    }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+// 按长度从长到短匹配
+const OPERATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "!",
+  "?",
+  ":",
+  "(",
+  ")",
+  ",",
+];
+
+// 名称（特性名称、函数名）不能包含的字符
+const NAME_STOP_CHARS = new Set(" \t\r\n+-*/%<>=!&|?:(),[]{}");
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+/**
+ * 公式解析或计算错误
+ */
+class FormulaError extends Error {}
+
+/**
+ * 将公式文本拆分为记号
+ * @description 特性引用写作 [特性名称]（名称中没有空格和运算符时可以省略方括号），
+ * 保存后的公式中写作 {特性ID}
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (char === "[" || char === "{") {
+      const close = char === "[" ? "]" : "}";
+      const end = source.indexOf(close, i + 1);
+      if (end === -1) {
+        throw new FormulaError(`缺少与 ${char} 对应的 ${close}`);
+      }
+      const text = source.slice(i + 1, end).trim();
+      if (text === "") {
+        throw new FormulaError(`${char}${close} 中缺少特性`);
+      }
+      tokens.push(
+        char === "["
+          ? { kind: "ref", name: text, start, end: end + 1 }
+          : { kind: "id", id: text, start, end: end + 1 }
+      );
+      i = end + 1;
+      continue;
+    }
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+    if (numberMatch) {
+      i += numberMatch[0].length;
+      tokens.push({
+        kind: "number",
+        value: Number(numberMatch[0]),
+        start,
+        end: i,
+      });
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (op) {
+      i += op.length;
+      tokens.push({ kind: "op", op, start, end: i });
+      continue;
+    }
+    if (char === "]" || char === "}") {
+      throw new FormulaError(`多余的 ${char}`);
+    }
+    while (i < source.length && !NAME_STOP_CHARS.has(source[i])) {
+      i++;
+    }
+    if (i === start) {
+      throw new FormulaError(`无法识别的字符 ${char}`);
+    }
+    tokens.push({ kind: "name", name: source.slice(start, i), start, end: i });
+  }
+  return tokens;
+};
+
+/**
+ * 递归下降解析器
+ * @description resolveName 把特性名称解析为特性ID，返回 undefined 时报错
+ */
+class FormulaParser {
+  private position = 0;
+  /**
+   * 按名称引用特性的记号及解析出的特性ID
+   */
+  readonly resolvedTokens = new Map<Token, string>();
+
+  constructor(
+    private tokens: Token[],
+    private resolveName: (name: string) => string | undefined
+  ) {}
+
+  parse(): FormulaNode {
+    if (this.tokens.length === 0) {
+      throw new FormulaError("公式不能为空");
+    }
+    const node = this.parseConditional();
+    const extra = this.tokens[this.position];
+    if (extra) {
+      throw new FormulaError(`第 ${extra.start + 1} 个字符附近有多余的内容`);
+    }
+    return node;
+  }
+
+  private peekOp(): string | undefined {
+    const token = this.tokens[this.position];
+    return token?.kind === "op" ? token.op : undefined;
+  }
+
+  private expectOp(op: string) {
+    if (this.peekOp() !== op) {
+      throw new FormulaError(`缺少 ${op}`);
+    }
+    this.position++;
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseBinary(1);
+    if (this.peekOp() !== "?") return test;
+    this.position++;
+    const consequent = this.parseConditional();
+    this.expectOp(":");
+    const alternate = this.parseConditional();
+    return { kind: "conditional", test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.peekOp();
+      const precedence = op ? BINARY_PRECEDENCE[op] : undefined;
+      if (!op || precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.position++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: "binary", op, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const op = this.peekOp();
+    if (op === "!" || op === "-") {
+      this.position++;
+      return { kind: "unary", op, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new FormulaError("公式不完整");
+    }
+    this.position++;
+    switch (token.kind) {
+      case "number":
+        return { kind: "literal", value: token.value };
+      case "id":
+        return { kind: "feature", featureId: token.id };
+      case "ref":
+        return { kind: "feature", featureId: this.resolve(token) };
+      case "name":
+        if (token.name === "true" || token.name === "false") {
+          return { kind: "literal", value: token.name === "true" };
+        }
+        if (this.peekOp() === "(") {
+          return this.parseCall(token.name);
+        }
+        return { kind: "feature", featureId: this.resolve(token) };
+      default:
+        if (token.op === "(") {
+          const node = this.parseConditional();
+          this.expectOp(")");
+          return node;
+        }
+        throw new FormulaError(`第 ${token.start + 1} 个字符附近缺少数值`);
+    }
+  }
+
+  private parseCall(name: string): FormulaNode {
+    if (
+      name !== "count" &&
+      !Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name)
+    ) {
+      throw new FormulaError(`未知的函数 ${name}`);
+    }
+    this.expectOp("(");
+    const args: FormulaNode[] = [];
+    if (this.peekOp() !== ")") {
+      args.push(this.parseConditional());
+      while (this.peekOp() === ",") {
+        this.position++;
+        args.push(this.parseConditional());
+      }
+    }
+    this.expectOp(")");
+    const [minArgs, maxArgs] = FUNCTION_ARITY[name] ?? [1, Infinity];
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw new FormulaError(
+        minArgs === maxArgs
+          ? `${name} 需要 ${minArgs} 个参数`
+          : maxArgs === Infinity
+            ? `${name} 至少需要 ${minArgs} 个参数`
+            : `${name} 需要 ${minArgs} 到 ${maxArgs} 个参数`
+      );
+    }
+    return { kind: "call", name, args };
+  }
+
+  private resolve(token: Token & { name: string }): string {
+    const featureId = this.resolveName(token.name);
+    if (featureId === undefined) {
+      throw new FormulaError(`没有名为"${token.name}"的特性`);
+    }
+    this.resolvedTokens.set(token, featureId);
+    return featureId;
+  }
+}
+
+// 已解析的公式，读取单元列表时同一个公式只解析一次
+const parsedFormulas = new Map<string, FormulaNode | FormulaError>();
+
+/**
+ * 解析保存的公式（特性引用均为 {特性ID}）
+ */
+const parseStored = (formula: string): FormulaNode => {
+  let parsed = parsedFormulas.get(formula);
+  if (!parsed) {
+    try {
+      parsed = new FormulaParser(tokenize(formula), () => undefined).parse();
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      parsed = error;
+    }
+    parsedFormulas.set(formula, parsed);
+  }
+  if (parsed instanceof FormulaError) {
+    throw parsed;
+  }
+  return parsed;
+};
+
+const toNumber = (value: FormulaScalar): number =>
+  typeof value === "boolean" ? (value ? 1 : 0) : value;
+
+const isTruthy = (value: FormulaScalar): boolean =>
+  typeof value === "boolean" ? value : value !== 0;
+
+/**
+ * 公式特性
+ * @description 公式特性的值由同一单元中其他特性的值计算得出，不保存在单元中，每次读取时按单元当前的特性值重新计算。
+ * 公式支持数字、true/false、+ - * / %、比较、&& || !、条件表达式 a ? b : c，
+ * 以及函数 min、max、sum、avg、abs、round、floor、ceil、count（统计为真或非零的参数个数）
+ */
+export class FeatureFormula {
+  /**
+   * 编译用户输入的公式：按名称解析特性引用，返回以特性ID保存的公式
+   * @param features 可引用的特性（通常为未删除的特性）
+   * @param selfId 正在编辑的特性ID，公式不能引用自己
+   */
+  static compile(
+    text: string,
+    features: Feature[],
+    selfId?: string
+  ): { formula: string } | { error: string } {
+    try {
+      const tokens = tokenize(text);
+      const parser = new FormulaParser(
+        tokens,
+        (name) => features.find((f) => f.name === name)?.id
+      );
+      const node = parser.parse();
+
+      const ids = new Set<string>();
+      this.collectFeatureIds(node, ids);
+      for (const featureId of ids) {
+        const feature = features.find((f) => f.id === featureId);
+        if (featureId === selfId) {
+          return { error: "公式不能引用自己" };
+        }
+        if (!feature) {
+          return { error: `引用了不存在的特性 "${featureId}"` };
+        }
+        if (!FORMULA_REFERENCE_TYPES.includes(feature.type)) {
+          return { error: `公式不能引用特性"${feature.name}"（类型不支持）` };
+        }
+      }
+
+      // 把按名称的引用替换为 {特性ID}，其余文字保持不变
+      let formula = "";
+      let cursor = 0;
+      tokens.forEach((token) => {
+        const featureId = parser.resolvedTokens.get(token);
+        if (featureId === undefined) return;
+        formula += `${text.slice(cursor, token.start)}{${featureId}}`;
+        cursor = token.end;
+      });
+      formula += text.slice(cursor);
+      return { formula: formula.trim() };
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return { error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 检查保存的公式，返回错误说明（为 null 表示有效）
+   * @description 不检查引用的特性是否存在：被彻底删除的特性会使公式无法计算，但不影响数据有效性
+   */
+  static check(formula: string): string | null {
+    try {
+      parseStored(formula);
+      return null;
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 将保存的公式转换为便于编辑的文字（{特性ID} 替换为 [特性名称]）
+   */
+  static toDisplay(formula: string, features: Record<string, Feature>): string {
+    return formula.replace(
+      /\{([^}]*)\}/g,
+      (_match, featureId: string) =>
+        `[${features[featureId.trim()]?.name ?? "已删除的特性"}]`
+    );
+  }
+
+  /**
+   * 获取公式引用的特性ID
+   */
+  static getReferencedIds(formula: string): string[] {
+    try {
+      const ids = new Set<string>();
+      this.collectFeatureIds(parseStored(formula), ids);
+      return Array.from(ids);
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 替换保存的公式中引用的特性ID（如导入时特性换了新ID）
+   * @param mapId 返回新的特性ID；公式无法解析时原样返回
+   */
+  static remapIds(formula: string, mapId: (featureId: string) => string) {
+    const ids = new Set(this.getReferencedIds(formula));
+    if (ids.size === 0) return formula;
+    return formula.replace(/\{([^}]*)\}/g, (match, featureId: string) =>
+      ids.has(featureId.trim()) ? `{${mapId(featureId.trim())}}` : match
+    );
+  }
+
+  /**
+   * 按单元当前的特性值计算公式
+   * @description 引用的特性不存在、类型不支持、除以 0 或结果不是有限数字时返回 null；布尔结果转为 1 或 0
+   */
+  static evaluate(
+    formula: string,
+    unit: Unit,
+    features: Record<string, Feature>
+  ): number | null {
+    try {
+      const node = parseStored(formula);
+      const result = toNumber(this.evaluateNode(node, unit, features));
+      return Number.isFinite(result) ? result : null;
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private static collectFeatureIds(node: FormulaNode, ids: Set<string>) {
+    switch (node.kind) {
+      case "feature":
+        ids.add(node.featureId);
+        break;
+      case "unary":
+        this.collectFeatureIds(node.operand, ids);
+        break;
+      case "binary":
+        this.collectFeatureIds(node.left, ids);
+        this.collectFeatureIds(node.right, ids);
+        break;
+      case "conditional":
+        this.collectFeatureIds(node.test, ids);
+        this.collectFeatureIds(node.consequent, ids);
+        this.collectFeatureIds(node.alternate, ids);
+        break;
+      case "call":
+        node.args.forEach((arg) => this.collectFeatureIds(arg, ids));
+        break;
+    }
+  }
+
+  /**
+   * 读取公式中引用的特性在单元中的值
+   */
+  private static readFeature(
+    feature: Feature | undefined,
+    unit: Unit
+  ): FormulaScalar {
+    if (!feature) {
+      throw new FormulaError("引用的特性不存在");
+    }
+    const value: FeatureValue | undefined = unit.features.find(
+      (f) => f.featureId === feature.id
+    )?.value;
+    switch (feature.type) {
+      case "numeric":
+        return typeof value === "number"
+          ? value
+          : (feature.numeric?.defaultValue ?? 0);
+      case "rating":
+        return typeof value === "number" ? value : 0;
+      case "boolean":
+        return value === true;
+      case "multi_select":
+        return Array.isArray(value) ? value.length : 0;
+      default:
+        throw new FormulaError(`不能引用特性"${feature.name}"`);
+    }
+  }
+
+  private static evaluateNode(
+    node: FormulaNode,
+    unit: Unit,
+    features: Record<string, Feature>
+  ): FormulaScalar {
+    const evaluate = (child: FormulaNode) =>
+      this.evaluateNode(child, unit, features);
+    switch (node.kind) {
+      case "literal":
+        return node.value;
+      case "feature":
+        return this.readFeature(features[node.featureId], unit);
+      case "unary": {
+        const operand = evaluate(node.operand);
+        return node.op === "!" ? !isTruthy(operand) : -toNumber(operand);
+      }
+      case "conditional":
+        return isTruthy(evaluate(node.test))
+          ? evaluate(node.consequent)
+          : evaluate(node.alternate);
+      case "call": {
+        const args = node.args.map(evaluate);
+        if (node.name === "count") {
+          return args.filter(isTruthy).length;
+        }
+        return FORMULA_FUNCTIONS[node.name](args.map(toNumber));
+      }
+      case "binary": {
+        // && 和 || 只在需要时计算右侧
+        if (node.op === "&&") {
+          return (
+            isTruthy(evaluate(node.left)) && isTruthy(evaluate(node.right))
+          );
+        }
+        if (node.op === "||") {
+          return (
+            isTruthy(evaluate(node.left)) || isTruthy(evaluate(node.right))
+          );
+        }
+        const left = toNumber(evaluate(node.left));
+        const right = toNumber(evaluate(node.right));
+        switch (node.op) {
+          case "+":
+            return left + right;
+          case "-":
+            return left - right;
+          case "*":
+            return left * right;
+          case "/":
+          case "%":
+            if (right === 0) {
+              throw new FormulaError("除数不能为 0");
+            }
+            return node.op === "/" ? left / right : left % right;
+          case "==":
+            return left === right;
+          case "!=":
+            return left !== right;
+          case "<":
+            return left < right;
+          case "<=":
+            return left <= right;
+          case ">":
+            return left > right;
+          default:
+            return left >= right;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,423 @@
+import type {
+  Feature,
+  FeatureOption,
+  FeatureType,
+  FeatureValue,
+  NumericSettings,
+} from "@/types/dataStructure";
+import { FORMULA_DECIMALS } from "@/utils/featureFormula";
+
+/**
+ * 特性类型的显示名称（按创建特性时的显示顺序排列）
+ */
+export const FEATURE_TYPE_LABELS: Record<FeatureType, string> = {
+  numeric: "数值",
+  boolean: "是/否",
+  enum: "单选",
+  multi_select: "多选",
+  text: "文本",
+  date: "日期",
+  rating: "评分",
+  formula: "公式",
+};
+
+/**
+ * 评分特性的最高分（星级）
+ */
+export const RATING_MAX = 5;
+
+/**
+ * 数值特性没有设置最小值、最大值时，选择器显示的范围
+ */
+export const DEFAULT_NUMERIC_PICKER_RANGE = { min: 0, max: 30 };
+
+/**
+ * 选择器最多显示的可选值数量，超过时只能手动输入
+ */
+export const MAX_NUMERIC_CHOICES = 200;
+
+/**
+ * 小数位数的上限
+ */
+export const MAX_NUMERIC_DECIMALS = 6;
+
+/**
+ * CSV 中多选特性的选项分隔符，选项名称不能包含该字符
+ */
+export const MULTI_SELECT_SEPARATOR = "|";
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * 特性值规则
+ * @description 按特性类型校验、格式化、解析特性值；单选、多选特性的值引用选项ID
+ */
+export class FeatureValues {
+  /**
+   * 特性类型是否需要定义选项（单选、多选）
+   */
+  static hasOptions(type: FeatureType): boolean {
+    return type === "enum" || type === "multi_select";
+  }
+
+  /**
+   * 获取特性的选项
+   */
+  static getOption(
+    feature: Feature,
+    optionId: string
+  ): FeatureOption | undefined {
+    return feature.options?.find((option) => option.id === optionId);
+  }
+
+  /**
+   * 获取数值特性的默认值（单元没有设置时视为此值）
+   */
+  static getDefaultValue(feature: Feature): number {
+    return feature.numeric?.defaultValue ?? 0;
+  }
+
+  /**
+   * 按小数位数格式化数字（不含单位）
+   */
+  static formatNumber(feature: Feature, value: number): string {
+    const decimals = feature.numeric?.decimals;
+    return decimals !== undefined ? value.toFixed(decimals) : String(value);
+  }
+
+  /**
+   * 生成数值选择器的可选值：从最小值开始按步长递增到最大值
+   * @description 可选值超过 MAX_NUMERIC_CHOICES 个时返回 null，此时只能手动输入
+   */
+  static getNumericChoices(feature: Feature): number[] | null {
+    const settings = feature.numeric ?? {};
+    const min = settings.min ?? DEFAULT_NUMERIC_PICKER_RANGE.min;
+    const max = settings.max ?? Math.max(DEFAULT_NUMERIC_PICKER_RANGE.max, min);
+    const step = settings.step ?? 1;
+    if (!(step > 0) || max < min) return null;
+    const count = Math.floor((max - min) / step + 1e-9) + 1;
+    if (count > MAX_NUMERIC_CHOICES) return null;
+    const decimals = this.getStepDecimals(settings, step);
+    return Array.from({ length: count }, (_, i) =>
+      Number((min + i * step).toFixed(decimals))
+    );
+  }
+
+  /**
+   * 按步长取值时使用的小数位数：设置了小数位数时取该值，否则取步长的小数位数
+   * @description 按该位数取整可以避免 0.1 + 0.2 之类的浮点误差
+   */
+  private static getStepDecimals(
+    settings: NumericSettings,
+    step: number
+  ): number {
+    return settings.decimals ?? (String(step).split(".")[1] ?? "").length;
+  }
+
+  /**
+   * 将数字取到最近的步长位置（从最小值开始，没有最小值时从 0 开始），与选择器的可选值一致
+   */
+  private static snapToStep(
+    settings: NumericSettings,
+    step: number,
+    value: number
+  ): number {
+    const base = settings.min ?? 0;
+    return Number(
+      (base + Math.round((value - base) / step) * step).toFixed(
+        this.getStepDecimals(settings, step)
+      )
+    );
+  }
+
+  /**
+   * 校验数值特性的设置，返回错误说明（为 null 表示有效）
+   */
+  static validateNumericSettings(settings: NumericSettings): string | null {
+    const { min, max, step, decimals, defaultValue } = settings;
+    const numbers = {
+      最小值: min,
+      最大值: max,
+      步长: step,
+      默认值: defaultValue,
+    };
+    for (const [label, value] of Object.entries(numbers)) {
+      if (value !== undefined && !Number.isFinite(value)) {
+        return `${label}必须是数字`;
+      }
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      return "最小值不能大于最大值";
+    }
+    if (step !== undefined && step <= 0) return "步长必须大于 0";
+    if (
+      decimals !== undefined &&
+      (!Number.isInteger(decimals) ||
+        decimals < 0 ||
+        decimals > MAX_NUMERIC_DECIMALS)
+    ) {
+      return `小数位数必须是 0 到 ${MAX_NUMERIC_DECIMALS} 的整数`;
+    }
+    if (defaultValue !== undefined) {
+      const error = this.validateNumber(settings, defaultValue);
+      if (error) return `默认值${error}`;
+    }
+    return null;
+  }
+
+  /**
+   * 按数值设置校验数字（范围、小数位数和步长）
+   */
+  private static validateNumber(
+    settings: NumericSettings,
+    value: number
+  ): string | null {
+    if (settings.min !== undefined && value < settings.min) {
+      return `不能小于 ${settings.min}`;
+    }
+    if (settings.max !== undefined && value > settings.max) {
+      return `不能大于 ${settings.max}`;
+    }
+    if (
+      settings.decimals !== undefined &&
+      Number(value.toFixed(settings.decimals)) !== value
+    ) {
+      return settings.decimals === 0
+        ? "必须是整数"
+        : `最多 ${settings.decimals} 位小数`;
+    }
+    const { step } = settings;
+    if (
+      step !== undefined &&
+      step > 0 &&
+      this.snapToStep(settings, step, value) !== value
+    ) {
+      return `必须是从 ${settings.min ?? 0} 开始、以 ${step} 为步长的值`;
+    }
+    return null;
+  }
+
+  /**
+   * 是否为有效的 YYYY-MM-DD 日期
+   */
+  static isValidDate(text: string): boolean {
+    const match = DATE_PATTERN.exec(text);
+    if (!match) return false;
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return (
+      date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day
+    );
+  }
+
+  /**
+   * 获取今天的日期（YYYY-MM-DD，本地时间）
+   */
+  static today(now: Date = new Date()): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(
+      now.getDate()
+    )}`;
+  }
+
+  /**
+   * 校验特性值，返回错误说明（为 null 表示有效）
+   */
+  static validate(feature: Feature, value: unknown): string | null {
+    switch (feature.type) {
+      case "numeric":
+        return typeof value === "number" && Number.isFinite(value)
+          ? this.validateNumber(feature.numeric ?? {}, value)
+          : "必须是数字";
+      case "boolean":
+        return typeof value === "boolean" ? null : "必须是布尔值";
+      case "enum":
+        if (typeof value !== "string") return "必须是选项ID";
+        return this.getOption(feature, value)
+          ? null
+          : `引用了不存在的选项 "${value}"`;
+      case "multi_select": {
+        if (
+          !Array.isArray(value) ||
+          value.some((item) => typeof item !== "string")
+        ) {
+          return "必须是选项ID数组";
+        }
+        const missing = value.find((item) => !this.getOption(feature, item));
+        if (missing !== undefined) return `引用了不存在的选项 "${missing}"`;
+        return new Set(value).size === value.length ? null : "选项不能重复";
+      }
+      case "text":
+        return typeof value === "string" ? null : "必须是字符串";
+      case "date":
+        return typeof value === "string" && this.isValidDate(value)
+          ? null
+          : "必须是 YYYY-MM-DD 格式的日期";
+      case "rating":
+        return typeof value === "number" &&
+          Number.isInteger(value) &&
+          value >= 1 &&
+          value <= RATING_MAX
+          ? null
+          : `必须是 1 到 ${RATING_MAX} 的整数`;
+      case "formula":
+        return "由公式计算，不能直接设置";
+      default:
+        return "特性类型无效";
+    }
+  }
+
+  /**
+   * 比较两个特性值是否相同（多选按数组内容比较）
+   */
+  static isEqual(
+    a: FeatureValue | null | undefined,
+    b: FeatureValue | null | undefined
+  ): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => item === b[i]);
+    }
+    return a === b;
+  }
+
+  /**
+   * 将特性值转换为特性当前的类型和选项
+   * @description 用于修改特性类型、选项或数值设置之后：单选与多选互相转换，多选中已删除的选项被移除，
+   * 数值限制到新的范围、小数位数和步长，数值转为文本；无法转换时返回 undefined，表示应清除该值
+   */
+  static normalize(
+    feature: Feature,
+    value: FeatureValue
+  ): FeatureValue | undefined {
+    if (feature.type === "multi_select") {
+      const items = (Array.isArray(value) ? value : [value]).filter(
+        (item): item is string =>
+          typeof item === "string" && !!this.getOption(feature, item)
+      );
+      return items.length > 0 ? Array.from(new Set(items)) : undefined;
+    }
+    if (feature.type === "enum" && Array.isArray(value)) {
+      return value.find((item) => !!this.getOption(feature, item));
+    }
+    if (feature.type === "numeric" && typeof value === "number") {
+      const settings = feature.numeric ?? {};
+      const { min, max, step, decimals } = settings;
+      let result = value;
+      if (decimals !== undefined) result = Number(result.toFixed(decimals));
+      if (min !== undefined) result = Math.max(min, result);
+      if (max !== undefined) result = Math.min(max, result);
+      if (step !== undefined && step > 0) {
+        result = this.snapToStep(settings, step, result);
+        // 最大值不在步长位置上时，取不超过最大值的最后一个位置
+        if (max !== undefined && result > max) {
+          result = this.snapToStep(settings, step, result - step);
+        }
+      }
+      return this.validate(feature, result) === null ? result : undefined;
+    }
+    if (feature.type === "text" && typeof value === "number") {
+      return String(value);
+    }
+    return this.validate(feature, value) === null ? value : undefined;
+  }
+
+  /**
+   * 生成特性值的显示文字，例如 “85 分”、“★★★☆☆”、“红色、蓝色”
+   * @description 已删除的选项显示为“(已删除的选项)”
+   */
+  static format(feature: Feature | undefined, value: FeatureValue): string {
+    const optionName = (optionId: string) =>
+      (feature && this.getOption(feature, optionId)?.name) ?? "(已删除的选项)";
+
+    if (typeof value === "boolean") return value ? "是" : "否";
+    if (Array.isArray(value)) return value.map(optionName).join("、");
+    if (feature?.type === "enum") return optionName(String(value));
+    if (feature?.type === "numeric" && typeof value === "number") {
+      return `${this.formatNumber(feature, value)}${feature.numeric?.suffix ?? ""}`;
+    }
+    if (feature?.type === "formula" && typeof value === "number") {
+      return String(Number(value.toFixed(FORMULA_DECIMALS)));
+    }
+    if (feature?.type === "rating" && typeof value === "number") {
+      const stars = Math.max(0, Math.min(RATING_MAX, Math.round(value)));
+      return "★".repeat(stars) + "☆".repeat(RATING_MAX - stars);
+    }
+    return String(value);
+  }
+
+  /**
+   * 将特性值转换为 CSV 单元格文本
+   * @description 单选、多选导出选项名称（多选用 | 分隔），是/否导出 true/false，其余原样导出
+   */
+  static serialize(feature: Feature, value: FeatureValue): string {
+    const optionName = (optionId: string) =>
+      this.getOption(feature, optionId)?.name ?? optionId;
+
+    if (Array.isArray(value)) {
+      return value.map(optionName).join(MULTI_SELECT_SEPARATOR);
+    }
+    if (feature.type === "enum") return optionName(String(value));
+    return String(value);
+  }
+
+  /**
+   * 解析 CSV 单元格文本为特性值
+   * @description 单选、多选按选项名称匹配；返回 error 时表示文本无效
+   */
+  static parse(
+    feature: Feature,
+    text: string
+  ): { value: FeatureValue } | { error: string } {
+    const findOptionId = (name: string) =>
+      feature.options?.find((option) => option.name === name)?.id;
+
+    switch (feature.type) {
+      case "numeric": {
+        const value = Number(text);
+        const error = this.validate(feature, value);
+        return error === null ? { value } : { error };
+      }
+      case "boolean":
+        return /^(true|false)$/i.test(text)
+          ? { value: text.toLowerCase() === "true" }
+          : { error: "必须是 true 或 false" };
+      case "enum": {
+        const optionId = findOptionId(text);
+        return optionId !== undefined
+          ? { value: optionId }
+          : { error: `没有名为"${text}"的选项` };
+      }
+      case "multi_select": {
+        const names = text
+          .split(MULTI_SELECT_SEPARATOR)
+          .map((name) => name.trim())
+          .filter((name) => name !== "");
+        const missing = names.find((name) => findOptionId(name) === undefined);
+        if (missing !== undefined) {
+          return { error: `没有名为"${missing}"的选项` };
+        }
+        return {
+          value: Array.from(new Set(names.map((name) => findOptionId(name)!))),
+        };
+      }
+      case "text":
+        return { value: text };
+      case "date":
+        return this.isValidDate(text)
+          ? { value: text }
+          : { error: "必须是 YYYY-MM-DD 格式的日期" };
+      case "rating": {
+        const value = Number(text);
+        return this.validate(feature, value) === null
+          ? { value }
+          : { error: `必须是 1 到 ${RATING_MAX} 的整数` };
+      }
+      case "formula":
+        return { error: "由公式计算，不能直接设置" };
+      default:
+        return { error: "特性类型无效" };
+    }
+  }
+}
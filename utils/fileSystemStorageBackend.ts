@@ -0,0 +1,67 @@
+import * as FileSystem from "expo-file-system";
+
+import type { StorageBackend } from "@/utils/storageBackend";
+
+/**
+ * 文件存储后端
+ * @description 每个键保存为目录中的一个文件，适合单个值较大、超出 AsyncStorage 限制的情况
+ */
+export class FileSystemStorageBackend implements StorageBackend {
+  private directoryReady: Promise<void> | null = null;
+
+  /**
+   * @param directory 存储目录，默认为应用文档目录下的 storage 文件夹
+   */
+  constructor(
+    private directory: string = `${FileSystem.documentDirectory}storage/`
+  ) {}
+
+  /**
+   * 键中可能包含 “:” 等不能用于文件名的字符，编码后作为文件名
+   */
+  private getFileUri(key: string): string {
+    return `${this.directory}${encodeURIComponent(key)}.json`;
+  }
+
+  /**
+   * 确保存储目录存在（只检查一次）
+   */
+  private ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      this.directoryReady = (async () => {
+        const info = await FileSystem.getInfoAsync(this.directory);
+        if (!info.exists) {
+          await FileSystem.makeDirectoryAsync(this.directory, {
+            intermediates: true,
+          });
+        }
+      })().catch((error) => {
+        this.directoryReady = null;
+        throw error;
+      });
+    }
+    return this.directoryReady;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const uri = this.getFileUri(key);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+      return null;
+    }
+    return FileSystem.readAsStringAsync(uri);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.ensureDirectory();
+    await FileSystem.writeAsStringAsync(this.getFileUri(key), value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await FileSystem.deleteAsync(this.getFileUri(key), { idempotent: true });
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.removeItem(key)));
+  }
+}
@@ -0,0 +1,35 @@
+import type { DataStructure } from "@/types/dataStructure";
+
+/**
+ * 收集数据中已使用的全部ID（特性、特性组、集合、层次、单元）
+ */
+export const collectUsedIds = (data: DataStructure): Set<string> => {
+  const usedIds = new Set<string>([
+    ...Object.keys(data.features),
+    ...Object.keys(data.featureSets),
+  ]);
+  data.collections.forEach((collection) => {
+    usedIds.add(collection.id);
+    collection.levels.forEach((level) => {
+      usedIds.add(level.id);
+      level.units.forEach((unit) => usedIds.add(unit.id));
+    });
+  });
+  return usedIds;
+};
+
+/**
+ * 生成不与已有ID冲突的新ID，并记录到 usedIds 中
+ * @description 批量创建时同一毫秒内会追加序号，例如 1700000000000-1
+ */
+export const generateUniqueId = (usedIds: Set<string>): string => {
+  const base = Date.now().toString();
+  let id = base;
+  let suffix = 0;
+  while (usedIds.has(id)) {
+    suffix++;
+    id = `${base}-${suffix}`;
+  }
+  usedIds.add(id);
+  return id;
+};
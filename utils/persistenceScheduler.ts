@@ -0,0 +1,137 @@
+import { AppState, type NativeEventSubscription } from "react-native";
+
+/**
+ * 最后一次修改后延迟写入的时间（毫秒）
+ */
+export const DEFAULT_SAVE_DELAY = 300;
+
+/**
+ * 写入函数
+ * @description changedCollectionIds 为上次写入后修改过的集合ID；为 null 时表示需要完整写入
+ */
+export type PersistWriter = (
+  changedCollectionIds: string[] | null
+) => Promise<void>;
+
+/**
+ * 持久化调度器
+ * @description 记录哪些集合有未保存的修改，连续修改合并为一次延迟写入；
+ * 写入进行中产生的修改会在本次写入完成后再写一次，不会丢失；应用切到后台时立即写入
+ */
+export class PersistenceScheduler {
+  private static instances = new Set<PersistenceScheduler>();
+  private static appStateSubscription: NativeEventSubscription | null = null;
+
+  private dirtyCollectionIds = new Set<string>();
+  private fullWriteRequired = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(
+    private writer: PersistWriter,
+    private delay: number = DEFAULT_SAVE_DELAY
+  ) {
+    PersistenceScheduler.instances.add(this);
+    PersistenceScheduler.ensureAppStateListener();
+  }
+
+  /**
+   * 立即写入所有调度器中未保存的修改
+   * @description 加载数据前调用，确保读取到其他页面刚做的修改
+   */
+  static async flushAll(): Promise<void> {
+    await Promise.all(
+      [...this.instances].map((scheduler) =>
+        scheduler.flush().catch(() => undefined)
+      )
+    );
+  }
+
+  /**
+   * 应用切到后台或不活跃时写入所有未保存的修改（全局只注册一次）
+   */
+  private static ensureAppStateListener(): void {
+    if (this.appStateSubscription) return;
+    this.appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") {
+        this.flushAll();
+      }
+    });
+  }
+
+  /**
+   * 标记有未保存的修改，并重新开始延迟计时
+   * @param collectionId 修改的集合ID；不传表示修改范围未知，需要完整写入
+   */
+  markDirty(collectionId?: string): void {
+    if (collectionId) {
+      this.dirtyCollectionIds.add(collectionId);
+    } else {
+      this.fullWriteRequired = true;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // 错误已在 flush 中记录，这里不再处理
+      this.flush().catch(() => undefined);
+    }, this.delay);
+  }
+
+  /**
+   * 是否有未保存的修改
+   */
+  isDirty(): boolean {
+    return this.fullWriteRequired || this.dirtyCollectionIds.size > 0;
+  }
+
+  /**
+   * 立即写入未保存的修改
+   * @description 有写入正在进行时，等它完成后再写入之后产生的修改
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+      return this.flush();
+    }
+    if (!this.isDirty()) return;
+
+    const changedCollectionIds = this.fullWriteRequired
+      ? null
+      : [...this.dirtyCollectionIds];
+    this.dirtyCollectionIds.clear();
+    this.fullWriteRequired = false;
+
+    this.inFlight = this.writer(changedCollectionIds)
+      .catch((error) => {
+        // 写入失败时恢复未保存标记，下次修改或 flush 时重试
+        if (changedCollectionIds) {
+          changedCollectionIds.forEach((id) => this.dirtyCollectionIds.add(id));
+        } else {
+          this.fullWriteRequired = true;
+        }
+        console.error("保存数据失败:", error);
+        throw error;
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+    return this.inFlight;
+  }
+
+  /**
+   * 写入未保存的修改并停止调度（页面卸载时调用）
+   */
+  async dispose(): Promise<void> {
+    try {
+      await this.flush();
+    } finally {
+      PersistenceScheduler.instances.delete(this);
+    }
+  }
+}
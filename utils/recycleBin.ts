@@ -0,0 +1,113 @@
+import type { DataStructure } from "@/types/dataStructure";
+
+/**
+ * 回收站默认保留天数
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * 可选的回收站保留天数（0 表示永久保留）
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 超过保留天数、需要彻底删除的内容
+ */
+export interface ExpiredTrash {
+  collectionIds: string[];
+  levels: { collectionId: string; levelId: string }[];
+  unitIds: string[];
+  featureIds: string[];
+}
+
+/**
+ * 回收站规则
+ * @description 回收站中的单元（status 为 trash）、删除的层次、集合和特性（带 deletedAt）超过保留天数后彻底删除
+ */
+export class RecycleBin {
+  /**
+   * 获取彻底删除的时间；retentionDays 为 0 时永久保留，返回 null
+   */
+  static getExpiresAt(deletedAt: number, retentionDays: number): number | null {
+    return retentionDays > 0 ? deletedAt + retentionDays * DAY_MS : null;
+  }
+
+  /**
+   * 获取距离彻底删除还剩的天数（不足一天按一天计）；永久保留时返回 null
+   */
+  static getRemainingDays(
+    deletedAt: number,
+    retentionDays: number,
+    now: number = Date.now()
+  ): number | null {
+    const expiresAt = this.getExpiresAt(deletedAt, retentionDays);
+    if (expiresAt === null) return null;
+    return Math.max(0, Math.ceil((expiresAt - now) / DAY_MS));
+  }
+
+  /**
+   * 生成删除时间和剩余天数的说明，例如 “2024/1/1 12:00:00 删除 · 29 天后彻底删除”
+   */
+  static describe(
+    deletedAt: number,
+    retentionDays: number,
+    now: number = Date.now()
+  ): string {
+    const deletedText = `${new Date(deletedAt).toLocaleString()} 删除`;
+    const remainingDays = this.getRemainingDays(deletedAt, retentionDays, now);
+    return remainingDays === null
+      ? deletedText
+      : `${deletedText} · ${remainingDays} 天后彻底删除`;
+  }
+
+  /**
+   * 查找已超过保留天数的内容
+   * @description 已删除集合、层次中的内容随集合、层次一起处理，不再单独列出
+   */
+  static findExpired(
+    data: DataStructure,
+    retentionDays: number,
+    now: number = Date.now()
+  ): ExpiredTrash {
+    const expired: ExpiredTrash = {
+      collectionIds: [],
+      levels: [],
+      unitIds: [],
+      featureIds: [],
+    };
+    const isExpired = (deletedAt: number | undefined) => {
+      if (deletedAt === undefined) return false;
+      const expiresAt = this.getExpiresAt(deletedAt, retentionDays);
+      return expiresAt !== null && expiresAt <= now;
+    };
+
+    data.collections.forEach((collection) => {
+      if (isExpired(collection.deletedAt)) {
+        expired.collectionIds.push(collection.id);
+        return;
+      }
+      collection.levels.forEach((level) => {
+        if (isExpired(level.deletedAt)) {
+          expired.levels.push({
+            collectionId: collection.id,
+            levelId: level.id,
+          });
+          return;
+        }
+        level.units.forEach((unit) => {
+          if (unit.status === "trash" && isExpired(unit.trashedAt)) {
+            expired.unitIds.push(unit.id);
+          }
+        });
+      });
+    });
+    Object.values(data.features).forEach((feature) => {
+      if (isExpired(feature.deletedAt)) {
+        expired.featureIds.push(feature.id);
+      }
+    });
+    return expired;
+  }
+}
@@ -0,0 +1,245 @@
+import type { DataStructure } from "@/types/dataStructure";
+import { logDebug } from "@/utils/debugLogger";
+
+/**
+ * 当前数据结构版本
+ * @description 每新增一个迁移步骤，需要同步提升该版本号
+ */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+/**
+ * 迁移步骤
+ * @description 将数据从上一个版本升级到 version 指定的版本
+ */
+export interface SchemaMigrationStep {
+  /**
+   * 执行后数据所处的版本号
+   */
+  version: number;
+  /**
+   * 步骤说明
+   */
+  description: string;
+  /**
+   * 迁移函数：接收上一版本的数据，返回新版本的数据
+   */
+  migrate: (data: any) => any;
+}
+
+/**
+ * 迁移步骤注册表（按版本号升序排列）
+ * @description 修改 Unit、Level、Feature 等结构时，在末尾追加新的步骤，不要修改已发布的步骤
+ */
+const SCHEMA_MIGRATION_STEPS: SchemaMigrationStep[] = [
+  {
+    version: 1,
+    description: "引入 schemaVersion 字段，补全缺失的集合数组和特性对象",
+    migrate: (data) => ({
+      ...data,
+      collections: Array.isArray(data.collections) ? data.collections : [],
+      features:
+        data.features && typeof data.features === "object"
+          ? data.features
+          : {},
+    }),
+  },
+  {
+    version: 2,
+    description:
+      "补全集合、层次、单元、特性的修改时间和单元的创建时间（取已知的最新时间）",
+    migrate: (data) => {
+      const migrated = JSON.parse(JSON.stringify(data));
+      const isObject = (value: any) =>
+        value !== null && typeof value === "object";
+      const asArray = (value: any): any[] =>
+        Array.isArray(value) ? value.filter(isObject) : [];
+      // 取 times 中最新的时间，都不是有效时间时返回 fallback
+      const latest = (times: any[], fallback: any) =>
+        times.reduce(
+          (result, time) =>
+            typeof time === "number" &&
+            (typeof result !== "number" || time > result)
+              ? time
+              : result,
+          fallback
+        );
+
+      Object.values(migrated.features ?? {})
+        .filter(isObject)
+        .forEach((feature: any) => {
+          feature.updatedAt = latest([feature.updatedAt], feature.createdAt);
+        });
+      asArray(migrated.collections).forEach((collection) => {
+        asArray(collection.levels).forEach((level) => {
+          asArray(level.units).forEach((unit) => {
+            // 单元原先没有创建时间，以所在层次的创建时间代替
+            unit.createdAt = latest([unit.createdAt], level.createdAt);
+            unit.updatedAt = latest(
+              [
+                unit.updatedAt,
+                unit.favoriteCreatedAt,
+                ...asArray(unit.history).map((entry) => entry.timestamp),
+              ],
+              unit.createdAt
+            );
+          });
+          level.updatedAt = latest(
+            [
+              level.updatedAt,
+              ...asArray(level.units).map((unit) => unit.updatedAt),
+            ],
+            level.createdAt
+          );
+        });
+        collection.updatedAt = latest(
+          [
+            collection.updatedAt,
+            ...asArray(collection.levels).map((level) => level.updatedAt),
+          ],
+          collection.createdAt
+        );
+      });
+      return migrated;
+    },
+  },
+  {
+    version: 3,
+    description:
+      "为回收站中的单元补全移到回收站的时间（取迁移时间，保留期从升级时开始计算）",
+    migrate: (data) => {
+      const migrated = JSON.parse(JSON.stringify(data));
+      // 旧数据无法得知真实的移入时间，取最后修改时间可能导致加载后立即被清理
+      const migratedAt = Date.now();
+      const asArray = (value: any): any[] =>
+        Array.isArray(value)
+          ? value.filter((item) => item !== null && typeof item === "object")
+          : [];
+      asArray(migrated.collections).forEach((collection) => {
+        asArray(collection.levels).forEach((level) => {
+          asArray(level.units).forEach((unit) => {
+            if (unit.status === "trash" && unit.trashedAt === undefined) {
+              unit.trashedAt = migratedAt;
+            }
+          });
+        });
+      });
+      return migrated;
+    },
+  },
+  {
+    version: 4,
+    description:
+      "原单选特性（single_choice，实际存储布尔值）改为是/否特性（boolean）",
+    migrate: (data) => {
+      const migrated = JSON.parse(JSON.stringify(data));
+      Object.values(migrated.features ?? {}).forEach((feature: any) => {
+        if (
+          feature !== null &&
+          typeof feature === "object" &&
+          feature.type === "single_choice"
+        ) {
+          feature.type = "boolean";
+        }
+      });
+      return migrated;
+    },
+  },
+  {
+    version: 5,
+    description: "引入特性组（featureSets），已有特性仍为全局特性",
+    migrate: (data) => ({
+      ...data,
+      featureSets:
+        data.featureSets && typeof data.featureSets === "object"
+          ? data.featureSets
+          : {},
+    }),
+  },
+  {
+    version: 6,
+    description: "为特性补全显示顺序（order），按原有的排列顺序编号",
+    migrate: (data) => {
+      const migrated = JSON.parse(JSON.stringify(data));
+      Object.values(migrated.features ?? {}).forEach(
+        (feature: any, index) => {
+          if (
+            feature !== null &&
+            typeof feature === "object" &&
+            feature.order === undefined
+          ) {
+            feature.order = index;
+          }
+        }
+      );
+      return migrated;
+    },
+  },
+];
+
+/**
+ * 数据结构版本迁移工具
+ * @description 按顺序执行迁移步骤，把任意旧版本的数据升级到当前版本
+ */
+export class SchemaMigration {
+  /**
+   * 创建当前版本的空数据结构
+   */
+  static createEmptyData(): DataStructure {
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      collections: [],
+      features: {},
+      featureSets: {},
+    };
+  }
+
+  /**
+   * 获取数据的版本号（没有版本号的数据视为版本 0）
+   */
+  static getVersion(data: any): number {
+    return typeof data?.schemaVersion === "number" ? data.schemaVersion : 0;
+  }
+
+  /**
+   * 检查数据是否需要迁移
+   */
+  static needsMigration(data: any): boolean {
+    return this.getVersion(data) < CURRENT_SCHEMA_VERSION;
+  }
+
+  /**
+   * 检查数据版本是否高于当前应用支持的版本
+   */
+  static isNewerThanSupported(data: any): boolean {
+    return this.getVersion(data) > CURRENT_SCHEMA_VERSION;
+  }
+
+  /**
+   * 执行迁移
+   * @description 依次执行版本号大于数据当前版本的所有步骤；版本更高的数据原样返回，避免被降级覆盖
+   */
+  static migrate(data: any): DataStructure {
+    const fromVersion = this.getVersion(data);
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      console.warn(
+        `数据版本 ${fromVersion} 高于当前支持的版本 ${CURRENT_SCHEMA_VERSION}，跳过迁移`
+      );
+      return data as DataStructure;
+    }
+
+    let migratedData = data;
+    SCHEMA_MIGRATION_STEPS.filter((step) => step.version > fromVersion).forEach(
+      (step) => {
+        logDebug("SchemaMigration", `执行数据迁移 v${step.version}`, {
+          description: step.description,
+        });
+        migratedData = {
+          ...step.migrate(migratedData),
+          schemaVersion: step.version,
+        };
+      }
+    );
+
+    return migratedData as DataStructure;
+  }
+}
@@ -0,0 +1,562 @@
+import * as SQLite from "expo-sqlite";
+
+import type {
+  Collection,
+  DataStructure,
+  Feature,
+  FeatureSet,
+  Level,
+  Unit,
+  UnitFeatureValue,
+} from "@/types/dataStructure";
+import type { DataStore, StorageBackend } from "@/utils/storageBackend";
+
+const DEFAULT_DATABASE_NAME = "sf_app.db";
+const SCHEMA_VERSION_META_KEY = "schemaVersion";
+
+/**
+ * 建表语句
+ * @description 层级、单元的 ID 只保证在各自的父级内唯一，因此主键包含父级 ID；
+ * 除结构字段外的其余属性以 JSON 保存在 data 列中，数据结构升级时无需修改表结构
+ */
+const CREATE_TABLES_SQL = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS kv (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS levels (
+  collection_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection_id, id)
+);
+CREATE TABLE IF NOT EXISTS units (
+  collection_id TEXT NOT NULL,
+  level_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection_id, level_id, id)
+);
+CREATE TABLE IF NOT EXISTS unit_features (
+  collection_id TEXT NOT NULL,
+  level_id TEXT NOT NULL,
+  unit_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  feature_id TEXT NOT NULL,
+  value TEXT NOT NULL,
+  PRIMARY KEY (collection_id, level_id, unit_id, position)
+);
+CREATE TABLE IF NOT EXISTS features (
+  id TEXT PRIMARY KEY NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS feature_sets (
+  id TEXT PRIMARY KEY NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL
+);
+`;
+
+type EntityRow = { id: string; position: number; data: string };
+type LevelRow = EntityRow & { collection_id: string };
+type UnitRow = LevelRow & { level_id: string };
+type UnitFeatureRow = {
+  collection_id: string;
+  level_id: string;
+  unit_id: string;
+  feature_id: string;
+  value: string;
+};
+
+/**
+ * 一次保存中需要写入的行
+ * @description key 为行的唯一路径，signature 为行内容，与上次保存的 signature 相同则跳过
+ */
+type PendingRow = {
+  key: string;
+  signature: string;
+  write: (txn: SQLite.SQLiteDatabase) => Promise<unknown>;
+};
+
+const FEATURES_GROUP = "features";
+const FEATURE_SETS_GROUP = "feature_sets";
+
+/**
+ * 以 id 为主键、整体保存为 JSON 的表（特性、特性组）
+ */
+type KeyedEntityTable = "features" | "feature_sets";
+
+const getCollectionGroup = (collectionId: string) =>
+  `collection:${collectionId}`;
+
+const toSignatures = (rows: PendingRow[]) =>
+  new Map(rows.map((row) => [row.key, row.signature]));
+
+/**
+ * 去掉子列表后的实体属性
+ */
+const omitChildren = <T extends object, K extends keyof T>(
+  entity: T,
+  childKey: K
+): Omit<T, K> => {
+  const { [childKey]: _children, ...rest } = entity;
+  return rest;
+};
+
+/**
+ * SQLite 规范化存储
+ * @description 将集合、层级、单元、单元特性值、特性、特性组分表保存。保存时与上次写入的内容逐行比较，
+ * 只写入有变化的行，避免每次修改都重写整份数据
+ */
+export class SqliteStore implements DataStore {
+  // 上次写入（或读取）时每一行的内容，按集合分组（特性、特性组各单独一组），组内 key 为行的唯一路径
+  private savedRows = new Map<string, Map<string, string>>();
+  // 保存操作排队执行，避免并发事务互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private getDatabase: () => Promise<SQLite.SQLiteDatabase>) {}
+
+  /**
+   * 读取完整数据，数据库中还没有数据时返回 null
+   */
+  async loadData(): Promise<DataStructure | null> {
+    const db = await this.getDatabase();
+    const schemaVersion = await db.getFirstAsync<{ value: string }>(
+      "SELECT value FROM meta WHERE key = ?",
+      SCHEMA_VERSION_META_KEY
+    );
+    if (!schemaVersion) {
+      return null;
+    }
+
+    const [
+      collectionRows,
+      levelRows,
+      unitRows,
+      unitFeatureRows,
+      featureRows,
+      featureSetRows,
+    ] = await Promise.all([
+      db.getAllAsync<EntityRow>(
+        "SELECT id, position, data FROM collections ORDER BY position"
+      ),
+      db.getAllAsync<LevelRow>(
+        "SELECT collection_id, id, position, data FROM levels ORDER BY position"
+      ),
+      db.getAllAsync<UnitRow>(
+        "SELECT collection_id, level_id, id, position, data FROM units ORDER BY position"
+      ),
+      db.getAllAsync<UnitFeatureRow>(
+        "SELECT collection_id, level_id, unit_id, feature_id, value FROM unit_features ORDER BY position"
+      ),
+      db.getAllAsync<EntityRow>(
+        "SELECT id, position, data FROM features ORDER BY position"
+      ),
+      db.getAllAsync<EntityRow>(
+        "SELECT id, position, data FROM feature_sets ORDER BY position"
+      ),
+    ]);
+
+    // 先按父级分组，再自顶向下组装
+    const unitFeaturesByUnit = new Map<string, UnitFeatureValue[]>();
+    unitFeatureRows.forEach((row) => {
+      const key = `${row.collection_id}/${row.level_id}/${row.unit_id}`;
+      const values = unitFeaturesByUnit.get(key) ?? [];
+      values.push({ featureId: row.feature_id, value: JSON.parse(row.value) });
+      unitFeaturesByUnit.set(key, values);
+    });
+
+    const unitsByLevel = new Map<string, Unit[]>();
+    unitRows.forEach((row) => {
+      const levelKey = `${row.collection_id}/${row.level_id}`;
+      const units = unitsByLevel.get(levelKey) ?? [];
+      units.push({
+        ...JSON.parse(row.data),
+        features: unitFeaturesByUnit.get(`${levelKey}/${row.id}`) ?? [],
+      });
+      unitsByLevel.set(levelKey, units);
+    });
+
+    const levelsByCollection = new Map<string, Level[]>();
+    levelRows.forEach((row) => {
+      const levels = levelsByCollection.get(row.collection_id) ?? [];
+      levels.push({
+        ...JSON.parse(row.data),
+        units: unitsByLevel.get(`${row.collection_id}/${row.id}`) ?? [],
+      });
+      levelsByCollection.set(row.collection_id, levels);
+    });
+
+    const collections: Collection[] = collectionRows.map((row) => ({
+      ...JSON.parse(row.data),
+      levels: levelsByCollection.get(row.id) ?? [],
+    }));
+
+    const features: Record<string, Feature> = {};
+    featureRows.forEach((row) => {
+      features[row.id] = JSON.parse(row.data);
+    });
+
+    const featureSets: Record<string, FeatureSet> = {};
+    featureSetRows.forEach((row) => {
+      featureSets[row.id] = JSON.parse(row.data);
+    });
+
+    const data: DataStructure = {
+      schemaVersion: Number(schemaVersion.value),
+      collections,
+      features,
+      featureSets,
+    };
+    this.savedRows = new Map();
+    data.collections.forEach((collection, position) => {
+      this.savedRows.set(
+        getCollectionGroup(collection.id),
+        toSignatures(this.collectCollectionRows(collection, position, true))
+      );
+    });
+    this.savedRows.set(
+      FEATURES_GROUP,
+      toSignatures(this.collectEntityRows("features", data.features))
+    );
+    this.savedRows.set(
+      FEATURE_SETS_GROUP,
+      toSignatures(this.collectEntityRows("feature_sets", data.featureSets))
+    );
+    return data;
+  }
+
+  /**
+   * 保存完整数据，只写入与上次相比有变化的行
+   * @param changedCollectionIds 修改过的集合ID；传入时其他集合只比较集合本身，不再逐行比较层级和单元
+   */
+  saveData(
+    data: DataStructure,
+    changedCollectionIds?: string[]
+  ): Promise<void> {
+    const task = this.writeQueue.then(() =>
+      this.writeChangedRows(
+        data,
+        changedCollectionIds ? new Set(changedCollectionIds) : null
+      )
+    );
+    // 一次保存失败不影响后续保存
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async writeChangedRows(
+    data: DataStructure,
+    changedCollectionIds: Set<string> | null
+  ): Promise<void> {
+    const db = await this.getDatabase();
+    const nextRows = new Map<string, Map<string, string>>();
+    const changedRows: PendingRow[] = [];
+    const removedKeys: string[] = [];
+
+    const diffGroup = (group: string, rows: PendingRow[]) => {
+      const saved = this.savedRows.get(group) ?? new Map<string, string>();
+      const next = toSignatures(rows);
+      rows.forEach((row) => {
+        if (saved.get(row.key) !== row.signature) {
+          changedRows.push(row);
+        }
+      });
+      saved.forEach((_signature, key) => {
+        if (!next.has(key)) {
+          removedKeys.push(key);
+        }
+      });
+      nextRows.set(group, next);
+    };
+
+    data.collections.forEach((collection, position) => {
+      const group = getCollectionGroup(collection.id);
+      const saved = this.savedRows.get(group);
+      if (
+        saved &&
+        changedCollectionIds &&
+        !changedCollectionIds.has(collection.id)
+      ) {
+        // 未修改的集合只比较集合本身（顺序可能变化），层级和单元沿用上次的结果
+        const [collectionRow] = this.collectCollectionRows(
+          collection,
+          position,
+          false
+        );
+        if (saved.get(collectionRow.key) !== collectionRow.signature) {
+          changedRows.push(collectionRow);
+        }
+        nextRows.set(
+          group,
+          new Map(saved).set(collectionRow.key, collectionRow.signature)
+        );
+      } else {
+        diffGroup(
+          group,
+          this.collectCollectionRows(collection, position, true)
+        );
+      }
+    });
+    diffGroup(
+      FEATURES_GROUP,
+      this.collectEntityRows("features", data.features)
+    );
+    diffGroup(
+      FEATURE_SETS_GROUP,
+      this.collectEntityRows("feature_sets", data.featureSets)
+    );
+
+    // 已删除的集合
+    this.savedRows.forEach((saved, group) => {
+      if (!nextRows.has(group)) {
+        removedKeys.push(...saved.keys());
+      }
+    });
+
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const key of removedKeys) {
+        await this.removeRowByKey(txn, key);
+      }
+      for (const row of changedRows) {
+        await row.write(txn);
+      }
+      await txn.runAsync(
+        "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)",
+        SCHEMA_VERSION_META_KEY,
+        String(data.schemaVersion)
+      );
+    });
+
+    // 事务提交后再更新缓存，失败时下次保存会重新写入
+    this.savedRows = nextRows;
+  }
+
+  /**
+   * 根据行路径删除一行（路径格式见 collectRows）
+   */
+  private removeRowByKey(
+    txn: SQLite.SQLiteDatabase,
+    key: string
+  ): Promise<unknown> {
+    const [table, ...ids] = JSON.parse(key) as string[];
+    switch (table) {
+      case "collections":
+        return txn.runAsync("DELETE FROM collections WHERE id = ?", ids[0]);
+      case "levels":
+        return txn.runAsync(
+          "DELETE FROM levels WHERE collection_id = ? AND id = ?",
+          ids[0],
+          ids[1]
+        );
+      case "units":
+        return txn.runAsync(
+          "DELETE FROM units WHERE collection_id = ? AND level_id = ? AND id = ?",
+          ids[0],
+          ids[1],
+          ids[2]
+        );
+      case "unit_features":
+        return txn.runAsync(
+          "DELETE FROM unit_features WHERE collection_id = ? AND level_id = ? AND unit_id = ?",
+          ids[0],
+          ids[1],
+          ids[2]
+        );
+      case "feature_sets":
+        return txn.runAsync("DELETE FROM feature_sets WHERE id = ?", ids[0]);
+      default:
+        return txn.runAsync("DELETE FROM features WHERE id = ?", ids[0]);
+    }
+  }
+
+  /**
+   * 将一个集合拆分为各表的行，includeChildren 为 false 时只返回集合本身
+   * @description 一个单元的全部特性值作为一行比较，有变化时先删除再整体重写
+   */
+  private collectCollectionRows(
+    collection: Collection,
+    collectionPosition: number,
+    includeChildren: boolean
+  ): PendingRow[] {
+    const rows: PendingRow[] = [];
+    const collectionData = JSON.stringify(omitChildren(collection, "levels"));
+    rows.push({
+      key: JSON.stringify(["collections", collection.id]),
+      signature: `${collectionPosition}:${collectionData}`,
+      write: (txn) =>
+        txn.runAsync(
+          "INSERT OR REPLACE INTO collections (id, position, data) VALUES (?, ?, ?)",
+          collection.id,
+          collectionPosition,
+          collectionData
+        ),
+    });
+    if (!includeChildren) return rows;
+
+    collection.levels.forEach((level, levelPosition) => {
+      const levelData = JSON.stringify(omitChildren(level, "units"));
+      rows.push({
+        key: JSON.stringify(["levels", collection.id, level.id]),
+        signature: `${levelPosition}:${levelData}`,
+        write: (txn) =>
+          txn.runAsync(
+            "INSERT OR REPLACE INTO levels (collection_id, id, position, data) VALUES (?, ?, ?, ?)",
+            collection.id,
+            level.id,
+            levelPosition,
+            levelData
+          ),
+      });
+
+      level.units.forEach((unit, unitPosition) => {
+        const unitData = JSON.stringify(omitChildren(unit, "features"));
+        rows.push({
+          key: JSON.stringify(["units", collection.id, level.id, unit.id]),
+          signature: `${unitPosition}:${unitData}`,
+          write: (txn) =>
+            txn.runAsync(
+              "INSERT OR REPLACE INTO units (collection_id, level_id, id, position, data) VALUES (?, ?, ?, ?, ?)",
+              collection.id,
+              level.id,
+              unit.id,
+              unitPosition,
+              unitData
+            ),
+        });
+
+        const featuresKey = JSON.stringify([
+          "unit_features",
+          collection.id,
+          level.id,
+          unit.id,
+        ]);
+        rows.push({
+          key: featuresKey,
+          signature: JSON.stringify(unit.features),
+          write: async (txn) => {
+            await this.removeRowByKey(txn, featuresKey);
+            for (const [position, feature] of unit.features.entries()) {
+              await txn.runAsync(
+                "INSERT INTO unit_features (collection_id, level_id, unit_id, position, feature_id, value) VALUES (?, ?, ?, ?, ?, ?)",
+                collection.id,
+                level.id,
+                unit.id,
+                position,
+                feature.featureId,
+                JSON.stringify(feature.value)
+              );
+            }
+          },
+        });
+      });
+    });
+
+    return rows;
+  }
+
+  /**
+   * 将特性或特性组拆分为行
+   */
+  private collectEntityRows(
+    table: KeyedEntityTable,
+    entities: Record<string, Feature | FeatureSet>
+  ): PendingRow[] {
+    const rows: PendingRow[] = [];
+    Object.values(entities).forEach((entity, position) => {
+      const entityData = JSON.stringify(entity);
+      rows.push({
+        key: JSON.stringify([table, entity.id]),
+        signature: `${position}:${entityData}`,
+        write: (txn) =>
+          txn.runAsync(
+            `INSERT OR REPLACE INTO ${table} (id, position, data) VALUES (?, ?, ?)`,
+            entity.id,
+            position,
+            entityData
+          ),
+      });
+    });
+
+    return rows;
+  }
+}
+
+/**
+ * SQLite 存储后端
+ * @description 完整数据通过 dataStore 分表保存；快照等其他键值保存在 kv 表中。
+ * 传入 legacyBackend 时，首次加载会把其中已有的数据迁移过来
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly dataStore: SqliteStore;
+  private database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  constructor(
+    private databaseName: string = DEFAULT_DATABASE_NAME,
+    readonly legacyBackend?: StorageBackend
+  ) {
+    this.dataStore = new SqliteStore(() => this.getDatabase());
+  }
+
+  /**
+   * 打开数据库并建表（只执行一次）
+   */
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.database) {
+      this.database = (async () => {
+        const db = await SQLite.openDatabaseAsync(this.databaseName);
+        await db.execAsync(CREATE_TABLES_SQL);
+        return db;
+      })().catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.getDatabase();
+    const row = await db.getFirstAsync<{ value: string }>(
+      "SELECT value FROM kv WHERE key = ?",
+      key
+    );
+    return row ? row.value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync(
+      "INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)",
+      key,
+      value
+    );
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await this.getDatabase();
+    await db.runAsync("DELETE FROM kv WHERE key = ?", key);
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.getDatabase();
+    await db.runAsync(
+      `DELETE FROM kv WHERE key IN (${keys.map(() => "?").join(", ")})`,
+      keys
+    );
+  }
+}
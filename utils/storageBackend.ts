@@ -0,0 +1,73 @@
+import type { DataStructure } from "@/types/dataStructure";
+
+/**
+ * 结构化数据存储
+ * @description 按实体保存完整数据，而不是整体序列化为一个字符串
+ */
+export interface DataStore {
+  /**
+   * 读取完整数据，还没有数据时返回 null
+   */
+  loadData(): Promise<DataStructure | null>;
+  /**
+   * 保存完整数据
+   * @param changedCollectionIds 修改过的集合ID，可用于跳过未修改的集合；不传时视为全部可能有修改
+   */
+  saveData(data: DataStructure, changedCollectionIds?: string[]): Promise<void>;
+}
+
+/**
+ * 存储后端
+ * @description 键值存储的最小接口，数据层只通过它读写持久化数据，便于在测试中替换为内存存储或切换到其他存储方式。
+ * 依赖原生模块的实现各自位于单独的模块（asyncStorageBackend、fileSystemStorageBackend、sqliteStore），本模块可以直接在 Node 中加载
+ */
+export interface StorageBackend {
+  /**
+   * 读取值，不存在时返回 null
+   */
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  /**
+   * 删除值，不存在时忽略
+   */
+  removeItem(key: string): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+  /**
+   * 提供时，完整数据通过它保存，不再作为单个键值保存
+   */
+  readonly dataStore?: DataStore;
+  /**
+   * 提供时，首次加载会把其中已有的数据迁移到当前后端
+   */
+  readonly legacyBackend?: StorageBackend;
+}
+
+/**
+ * 内存存储后端
+ * @description 数据只保存在内存中，用于在 Node 环境中运行数据层测试
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>();
+
+  constructor(initialItems?: Record<string, string>) {
+    Object.entries(initialItems ?? {}).forEach(([key, value]) => {
+      this.items.set(key, value);
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.items.delete(key));
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * 带创建时间和修改时间的实体（集合、层次、单元、特性）
+ */
+export interface Timestamped {
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 时间戳工具
+ * @description 修改时间用于按“最近编辑”排序，以及合并导入时判断哪一方更新
+ */
+export class Timestamps {
+  /**
+   * 将实体的修改时间更新为当前时间
+   * @description 修改单元或层次时应同时传入所属的层次、集合，它们的修改时间保持一致
+   */
+  static touch(...entities: (Timestamped | undefined)[]): void {
+    const now = Date.now();
+    entities.forEach((entity) => {
+      if (entity) {
+        entity.updatedAt = now;
+      }
+    });
+  }
+}
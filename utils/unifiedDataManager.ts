@@ -1,16 +1,93 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Clipboard } from "react-native";
 
 import type {
   Collection,
   DataStructure,
   Feature,
+  FeatureSet,
+  FeatureValue,
   Level,
   Unit,
   UnitStatus,
 } from "@/types/dataStructure";
+import { BackupFiles, type BackupFile } from "@/utils/backupFiles";
+import {
+  BULK_UNIT_ACTION_LABELS,
+  type BulkUnitAction,
+} from "@/utils/bulkUnitActions";
+import { CollectionBundler } from "@/utils/collectionBundle";
+import { CommandHistory } from "@/utils/commandHistory";
+import { CsvTransfer, type CsvImportSummary } from "@/utils/csvTransfer";
+import {
+  DataEventEmitter,
+  type AnyDataChangeEvent,
+  type DataChangeEventListener,
+  type DataChangeEventMap,
+  type DataChangeEventType,
+} from "@/utils/dataEvents";
+import { DataIndex, type UnitLocation } from "@/utils/dataIndex";
+import {
+  DataMerger,
+  type MergeConflictPolicy,
+  type MergePreview,
+} from "@/utils/dataMerger";
+import { DataPatchTracker, type DataPatch } from "@/utils/dataPatch";
+import { DataSelectors } from "@/utils/dataSelectors";
+import { DataValidator, type ValidationError } from "@/utils/dataValidator";
+import { defaultStorageBackend } from "@/utils/defaultStorageBackend";
+import { FeatureValues } from "@/utils/featureValues";
+import { PersistenceScheduler } from "@/utils/persistenceScheduler";
+import { RecycleBin } from "@/utils/recycleBin";
+import { SchemaMigration } from "@/utils/schemaMigration";
+import { Timestamps } from "@/utils/timestamps";
+import { UnitHistory } from "@/utils/unitHistory";
+import type { StorageBackend } from "@/utils/storageBackend";
+import UnifiedStorage from "@/utils/unifiedStorage";
 
-const DATA_KEY = "@sf_app:unified_data";
+/**
+ * 导入结果
+ * @description 导入失败时 errors 中包含带 JSON 路径的错误列表
+ */
+export interface ImportResult {
+  success: boolean;
+  errors: ValidationError[];
+  /**
+   * 导入单集合导出包时，新增集合的ID
+   */
+  collectionId?: string;
+}
+
+/**
+ * 合并导入结果
+ * @description 成功时 preview 中包含合并后的数据和变更列表
+ */
+export interface MergeImportResult extends ImportResult {
+  preview?: MergePreview;
+}
+
+/**
+ * CSV 导入结果
+ * @description 导入成功时 summary 中包含新建和更新的数量
+ */
+export interface CsvImportResult extends ImportResult {
+  summary?: CsvImportSummary;
+}
+
+/**
+ * 数据变化监听函数
+ */
+export type DataChangeListener = () => void;
+
+/**
+ * 复制一份数据作为事件内容，避免之后的修改影响已发出的事件
+ */
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * 判断修改前后的值是否相同；没有实际变化时不更新修改时间
+ */
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
 
 /**
  * 统一数据管理器
@@ -18,12 +95,45 @@ const DATA_KEY = "@sf_app:unified_data";
  */
 class UnifiedDataManager {
   private data: DataStructure;
+  private storage: UnifiedStorage;
+  private scheduler: PersistenceScheduler;
+  private history = new CommandHistory();
+  // 撤销历史只保存修改涉及的数据片段，由 patches 缓存各部分上一次提交后的内容
+  private patches = new DataPatchTracker();
+  private index = new DataIndex();
+  // 正在执行的 execute 嵌套层数，嵌套调用只在最外层记录一次历史
+  private executeDepth = 0;
+  // 正在执行的步骤名称，以及步骤中产生、等步骤完成后再分发的事件
+  private currentLabel: string | null = null;
+  private pendingEvents: AnyDataChangeEvent[] = [];
+  private listeners = new Set<DataChangeListener>();
+  private events = new DataEventEmitter();
 
-  constructor(initialData?: DataStructure) {
-    this.data = initialData || {
-      collections: [],
-      features: {},
-    };
+  /**
+   * @param backend 存储后端，默认使用 AsyncStorage；测试中可传入内存存储
+   */
+  constructor(
+    initialData?: DataStructure,
+    backend: StorageBackend = defaultStorageBackend
+  ) {
+    this.data = initialData || SchemaMigration.createEmptyData();
+    this.storage = new UnifiedStorage(backend);
+    this.scheduler = new PersistenceScheduler(async (changedCollectionIds) => {
+      // 应用长时间不重启时，每天第一次写入前为已保存的数据创建快照
+      await this.storage.ensureDailySnapshot();
+      // 写入时读取最新数据，排队期间的多次修改只写入一次
+      await this.storage.saveUnifiedData(
+        this.data,
+        changedCollectionIds ?? undefined
+      );
+    });
+  }
+
+  /**
+   * 获取存储管理器（与数据管理器使用同一个存储后端）
+   */
+  getStorage(): UnifiedStorage {
+    return this.storage;
   }
 
   /**
@@ -35,9 +145,180 @@ class UnifiedDataManager {
 
   /**
    * 设置完整数据
+   * @description 数据被整体替换（如重新加载、恢复快照），之前的撤销历史不再适用，会被清空
    */
   setData(data: DataStructure): void {
     this.data = data;
+    this.index.invalidate();
+    this.patches.invalidate();
+    this.history.clear();
+    this.emitChange("data.replaced", { reason: "set" });
+    this.notify();
+  }
+
+  /**
+   * 订阅数据变化，返回取消订阅的函数
+   * @description 通过 execute、撤销/重做或 setData 修改数据后通知所有订阅者
+   */
+  subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 通知所有订阅者数据已变化
+   */
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * 订阅指定类型的数据变化事件（例如 unit.statusChanged），返回取消订阅的函数
+   * @description 步骤中产生的事件在步骤完成且数据确实变化后才分发，步骤没有生效时不会收到
+   */
+  on<K extends DataChangeEventType>(
+    type: K,
+    listener: DataChangeEventListener<K>
+  ): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * 订阅所有数据变化事件，返回取消订阅的函数
+   */
+  onAnyChange(listener: (event: AnyDataChangeEvent) => void): () => void {
+    return this.events.onAny(listener);
+  }
+
+  /**
+   * 产生数据变化事件：在步骤中时暂存到步骤完成，否则立即分发
+   */
+  private emitChange<K extends DataChangeEventType>(
+    type: K,
+    payload: DataChangeEventMap[K]
+  ): void {
+    const event = {
+      type,
+      label: this.currentLabel,
+      payload,
+    } as AnyDataChangeEvent;
+    // 集合、层次、单元的变化只需重建所在集合的索引
+    if ("collectionId" in event.payload) {
+      this.index.markChanged(event.payload.collectionId);
+    }
+    if (this.executeDepth > 0) {
+      this.pendingEvents.push(event);
+    } else {
+      this.events.emit(event);
+    }
+  }
+
+  // ========== 撤销/重做 ==========
+
+  /**
+   * 执行一组修改，并作为一个可撤销的步骤记录
+   * @description 数据没有实际变化时不记录；嵌套调用会合并到最外层的步骤中。
+   * 修改范围由步骤中产生的事件确定，历史中只保存涉及的集合、特性或特性组，所有修改都应产生对应的事件。
+   * 修改中途抛出异常时恢复到步骤开始前的数据，不记录历史、不分发事件，然后重新抛出
+   */
+  execute<T>(label: string, mutation: () => T): T {
+    if (this.executeDepth > 0) {
+      return mutation();
+    }
+    this.patches.prime(this.data);
+    this.executeDepth++;
+    this.currentLabel = label;
+    let result: T;
+    try {
+      result = mutation();
+    } catch (error) {
+      this.pendingEvents = [];
+      this.patches.rollback(this.data);
+      this.index.invalidate();
+      // 订阅者可能持有已被部分修改的对象，通知其重新读取恢复后的数据
+      this.notify();
+      throw error;
+    } finally {
+      this.executeDepth--;
+      this.currentLabel = null;
+    }
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    const snapshotBefore = this.patches.commit(
+      this.data,
+      DataPatchTracker.scopeOf(events)
+    );
+    if (snapshotBefore) {
+      this.history.record(label, snapshotBefore);
+      events.forEach((event) => this.events.emit(event));
+      this.notify();
+    }
+    return result;
+  }
+
+  /**
+   * 撤销上一步修改，返回被撤销的操作名称
+   */
+  undo(): string | null {
+    const entry = this.history.undo((snapshot) =>
+      this.patches.capture(this.data, snapshot)
+    );
+    if (!entry) return null;
+    this.applyHistorySnapshot(entry.snapshot);
+    this.events.emit({
+      type: "data.replaced",
+      label: entry.label,
+      payload: { reason: "undo" },
+    });
+    this.notify();
+    return entry.label;
+  }
+
+  /**
+   * 重做上一步被撤销的修改，返回重做的操作名称
+   */
+  redo(): string | null {
+    const entry = this.history.redo((snapshot) =>
+      this.patches.capture(this.data, snapshot)
+    );
+    if (!entry) return null;
+    this.applyHistorySnapshot(entry.snapshot);
+    this.events.emit({
+      type: "data.replaced",
+      label: entry.label,
+      payload: { reason: "redo" },
+    });
+    this.notify();
+    return entry.label;
+  }
+
+  /**
+   * 将撤销/重做历史中的数据片段写回数据，并重建被替换集合的索引
+   */
+  private applyHistorySnapshot(snapshot: DataPatch): void {
+    this.patches.apply(this.data, snapshot);
+    Object.keys(snapshot.collections).forEach((collectionId) =>
+      this.index.markChanged(collectionId)
+    );
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  getUndoLabel(): string | null {
+    return this.history.getUndoLabel();
+  }
+
+  getRedoLabel(): string | null {
+    return this.history.getRedoLabel();
   }
 
   // ========== 集合相关操作 ==========
@@ -53,31 +334,68 @@ class UnifiedDataManager {
    * 添加集合
    */
   addCollection(collection: Collection): void {
-    this.data.collections.push(collection);
+    this.execute("添加集合", () => {
+      this.data.collections.push(collection);
+      this.emitChange("collection.added", {
+        collectionId: collection.id,
+        before: null,
+        after: clone(collection),
+      });
+    });
+  }
+
+  /**
+   * 按给定的ID顺序重新排列集合，未列出的集合（如回收站中的集合）保持原顺序排在最后
+   */
+  reorderCollections(collectionIds: string[]): void {
+    this.execute("调整集合顺序", () => {
+      const order = new Map(
+        collectionIds.map((collectionId, index) => [collectionId, index])
+      );
+      const before = this.data.collections.map((collection) => collection.id);
+      this.data.collections = [...this.data.collections].sort(
+        (a, b) =>
+          (order.get(a.id) ?? collectionIds.length) -
+          (order.get(b.id) ?? collectionIds.length)
+      );
+      this.emitChange("collection.reordered", {
+        before,
+        after: this.data.collections.map((collection) => collection.id),
+      });
+    });
   }
 
   /**
    * 删除集合
+   * @description 集合移到回收站（标记 deletedAt），可以恢复；彻底删除使用 purgeCollection
    */
   removeCollection(collectionIndex: number): void {
-    if (
-      collectionIndex >= 0 &&
-      collectionIndex < this.data.collections.length
-    ) {
-      this.data.collections.splice(collectionIndex, 1);
-    }
+    this.execute("删除集合", () => {
+      const collection = this.getCollection(collectionIndex);
+      if (collection) {
+        this.setCollectionDeleted(collection.id, true);
+      }
+    });
   }
 
   /**
    * 更新集合
    */
   updateCollection(collectionIndex: number, collection: Collection): void {
-    if (
-      collectionIndex >= 0 &&
-      collectionIndex < this.data.collections.length
-    ) {
-      this.data.collections[collectionIndex] = collection;
-    }
+    this.execute("编辑集合", () => {
+      const before = this.getCollection(collectionIndex);
+      if (before) {
+        if (!isSameValue(before, collection)) {
+          Timestamps.touch(collection);
+        }
+        this.emitChange("collection.updated", {
+          collectionId: collection.id,
+          before: clone(before),
+          after: clone(collection),
+        });
+        this.data.collections[collectionIndex] = collection;
+      }
+    });
   }
 
   /**
@@ -114,38 +432,58 @@ class UnifiedDataManager {
    * 添加层次到集合
    */
   addLevel(collectionIndex: number, level: Level): void {
-    const collection = this.getCollection(collectionIndex);
-    if (collection) {
-      collection.levels.push(level);
-    }
+    this.execute("添加层次", () => {
+      const collection = this.getCollection(collectionIndex);
+      if (collection) {
+        collection.levels.push(level);
+        Timestamps.touch(collection);
+        this.emitChange("level.added", {
+          collectionId: collection.id,
+          levelId: level.id,
+          before: null,
+          after: clone(level),
+        });
+      }
+    });
   }
 
   /**
    * 删除层次
+   * @description 层次移到回收站（标记 deletedAt），可以恢复；彻底删除使用 purgeLevel
    */
   removeLevel(collectionIndex: number, levelIndex: number): void {
-    const collection = this.getCollection(collectionIndex);
-    if (
-      collection &&
-      levelIndex >= 0 &&
-      levelIndex < collection.levels.length
-    ) {
-      collection.levels.splice(levelIndex, 1);
-    }
+    this.execute("删除层次", () => {
+      const collection = this.getCollection(collectionIndex);
+      const level = this.getLevels(collectionIndex)[levelIndex];
+      if (collection && level) {
+        this.setLevelDeleted(collection.id, level.id, true);
+      }
+    });
   }
 
   /**
    * 更新层次
    */
   updateLevel(collectionIndex: number, levelIndex: number, level: Level): void {
-    const collection = this.getCollection(collectionIndex);
-    if (
-      collection &&
-      levelIndex >= 0 &&
-      levelIndex < collection.levels.length
-    ) {
-      collection.levels[levelIndex] = level;
-    }
+    this.execute("编辑层次", () => {
+      const collection = this.getCollection(collectionIndex);
+      if (
+        collection &&
+        levelIndex >= 0 &&
+        levelIndex < collection.levels.length
+      ) {
+        if (!isSameValue(collection.levels[levelIndex], level)) {
+          Timestamps.touch(level, collection);
+        }
+        this.emitChange("level.updated", {
+          collectionId: collection.id,
+          levelId: level.id,
+          before: clone(collection.levels[levelIndex]),
+          after: clone(level),
+        });
+        collection.levels[levelIndex] = level;
+      }
+    });
   }
 
   /**
@@ -177,10 +515,21 @@ class UnifiedDataManager {
    * 添加单元到层次
    */
   addUnit(collectionIndex: number, levelIndex: number, unit: Unit): void {
-    const level = this.getLevel(collectionIndex, levelIndex);
-    if (level) {
-      level.units.push(unit);
-    }
+    this.execute("添加单元", () => {
+      const collection = this.getCollection(collectionIndex);
+      const level = this.getLevel(collectionIndex, levelIndex);
+      if (collection && level) {
+        level.units.push(unit);
+        Timestamps.touch(level, collection);
+        this.emitChange("unit.added", {
+          collectionId: collection.id,
+          levelId: level.id,
+          unitId: unit.id,
+          before: null,
+          after: clone(unit),
+        });
+      }
+    });
   }
 
   /**
@@ -191,10 +540,26 @@ class UnifiedDataManager {
     levelIndex: number,
     unitIndex: number
   ): void {
-    const level = this.getLevel(collectionIndex, levelIndex);
-    if (level && unitIndex >= 0 && unitIndex < level.units.length) {
-      level.units.splice(unitIndex, 1);
-    }
+    this.execute("删除单元", () => {
+      const collection = this.getCollection(collectionIndex);
+      const level = this.getLevel(collectionIndex, levelIndex);
+      if (
+        collection &&
+        level &&
+        unitIndex >= 0 &&
+        unitIndex < level.units.length
+      ) {
+        const [unit] = level.units.splice(unitIndex, 1);
+        Timestamps.touch(level, collection);
+        this.emitChange("unit.removed", {
+          collectionId: collection.id,
+          levelId: level.id,
+          unitId: unit.id,
+          before: clone(unit),
+          after: null,
+        });
+      }
+    });
   }
 
   /**
@@ -206,10 +571,28 @@ class UnifiedDataManager {
     unitIndex: number,
     unit: Unit
   ): void {
-    const level = this.getLevel(collectionIndex, levelIndex);
-    if (level && unitIndex >= 0 && unitIndex < level.units.length) {
-      level.units[unitIndex] = unit;
-    }
+    this.execute("编辑单元", () => {
+      const collection = this.getCollection(collectionIndex);
+      const level = this.getLevel(collectionIndex, levelIndex);
+      if (
+        collection &&
+        level &&
+        unitIndex >= 0 &&
+        unitIndex < level.units.length
+      ) {
+        if (!isSameValue(level.units[unitIndex], unit)) {
+          Timestamps.touch(unit, level, collection);
+        }
+        this.emitChange("unit.updated", {
+          collectionId: collection.id,
+          levelId: level.id,
+          unitId: unit.id,
+          before: clone(level.units[unitIndex]),
+          after: clone(unit),
+        });
+        level.units[unitIndex] = unit;
+      }
+    });
   }
 
   /**
@@ -222,22 +605,26 @@ class UnifiedDataManager {
     status: UnitStatus,
     favoriteReason?: string
   ): void {
-    const level = this.getLevel(collectionIndex, levelIndex);
-    if (level && unitIndex >= 0 && unitIndex < level.units.length) {
-      const unit = level.units[unitIndex];
-      unit.status = status;
-      if (status === "favorite") {
-        unit.favoriteReason = favoriteReason || "无";
-        unit.favoriteCreatedAt = Date.now();
-      } else {
-        delete unit.favoriteReason;
-        delete unit.favoriteCreatedAt;
+    this.execute("修改单元状态", () => {
+      const collection = this.getCollection(collectionIndex);
+      const level = this.getLevel(collectionIndex, levelIndex);
+      if (
+        collection &&
+        level &&
+        unitIndex >= 0 &&
+        unitIndex < level.units.length
+      ) {
+        this.applyUnitStatus(
+          { collection, level, unit: level.units[unitIndex] },
+          status,
+          favoriteReason
+        );
       }
-    }
+    });
   }
 
   /**
-   * 根据单元ID查找单元（遍历所有集合、层次）
+   * 根据单元ID查找单元（通过ID索引，不再遍历所有集合、层次）
    */
   findUnit(unitId: string): {
     collectionIndex: number;
@@ -245,201 +632,1299 @@ class UnifiedDataManager {
     unitIndex: number;
     unit: Unit;
   } | null {
-    for (
-      let collectionIndex = 0;
-      collectionIndex < this.data.collections.length;
-      collectionIndex++
-    ) {
-      const collection = this.data.collections[collectionIndex];
-      for (
-        let levelIndex = 0;
-        levelIndex < collection.levels.length;
-        levelIndex++
-      ) {
-        const level = collection.levels[levelIndex];
-        const unitIndex = level.units.findIndex((u) => u.id === unitId);
-        if (unitIndex !== -1) {
-          return {
-            collectionIndex,
-            levelIndex,
-            unitIndex,
-            unit: level.units[unitIndex],
-          };
-        }
-      }
+    const location = this.index.getUnit(this.data, unitId);
+    if (!location) return null;
+    return {
+      collectionIndex: this.data.collections.indexOf(location.collection),
+      levelIndex: location.collection.levels.indexOf(location.level),
+      unitIndex: location.level.units.indexOf(location.unit),
+      unit: location.unit,
+    };
+  }
+
+  /**
+   * 修改单元状态并维护收藏信息、移到回收站的时间
+   */
+  private applyUnitStatus(
+    { collection, level, unit }: UnitLocation,
+    status: UnitStatus,
+    favoriteReason?: string
+  ): void {
+    const before = clone(unit);
+    if (unit.status !== status) {
+      this.emitChange("unit.statusChanged", {
+        collectionId: collection.id,
+        levelId: level.id,
+        unitId: unit.id,
+        before: unit.status,
+        after: status,
+      });
+      UnitHistory.record(unit, "statusChanged", unit.status, status);
+    }
+    unit.status = status;
+    if (status === "favorite") {
+      unit.favoriteReason = favoriteReason || "无";
+      unit.favoriteCreatedAt = Date.now();
+    } else {
+      delete unit.favoriteReason;
+      delete unit.favoriteCreatedAt;
+    }
+    if (status === "trash") {
+      unit.trashedAt = unit.trashedAt ?? Date.now();
+    } else {
+      delete unit.trashedAt;
+    }
+    if (!isSameValue(before, unit)) {
+      Timestamps.touch(unit, level, collection);
     }
-    return null;
   }
 
-  // ========== 特性相关操作 ==========
+  // ========== 按ID修改（供页面直接调用） ==========
+  // 排序等操作会改变位置，页面应优先使用这里按ID修改的方法，而不是上面按索引修改的方法
 
   /**
-   * 获取所有特性
+   * 根据ID获取集合
    */
-  getFeatures(): Record<string, Feature> {
-    return this.data.features;
+  getCollectionById(collectionId: string): Collection | undefined {
+    return this.index.getCollection(this.data, collectionId);
   }
 
   /**
-   * 获取特性列表（数组形式）
+   * 修改集合的名称等属性
    */
-  getFeaturesArray(): Feature[] {
-    return Object.values(this.data.features);
+  updateCollectionById(
+    collectionId: string,
+    changes: Partial<Omit<Collection, "id" | "levels">>
+  ): void {
+    this.execute("编辑集合", () => {
+      const collection = this.getCollectionById(collectionId);
+      if (collection) {
+        const before = clone(collection);
+        Object.assign(collection, changes);
+        if (!isSameValue(before, collection)) {
+          Timestamps.touch(collection);
+        }
+        this.emitChange("collection.updated", {
+          collectionId,
+          before,
+          after: clone(collection),
+        });
+      }
+    });
   }
 
   /**
-   * 获取特性
+   * 将集合移到回收站（连同其中的层次和单元）
    */
-  getFeature(featureId: string): Feature | undefined {
-    return this.data.features[featureId];
+  removeCollectionById(collectionId: string): void {
+    const collection = this.getCollectionById(collectionId);
+    if (collection) {
+      this.removeCollection(this.data.collections.indexOf(collection));
+    }
   }
 
   /**
-   * 添加特性
+   * 根据ID获取层次
    */
-  addFeature(feature: Feature): void {
-    this.data.features[feature.id] = feature;
+  getLevelById(collectionId: string, levelId: string): Level | undefined {
+    return this.index.getLevel(this.data, collectionId, levelId)?.level;
   }
 
   /**
-   * 更新特性
+   * 添加层次到集合末尾
    */
-  updateFeature(featureId: string, feature: Feature): void {
-    if (this.data.features[featureId]) {
-      this.data.features[featureId] = feature;
+  addLevelToCollection(collectionId: string, level: Level): void {
+    const collection = this.getCollectionById(collectionId);
+    if (collection) {
+      this.addLevel(this.data.collections.indexOf(collection), level);
     }
   }
 
   /**
-   * 删除特性
-   * @description 遍历所有集合、层次、单元，删除关联的特性引用
+   * 修改层次的名称、标识类型或单元列表
+   * @description 不在新单元列表中的单元会被删除
    */
-  removeFeature(featureId: string): void {
-    // 遍历所有集合
-    this.data.collections.forEach((collection) => {
-      // 遍历集合中的所有层次
-      collection.levels.forEach((level) => {
-        // 遍历层次中的所有单元
-        level.units.forEach((unit) => {
-          // 从单元的特性列表中删除该特性
-          unit.features = unit.features.filter(
-            (f) => f.featureId !== featureId
-          );
+  updateLevelById(
+    collectionId: string,
+    levelId: string,
+    changes: Partial<Pick<Level, "name" | "identifier" | "units">>
+  ): void {
+    this.execute("编辑层次", () => {
+      const collection = this.getCollectionById(collectionId);
+      const level = this.getLevelById(collectionId, levelId);
+      if (collection && level) {
+        const before = clone(level);
+        Object.assign(level, changes);
+        if (!isSameValue(before, level)) {
+          Timestamps.touch(level, collection);
+        }
+        this.emitChange("level.updated", {
+          collectionId,
+          levelId,
+          before,
+          after: clone(level),
         });
-      });
+      }
     });
-
-    // 删除特性对象
-    delete this.data.features[featureId];
   }
 
-  // ========== 存储相关操作 ==========
-
   /**
-   * 保存数据到本地存储
+   * 将层次移到回收站（连同其中的单元）
    */
-  async save(): Promise<void> {
-    try {
-      const jsonValue = JSON.stringify(this.data);
-      await AsyncStorage.setItem(DATA_KEY, jsonValue);
-    } catch (error) {
-      console.error("保存数据失败:", error);
-      throw error;
+  removeLevelById(collectionId: string, levelId: string): void {
+    const collection = this.getCollectionById(collectionId);
+    const level = this.getLevelById(collectionId, levelId);
+    if (collection && level) {
+      this.removeLevel(
+        this.data.collections.indexOf(collection),
+        collection.levels.indexOf(level)
+      );
     }
   }
 
   /**
-   * 从本地存储加载数据
+   * 按给定的ID顺序重新排列层次，未列出的层次保持原顺序排在最后
    */
-  async load(): Promise<void> {
-    try {
-      const jsonValue = await AsyncStorage.getItem(DATA_KEY);
-      if (jsonValue != null) {
-        const parsedData = JSON.parse(jsonValue) as DataStructure;
-        if (this.validateDataStructure(parsedData)) {
-          this.data = parsedData;
-        } else {
-          console.warn("数据格式不正确，使用默认数据");
-          this.data = {
-            collections: [],
-            features: {},
-          };
-        }
+  reorderLevels(collectionId: string, levelIds: string[]): void {
+    this.execute("调整层级顺序", () => {
+      const collection = this.getCollectionById(collectionId);
+      if (!collection) return;
+      const order = new Map(levelIds.map((levelId, index) => [levelId, index]));
+      const before = collection.levels.map((level) => level.id);
+      collection.levels = [...collection.levels].sort(
+        (a, b) =>
+          (order.get(a.id) ?? levelIds.length) -
+          (order.get(b.id) ?? levelIds.length)
+      );
+      const after = collection.levels.map((level) => level.id);
+      if (!isSameValue(before, after)) {
+        Timestamps.touch(collection);
       }
-    } catch (error) {
-      console.error("加载数据失败:", error);
-      this.data = {
-        collections: [],
-        features: {},
-      };
-    }
+      this.emitChange("level.reordered", {
+        collectionId,
+        before,
+        after,
+      });
+    });
   }
 
   /**
-   * 验证数据结构
+   * 根据ID获取单元
    */
-  private validateDataStructure(data: any): data is DataStructure {
-    return (
-      data &&
-      Array.isArray(data.collections) &&
-      typeof data.features === "object" &&
-      data.features !== null
-    );
+  getUnitById(unitId: string): Unit | undefined {
+    return this.index.getUnit(this.data, unitId)?.unit;
   }
 
-  // ========== 导入导出相关操作 ==========
-
   /**
-   * 导出数据为JSON字符串
+   * 添加单元到层次末尾
    */
-  exportToJSON(): string {
-    return JSON.stringify(this.data, null, 2);
+  addUnitToLevel(collectionId: string, levelId: string, unit: Unit): void {
+    const collection = this.getCollectionById(collectionId);
+    const level = this.getLevelById(collectionId, levelId);
+    if (collection && level) {
+      this.addUnit(
+        this.data.collections.indexOf(collection),
+        collection.levels.indexOf(level),
+        unit
+      );
+    }
   }
 
   /**
-   * 从JSON字符串导入数据
+   * 修改单元的名称、特性值等属性
+   * @description 修改状态请使用 setUnitStatus，以便同时维护收藏信息
    */
-  importFromJSON(jsonString: string): boolean {
-    try {
-      const parsedData = JSON.parse(jsonString) as DataStructure;
-      if (this.validateDataStructure(parsedData)) {
-        this.data = parsedData;
-        return true;
+  updateUnitById(
+    unitId: string,
+    changes: Partial<Pick<Unit, "name" | "features">>
+  ): void {
+    this.execute("编辑单元", () => {
+      const location = this.index.getUnit(this.data, unitId);
+      if (location) {
+        this.updateUnitAt(location, (unit) => {
+          if (changes.name !== undefined) {
+            UnitHistory.record(unit, "renamed", unit.name, changes.name);
+          }
+          Object.assign(unit, changes);
+        });
       }
-      return false;
-    } catch (error) {
-      console.error("导入数据失败:", error);
-      return false;
-    }
+    });
   }
 
   /**
-   * 复制数据到剪贴板
+   * 删除单元
    */
-  copyToClipboard(): boolean {
-    try {
-      const jsonString = this.exportToJSON();
-      Clipboard.setString(jsonString);
-      return true;
-    } catch (error) {
-      console.error("复制到剪贴板失败:", error);
-      return false;
-    }
+  removeUnitById(unitId: string): void {
+    this.removeUnits([unitId]);
+  }
+
+  /**
+   * 批量删除单元，返回删除的数量
+   */
+  removeUnits(unitIds: string[]): number {
+    return this.execute("删除单元", () => {
+      let count = 0;
+      unitIds.forEach((unitId) => {
+        const location = this.index.getUnit(this.data, unitId);
+        if (location) {
+          const { collection, level, unit } = location;
+          level.units.splice(level.units.indexOf(unit), 1);
+          Timestamps.touch(level, collection);
+          this.emitChange("unit.removed", {
+            collectionId: collection.id,
+            levelId: level.id,
+            unitId,
+            before: clone(unit),
+            after: null,
+          });
+          count++;
+        }
+      });
+      return count;
+    });
+  }
+
+  /**
+   * 修改单元状态
+   * @description 状态是单元所在列表的唯一依据：收藏、推荐、回收站互斥；离开收藏状态时清除收藏理由
+   */
+  setUnitStatus(
+    unitId: string,
+    status: UnitStatus,
+    favoriteReason?: string
+  ): void {
+    this.setUnitsStatus([unitId], status, favoriteReason);
+  }
+
+  /**
+   * 批量修改单元状态，作为一个可撤销的步骤记录，返回实际修改的数量
+   * @description 已经是目标状态的单元保持不变（收藏时间、收藏理由不会被刷新）
+   */
+  setUnitsStatus(
+    unitIds: string[],
+    status: UnitStatus,
+    favoriteReason?: string
+  ): number {
+    return this.execute("修改单元状态", () => {
+      let count = 0;
+      unitIds.forEach((unitId) => {
+        const location = this.index.getUnit(this.data, unitId);
+        if (location && location.unit.status !== status) {
+          this.applyUnitStatus(location, status, favoriteReason);
+          count++;
+        }
+      });
+      return count;
+    });
+  }
+
+  /**
+   * 修改单元属性并产生 unit.updated 事件
+   */
+  private updateUnitAt(
+    { collection, level, unit }: UnitLocation,
+    update: (unit: Unit) => void
+  ): void {
+    const before = clone(unit);
+    update(unit);
+    if (!isSameValue(before, unit)) {
+      Timestamps.touch(unit, level, collection);
+    }
+    this.emitChange("unit.updated", {
+      collectionId: collection.id,
+      levelId: level.id,
+      unitId: unit.id,
+      before,
+      after: clone(unit),
+    });
+  }
+
+  /**
+   * 修改单元名称
+   */
+  renameUnit(unitId: string, name: string): void {
+    this.updateUnitById(unitId, { name });
+  }
+
+  /**
+   * 设置单元的特性值，value 为 null 时清除该值
+   */
+  setUnitFeatureValue(
+    unitId: string,
+    featureId: string,
+    value: FeatureValue | null
+  ): void {
+    this.setUnitsFeatureValue([unitId], featureId, value);
+  }
+
+  /**
+   * 批量设置单元的特性值（value 为 null 时清除），作为一个可撤销的步骤记录，返回实际修改的数量
+   */
+  setUnitsFeatureValue(
+    unitIds: string[],
+    featureId: string,
+    value: FeatureValue | null
+  ): number {
+    return this.execute("修改特性值", () => {
+      let count = 0;
+      unitIds.forEach((unitId) => {
+        const location = this.index.getUnit(this.data, unitId);
+        if (!location) return;
+        const existing = location.unit.features.find(
+          (f) => f.featureId === featureId
+        );
+        if (FeatureValues.isEqual(existing?.value ?? null, value)) return;
+        this.updateUnitAt(location, (unit) => {
+          UnitHistory.record(
+            unit,
+            "featureChanged",
+            existing?.value ?? null,
+            value,
+            featureId
+          );
+          if (value === null) {
+            unit.features = unit.features.filter(
+              (f) => f.featureId !== featureId
+            );
+          } else if (existing) {
+            existing.value = value;
+          } else {
+            unit.features.push({ featureId, value });
+          }
+        });
+        count++;
+      });
+      return count;
+    });
+  }
+
+  /**
+   * 将单元移动到同一集合的另一个层次末尾，作为一个可撤销的步骤记录，返回实际移动的数量
+   * @description 已在目标层次中的单元、其他集合的单元，以及与目标层次中已有单元重名的单元保持不动
+   */
+  moveUnits(unitIds: string[], collectionId: string, levelId: string): number {
+    return this.execute("移动单元", () => {
+      const target = this.getLevelById(collectionId, levelId);
+      if (!target) return 0;
+      let count = 0;
+      unitIds.forEach((unitId) => {
+        const location = this.index.getUnit(this.data, unitId);
+        if (
+          !location ||
+          location.collection.id !== collectionId ||
+          location.level === target ||
+          target.units.some((u) => u.name === location.unit.name)
+        ) {
+          return;
+        }
+        const { collection, level: source, unit } = location;
+        const before = clone(unit);
+        source.units.splice(source.units.indexOf(unit), 1);
+        target.units.push(unit);
+        UnitHistory.record(unit, "moved", source.name, target.name);
+        Timestamps.touch(unit, source, target, collection);
+        this.emitChange("unit.removed", {
+          collectionId,
+          levelId: source.id,
+          unitId,
+          before,
+          after: null,
+        });
+        this.emitChange("unit.added", {
+          collectionId,
+          levelId,
+          unitId,
+          before: null,
+          after: clone(unit),
+        });
+        count++;
+      });
+      return count;
+    });
+  }
+
+  /**
+   * 对多个单元执行同一个批量操作，作为一个可撤销的步骤记录，返回实际修改的数量
+   */
+  applyBulkUnitAction(
+    collectionId: string,
+    unitIds: string[],
+    action: BulkUnitAction
+  ): number {
+    return this.execute(BULK_UNIT_ACTION_LABELS[action.type], () => {
+      switch (action.type) {
+        case "recommend":
+          return this.setUnitsStatus(unitIds, "recommended");
+        case "trash":
+          return this.setUnitsStatus(unitIds, "trash");
+        case "favorite":
+          return this.setUnitsStatus(unitIds, "favorite", action.reason);
+        case "restore":
+          return this.setUnitsStatus(unitIds, "normal");
+        case "setFeature":
+          return this.setUnitsFeatureValue(
+            unitIds,
+            action.featureId,
+            action.value
+          );
+        case "move":
+          return this.moveUnits(unitIds, collectionId, action.levelId);
+      }
+    });
+  }
+
+  /**
+   * 将集合中推荐和回收站的单元全部归位到层级中，返回归位的单元数量
+   */
+  resetUnitStatuses(collectionId: string): number {
+    const unitIds: string[] = [];
+    this.getCollectionById(collectionId)?.levels.forEach((level) => {
+      level.units.forEach((unit) => {
+        if (unit.status === "recommended" || unit.status === "trash") {
+          unitIds.push(unit.id);
+        }
+      });
+    });
+    return this.execute("重置集合", () =>
+      this.setUnitsStatus(unitIds, "normal")
+    );
+  }
+
+  // ========== 回收站 ==========
+  // 删除的集合、层次、特性先标记 deletedAt 放入回收站；单元以 status 为 trash 表示在回收站中
+
+  /**
+   * 从回收站恢复集合
+   */
+  restoreCollection(collectionId: string): void {
+    this.execute("恢复集合", () =>
+      this.setCollectionDeleted(collectionId, false)
+    );
+  }
+
+  /**
+   * 从回收站恢复层次
+   */
+  restoreLevel(collectionId: string, levelId: string): void {
+    this.execute("恢复层次", () =>
+      this.setLevelDeleted(collectionId, levelId, false)
+    );
+  }
+
+  /**
+   * 从回收站恢复特性，单元中保留的特性值随之恢复
+   */
+  restoreFeature(featureId: string): void {
+    this.execute("恢复特性", () => this.setFeatureDeleted(featureId, false));
+  }
+
+  /**
+   * 彻底删除集合（连同其中的层次和单元）
+   */
+  purgeCollection(collectionId: string): void {
+    this.execute("彻底删除集合", () => {
+      const collection = this.getCollectionById(collectionId);
+      if (collection) {
+        this.data.collections.splice(
+          this.data.collections.indexOf(collection),
+          1
+        );
+        this.emitChange("collection.removed", {
+          collectionId,
+          before: clone(collection),
+          after: null,
+        });
+
+        // 从特性的适用集合中移除该集合；只适用于该集合的特性保留空的适用集合，
+        // 不在任何集合中显示，而不是变为全局特性出现在其他集合中
+        Object.values(this.data.features).forEach((feature) => {
+          if (!feature.collectionIds?.includes(collectionId)) return;
+          this.updateFeature(feature.id, {
+            ...feature,
+            collectionIds: feature.collectionIds.filter(
+              (id) => id !== collectionId
+            ),
+          });
+        });
+      }
+    });
+  }
+
+  /**
+   * 彻底删除层次（连同其中的单元）
+   */
+  purgeLevel(collectionId: string, levelId: string): void {
+    this.execute("彻底删除层次", () => {
+      const collection = this.getCollectionById(collectionId);
+      const level = this.getLevelById(collectionId, levelId);
+      if (collection && level) {
+        collection.levels.splice(collection.levels.indexOf(level), 1);
+        Timestamps.touch(collection);
+        this.emitChange("level.removed", {
+          collectionId,
+          levelId,
+          before: clone(level),
+          after: null,
+        });
+      }
+    });
+  }
+
+  /**
+   * 彻底删除特性
+   * @description 遍历所有集合、层次、单元，删除关联的特性值
+   */
+  purgeFeature(featureId: string): void {
+    this.execute("彻底删除特性", () => {
+      const feature = this.data.features[featureId];
+      if (feature) {
+        this.emitChange("feature.removed", {
+          featureId,
+          before: clone(feature),
+          after: null,
+        });
+      }
+
+      // 遍历所有集合
+      this.data.collections.forEach((collection) => {
+        // 遍历集合中的所有层次
+        collection.levels.forEach((level) => {
+          // 遍历层次中的所有单元
+          level.units.forEach((unit) => {
+            // 从单元的特性列表中删除该特性
+            if (unit.features.some((f) => f.featureId === featureId)) {
+              unit.features = unit.features.filter(
+                (f) => f.featureId !== featureId
+              );
+              Timestamps.touch(unit, level, collection);
+            }
+          });
+        });
+      });
+
+      // 从特性组中移除该特性
+      Object.values(this.data.featureSets).forEach((featureSet) => {
+        if (!featureSet.featureIds.includes(featureId)) return;
+        this.updateFeatureSet(featureSet.id, {
+          ...featureSet,
+          featureIds: featureSet.featureIds.filter((id) => id !== featureId),
+        });
+      });
+
+      // 删除特性对象
+      delete this.data.features[featureId];
+    });
+  }
+
+  /**
+   * 清空集合的回收站：彻底删除其中的单元和层次，返回删除的数量
+   */
+  emptyTrash(collectionId: string): number {
+    return this.execute("清空回收站", () => {
+      const collection = this.getCollectionById(collectionId);
+      if (!collection) return 0;
+      const unitIds: string[] = [];
+      const deletedLevelIds: string[] = [];
+      collection.levels.forEach((level) => {
+        if (level.deletedAt !== undefined) {
+          deletedLevelIds.push(level.id);
+        } else {
+          level.units
+            .filter((unit) => unit.status === "trash")
+            .forEach((unit) => unitIds.push(unit.id));
+        }
+      });
+      deletedLevelIds.forEach((levelId) =>
+        this.purgeLevel(collectionId, levelId)
+      );
+      return deletedLevelIds.length + this.removeUnits(unitIds);
+    });
+  }
+
+  /**
+   * 彻底删除回收站中超过保留天数的内容，返回删除的数量
+   * @param retentionDays 保留天数，0 表示永久保留
+   */
+  purgeExpiredTrash(retentionDays: number, now: number = Date.now()): number {
+    const expired = RecycleBin.findExpired(this.data, retentionDays, now);
+    return this.execute("清理回收站", () => {
+      expired.collectionIds.forEach((collectionId) =>
+        this.purgeCollection(collectionId)
+      );
+      expired.levels.forEach(({ collectionId, levelId }) =>
+        this.purgeLevel(collectionId, levelId)
+      );
+      expired.featureIds.forEach((featureId) => this.purgeFeature(featureId));
+      return (
+        expired.collectionIds.length +
+        expired.levels.length +
+        expired.featureIds.length +
+        this.removeUnits(expired.unitIds)
+      );
+    });
+  }
+
+  /**
+   * 设置或清除集合的删除时间
+   */
+  private setCollectionDeleted(collectionId: string, deleted: boolean): void {
+    const collection = this.getCollectionById(collectionId);
+    if (!collection || (collection.deletedAt !== undefined) === deleted) return;
+    const before = clone(collection);
+    if (deleted) {
+      collection.deletedAt = Date.now();
+    } else {
+      delete collection.deletedAt;
+    }
+    Timestamps.touch(collection);
+    this.emitChange("collection.updated", {
+      collectionId,
+      before,
+      after: clone(collection),
+    });
+  }
+
+  /**
+   * 设置或清除层次的删除时间
+   */
+  private setLevelDeleted(
+    collectionId: string,
+    levelId: string,
+    deleted: boolean
+  ): void {
+    const collection = this.getCollectionById(collectionId);
+    const level = this.getLevelById(collectionId, levelId);
+    if (!collection || !level || (level.deletedAt !== undefined) === deleted) {
+      return;
+    }
+    const before = clone(level);
+    if (deleted) {
+      level.deletedAt = Date.now();
+    } else {
+      delete level.deletedAt;
+    }
+    Timestamps.touch(level, collection);
+    this.emitChange("level.updated", {
+      collectionId,
+      levelId,
+      before,
+      after: clone(level),
+    });
+  }
+
+  /**
+   * 设置或清除特性的删除时间
+   */
+  private setFeatureDeleted(featureId: string, deleted: boolean): void {
+    const feature = this.data.features[featureId];
+    if (!feature || (feature.deletedAt !== undefined) === deleted) return;
+    const before = clone(feature);
+    if (deleted) {
+      feature.deletedAt = Date.now();
+    } else {
+      delete feature.deletedAt;
+    }
+    Timestamps.touch(feature);
+    this.emitChange("feature.updated", {
+      featureId,
+      before,
+      after: clone(feature),
+    });
+  }
+
+  // ========== 特性相关操作 ==========
+
+  /**
+   * 获取所有特性
+   */
+  getFeatures(): Record<string, Feature> {
+    return this.data.features;
+  }
+
+  /**
+   * 获取特性列表（数组形式，按显示顺序排列）
+   */
+  getFeaturesArray(): Feature[] {
+    return DataSelectors.sortFeatures(Object.values(this.data.features));
+  }
+
+  /**
+   * 获取特性
+   */
+  getFeature(featureId: string): Feature | undefined {
+    return this.data.features[featureId];
+  }
+
+  /**
+   * 添加特性（排在所有特性之后）
+   */
+  addFeature(feature: Feature): void {
+    this.execute("添加特性", () => {
+      const orders = Object.values(this.data.features).map(
+        (f) => f.order ?? -1
+      );
+      feature.order = Math.max(-1, ...orders) + 1;
+      this.data.features[feature.id] = feature;
+      this.emitChange("feature.added", {
+        featureId: feature.id,
+        before: null,
+        after: clone(feature),
+      });
+    });
+  }
+
+  /**
+   * 更新特性
+   * @description 修改类型或删除选项后，单元中的特性值按新的类型转换（见 FeatureValues.normalize），
+   * 无法转换的值被清除，并记录到单元历史中
+   */
+  updateFeature(featureId: string, feature: Feature): void {
+    this.execute("编辑特性", () => {
+      const before = this.data.features[featureId];
+      if (before) {
+        if (!isSameValue(before, feature)) {
+          Timestamps.touch(feature);
+        }
+        this.data.features[featureId] = feature;
+        this.emitChange("feature.updated", {
+          featureId,
+          before: clone(before),
+          after: clone(feature),
+        });
+        this.normalizeFeatureValues(feature);
+      }
+    });
+  }
+
+  /**
+   * 将所有单元中该特性的值转换为特性当前的类型和选项
+   */
+  private normalizeFeatureValues(feature: Feature): void {
+    this.data.collections.forEach((collection) => {
+      collection.levels.forEach((level) => {
+        level.units.forEach((unit) => {
+          const existing = unit.features.find(
+            (f) => f.featureId === feature.id
+          );
+          if (!existing) return;
+          const value = FeatureValues.normalize(feature, existing.value);
+          if (FeatureValues.isEqual(value, existing.value)) return;
+          UnitHistory.record(
+            unit,
+            "featureChanged",
+            existing.value,
+            value ?? null,
+            feature.id
+          );
+          if (value === undefined) {
+            unit.features = unit.features.filter(
+              (f) => f.featureId !== feature.id
+            );
+          } else {
+            existing.value = value;
+          }
+          Timestamps.touch(unit, level, collection);
+        });
+      });
+    });
+  }
+
+  /**
+   * 按给定的ID顺序重新排列特性，未列出的特性（如回收站中的特性）保持原顺序排在最后
+   */
+  reorderFeatures(featureIds: string[]): void {
+    this.execute("调整特性顺序", () => {
+      const order = new Map(
+        featureIds.map((featureId, index) => [featureId, index])
+      );
+      const before = this.getFeaturesArray().map((feature) => feature.id);
+      const sorted = this.getFeaturesArray().sort(
+        (a, b) =>
+          (order.get(a.id) ?? featureIds.length) -
+          (order.get(b.id) ?? featureIds.length)
+      );
+      sorted.forEach((feature, index) => {
+        if (feature.order !== index) {
+          feature.order = index;
+          Timestamps.touch(feature);
+        }
+      });
+      this.emitChange("feature.reordered", {
+        before,
+        after: sorted.map((feature) => feature.id),
+      });
+    });
+  }
+
+  /**
+   * 删除特性
+   * @description 特性移到回收站（标记 deletedAt），单元中的特性值保留，恢复后随之恢复；彻底删除使用 purgeFeature
+   */
+  removeFeature(featureId: string): void {
+    this.execute("删除特性", () => this.setFeatureDeleted(featureId, true));
+  }
+
+  // ========== 特性组相关操作 ==========
+
+  /**
+   * 获取所有特性组
+   */
+  getFeatureSets(): Record<string, FeatureSet> {
+    return this.data.featureSets;
+  }
+
+  /**
+   * 获取特性组
+   */
+  getFeatureSet(featureSetId: string): FeatureSet | undefined {
+    return this.data.featureSets[featureSetId];
+  }
+
+  /**
+   * 添加特性组
+   */
+  addFeatureSet(featureSet: FeatureSet): void {
+    this.execute("添加特性组", () => {
+      this.data.featureSets[featureSet.id] = featureSet;
+      this.emitChange("featureSet.added", {
+        featureSetId: featureSet.id,
+        before: null,
+        after: clone(featureSet),
+      });
+    });
+  }
+
+  /**
+   * 更新特性组
+   */
+  updateFeatureSet(featureSetId: string, featureSet: FeatureSet): void {
+    this.execute("编辑特性组", () => {
+      const before = this.data.featureSets[featureSetId];
+      if (before) {
+        if (!isSameValue(before, featureSet)) {
+          Timestamps.touch(featureSet);
+        }
+        this.data.featureSets[featureSetId] = featureSet;
+        this.emitChange("featureSet.updated", {
+          featureSetId,
+          before: clone(before),
+          after: clone(featureSet),
+        });
+        this.detachFeatures(
+          before.featureIds.filter(
+            (featureId) => !featureSet.featureIds.includes(featureId)
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * 设置使用特性组的集合
+   * @description 列表中的集合加入该特性组，其余集合退出该特性组
+   */
+  setFeatureSetCollections(
+    featureSetId: string,
+    collectionIds: string[]
+  ): void {
+    this.execute("编辑特性组", () => {
+      this.data.collections.forEach((collection) => {
+        const featureSetIds = collection.featureSetIds ?? [];
+        const isUsing = featureSetIds.includes(featureSetId);
+        if (isUsing === collectionIds.includes(collection.id)) return;
+        const next = isUsing
+          ? featureSetIds.filter((id) => id !== featureSetId)
+          : [...featureSetIds, featureSetId];
+        this.updateCollectionById(collection.id, {
+          featureSetIds: next.length > 0 ? next : undefined,
+        });
+      });
+    });
+  }
+
+  /**
+   * 删除特性组
+   * @description 直接删除（可撤销），同时从使用它的集合中移除；只属于该特性组的特性不在任何集合中显示
+   */
+  removeFeatureSet(featureSetId: string): void {
+    this.execute("删除特性组", () => {
+      const featureSet = this.data.featureSets[featureSetId];
+      if (!featureSet) return;
+      this.setFeatureSetCollections(featureSetId, []);
+      delete this.data.featureSets[featureSetId];
+      this.emitChange("featureSet.removed", {
+        featureSetId,
+        before: clone(featureSet),
+        after: null,
+      });
+      this.detachFeatures(featureSet.featureIds);
+    });
+  }
+
+  /**
+   * 离开特性组后既没有适用集合、也不属于其他特性组的特性，设置空的适用集合
+   * @description 避免这些特性变为全局特性，出现在原本不使用它们的集合中
+   */
+  private detachFeatures(featureIds: string[]): void {
+    featureIds.forEach((featureId) => {
+      const feature = this.data.features[featureId];
+      if (!feature || !DataSelectors.isGlobalFeature(this.data, feature)) {
+        return;
+      }
+      this.updateFeature(featureId, { ...feature, collectionIds: [] });
+    });
+  }
+
+  // ========== 存储相关操作 ==========
+
+  /**
+   * 保存数据到本地存储
+   * @description 立即完整写入；与延迟写入共用同一个队列，不会与进行中的写入并发
+   */
+  async save(): Promise<void> {
+    this.scheduler.markDirty();
+    await this.scheduler.flush();
+  }
+
+  /**
+   * 标记数据有修改，稍后合并写入
+   * @param collectionId 修改的集合ID；不传表示需要完整写入
+   */
+  scheduleSave(collectionId?: string): void {
+    this.scheduler.markDirty(collectionId);
+  }
+
+  /**
+   * 立即写入尚未保存的修改
+   */
+  flush(): Promise<void> {
+    return this.scheduler.flush();
+  }
+
+  /**
+   * 写入尚未保存的修改并停止调度，之后不应再使用该实例保存数据
+   */
+  dispose(): Promise<void> {
+    return this.scheduler.dispose();
+  }
+
+  /**
+   * 从本地存储加载数据
+   * @description 先写入所有页面尚未保存的修改，再由 UnifiedStorage 统一处理迁移、校验；
+   * 加载后自动清理回收站中过期的内容（不作为可撤销的步骤）
+   */
+  async load(): Promise<void> {
+    await PersistenceScheduler.flushAll();
+    this.setData(await this.storage.loadUnifiedData());
+    const retentionDays = await this.storage.getTrashRetentionDays();
+    if (this.purgeExpiredTrash(retentionDays) > 0) {
+      this.history.clear();
+      this.scheduleSave();
+    }
+  }
+
+  // ========== 导入导出相关操作 ==========
+
+  /**
+   * 导出数据为JSON字符串
+   */
+  exportToJSON(): string {
+    return JSON.stringify(this.data, null, 2);
+  }
+
+  /**
+   * 导出单个集合为JSON字符串（只包含其引用到的特性）
+   */
+  exportCollectionToJSON(collectionId: string): string | null {
+    const bundle = CollectionBundler.createBundle(this.data, collectionId);
+    return bundle ? JSON.stringify(bundle, null, 2) : null;
+  }
+
+  /**
+   * 解析待导入的JSON字符串
+   * @description 先升级到当前版本再做深度校验，任何错误都会拒绝导入
+   */
+  private parseImportData(jsonString: string): {
+    data?: DataStructure;
+    errors: ValidationError[];
+    isCollectionBundle?: boolean;
+  } {
+    let rawData: any;
+    try {
+      rawData = JSON.parse(jsonString);
+    } catch (error) {
+      console.error("导入数据失败:", error);
+      return { errors: [{ path: "", message: "不是有效的JSON" }] };
+    }
+
+    if (SchemaMigration.isNewerThanSupported(rawData)) {
+      return {
+        errors: [
+          {
+            path: "schemaVersion",
+            message: "数据版本高于当前应用支持的版本，请先升级应用",
+          },
+        ],
+      };
+    }
+
+    // 单集合导出包展开为完整结构，复用同一套迁移和校验
+    const isCollectionBundle = CollectionBundler.isBundle(rawData);
+    if (isCollectionBundle) {
+      rawData = CollectionBundler.unwrap(rawData);
+    }
+
+    try {
+      const parsedData = SchemaMigration.migrate(rawData);
+      const errors = DataValidator.validate(parsedData);
+      if (errors.length > 0) {
+        return { errors };
+      }
+      return { data: parsedData, errors: [], isCollectionBundle };
+    } catch (error) {
+      console.error("导入数据失败:", error);
+      return { errors: [{ path: "", message: "数据迁移失败" }] };
+    }
+  }
+
+  /**
+   * 从JSON字符串导入数据
+   * @description 完整数据覆盖现有数据；单集合导出包则重映射冲突ID后追加到现有数据中
+   */
+  importFromJSON(jsonString: string): ImportResult {
+    const { data, errors, isCollectionBundle } =
+      this.parseImportData(jsonString);
+    if (!data) {
+      return { success: false, errors };
+    }
+    if (isCollectionBundle) {
+      return this.addCollectionFromBundle(data);
+    }
+    this.execute("导入数据", () => {
+      this.data = data;
+      this.emitChange("data.replaced", { reason: "import" });
+    });
+    return { success: true, errors: [] };
+  }
+
+  /**
+   * 将单集合导出包追加到现有数据
+   */
+  private addCollectionFromBundle(bundleData: DataStructure): ImportResult {
+    if (bundleData.collections.length !== 1) {
+      return {
+        success: false,
+        errors: [{ path: "collection", message: "导出包中没有集合" }],
+      };
+    }
+    const { collection, features, featureSets, scopedFeatureIds } =
+      CollectionBundler.remapForImport(this.data, bundleData);
+    this.execute("导入集合", () => {
+      DataSelectors.sortFeatures(Object.values(features)).forEach((feature) =>
+        this.addFeature(feature)
+      );
+      Object.values(featureSets).forEach((featureSet) =>
+        this.addFeatureSet(featureSet)
+      );
+      this.addCollection(collection);
+      scopedFeatureIds.forEach((featureId) => {
+        const feature = this.data.features[featureId];
+        this.updateFeature(featureId, {
+          ...feature,
+          collectionIds: [...(feature.collectionIds ?? []), collection.id],
+        });
+      });
+    });
+    return { success: true, errors: [], collectionId: collection.id };
+  }
+
+  /**
+   * 预览合并导入
+   * @description 不修改当前数据，确认后调用 applyMerge 应用
+   */
+  previewMergeFromJSON(
+    jsonString: string,
+    policy: MergeConflictPolicy
+  ): MergeImportResult {
+    const { data, errors } = this.parseImportData(jsonString);
+    if (!data) {
+      return { success: false, errors };
+    }
+    const preview = DataMerger.merge(this.data, data, policy);
+    // 合并后可能出现跨集合的ID冲突，需要再次校验
+    const mergedErrors = DataValidator.validate(preview.data);
+    if (mergedErrors.length > 0) {
+      return { success: false, errors: mergedErrors };
+    }
+    return { success: true, errors: [], preview };
+  }
+
+  /**
+   * 应用合并预览
+   */
+  applyMerge(preview: MergePreview): void {
+    this.execute("合并导入", () => {
+      this.data = preview.data;
+      this.emitChange("data.replaced", { reason: "merge" });
+    });
+  }
+
+  /**
+   * 导出全部单元为CSV字符串（每个单元一行，每个特性一列）
+   */
+  exportToCSV(): string {
+    return CsvTransfer.exportUnits(this.data);
+  }
+
+  /**
+   * 从CSV字符串导入单元
+   * @description 按名称匹配并更新已有单元，创建不存在的集合、层级和单元；有任何错误时不修改数据
+   */
+  importFromCSV(csvText: string): CsvImportResult {
+    const { data, errors, summary } = CsvTransfer.importUnits(
+      this.data,
+      csvText
+    );
+    if (!data) {
+      return { success: false, errors };
+    }
+    this.execute("导入CSV", () => {
+      this.data = data;
+      this.emitChange("data.replaced", { reason: "csv" });
+    });
+    return { success: true, errors: [], summary };
+  }
+
+  /**
+   * 复制数据到剪贴板
+   */
+  copyToClipboard(): boolean {
+    try {
+      const jsonString = this.exportToJSON();
+      Clipboard.setString(jsonString);
+      return true;
+    } catch (error) {
+      console.error("复制到剪贴板失败:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 复制单个集合到剪贴板
+   */
+  copyCollectionToClipboard(collectionId: string): boolean {
+    try {
+      const jsonString = this.exportCollectionToJSON(collectionId);
+      if (!jsonString) {
+        return false;
+      }
+      Clipboard.setString(jsonString);
+      return true;
+    } catch (error) {
+      console.error("复制到剪贴板失败:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 复制CSV数据到剪贴板
+   */
+  copyCSVToClipboard(): boolean {
+    try {
+      Clipboard.setString(this.exportToCSV());
+      return true;
+    } catch (error) {
+      console.error("复制到剪贴板失败:", error);
+      return false;
+    }
   }
 
   /**
    * 从剪贴板读取数据
    */
-  async pasteFromClipboard(): Promise<boolean> {
+  async pasteFromClipboard(): Promise<ImportResult> {
     try {
       const jsonString = await Clipboard.getString();
       if (jsonString) {
         return this.importFromJSON(jsonString);
       }
-      return false;
+      return {
+        success: false,
+        errors: [{ path: "", message: "剪贴板中没有数据" }],
+      };
     } catch (error) {
       console.error("从剪贴板读取失败:", error);
-      return false;
+      return {
+        success: false,
+        errors: [{ path: "", message: "读取剪贴板失败" }],
+      };
+    }
+  }
+
+  // ========== 备份文件相关操作 ==========
+
+  /**
+   * 将当前数据写入带时间戳的备份文件
+   * @description 文件保存在应用文档目录的 backups 文件夹中，不受剪贴板长度限制
+   */
+  async createBackupFile(): Promise<BackupFile | null> {
+    return BackupFiles.writeBackup(this.exportToJSON());
+  }
+
+  /**
+   * 列出已有的备份文件（最新的在前）
+   */
+  async listBackupFiles(): Promise<BackupFile[]> {
+    return BackupFiles.listBackups();
+  }
+
+  /**
+   * 从备份文件恢复数据（与导入JSON相同，完整数据会覆盖现有数据）
+   */
+  async restoreFromBackupFile(uri: string): Promise<ImportResult> {
+    const jsonString = await BackupFiles.readBackup(uri);
+    if (!jsonString) {
+      return {
+        success: false,
+        errors: [{ path: "", message: "读取备份文件失败" }],
+      };
+    }
+    return this.importFromJSON(jsonString);
+  }
+
+  /**
+   * 删除备份文件
+   */
+  async deleteBackupFile(uri: string): Promise<boolean> {
+    return BackupFiles.deleteBackup(uri);
+  }
+
+  /**
+   * 通过系统分享面板分享备份文件
+   */
+  async shareBackupFile(uri: string): Promise<boolean> {
+    return BackupFiles.shareFile(uri);
+  }
+
+  /**
+   * 从剪贴板读取CSV数据
+   */
+  async pasteCSVFromClipboard(): Promise<CsvImportResult> {
+    try {
+      const csvText = await Clipboard.getString();
+      if (csvText) {
+        return this.importFromCSV(csvText);
+      }
+      return {
+        success: false,
+        errors: [{ path: "", message: "剪贴板中没有数据" }],
+      };
+    } catch (error) {
+      console.error("从剪贴板读取失败:", error);
+      return {
+        success: false,
+        errors: [{ path: "", message: "读取剪贴板失败" }],
+      };
     }
   }
 }
@@ -1,6 +1,10 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-
 import { DataMigration } from "@/utils/dataMigration";
+import { DataValidator } from "@/utils/dataValidator";
+import { logWarn } from "@/utils/debugLogger";
+import { defaultStorageBackend } from "@/utils/defaultStorageBackend";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/utils/recycleBin";
+import { SchemaMigration } from "@/utils/schemaMigration";
+import type { StorageBackend } from "@/utils/storageBackend";
 
 import type { DataStructure } from "@/types/dataStructure";
 import type {
@@ -15,25 +19,80 @@ import type {
 
 const UNIFIED_DATA_KEY = "@sf_app:unified_data";
 const MIGRATION_FLAG_KEY = "@sf_app:migration_completed";
+const SNAPSHOT_INDEX_KEY = "@sf_app:snapshots";
+const SNAPSHOT_KEY_PREFIX = "@sf_app:snapshot:";
+const BACKEND_MIGRATION_FLAG_KEY = "@sf_app:backend_migration_completed";
+const TRASH_RETENTION_DAYS_KEY = "@sf_app:trash_retention_days";
+
+/**
+ * 统一数据结构之前的旧版数据键
+ */
+const LEGACY_KEYS = {
+  collections: "@sf_app:collections",
+  levels: "@sf_app:levels",
+  features: "@sf_app:features",
+  unitFeatures: "@sf_app:unit_features",
+  recommendedUnits: "@sf_app:recommended_units",
+  trashedUnits: "@sf_app:trashed_units",
+  favoriteUnits: "@sf_app:favorite_units",
+};
+
+/**
+ * 保留的快照数量上限，超出后删除最旧的快照
+ */
+export const MAX_SNAPSHOTS = 10;
+
+/**
+ * 快照触发原因
+ * @description import（导入前）、reset（重置前）、daily（每日自动）、restore（恢复快照前）
+ */
+export type SnapshotReason = "import" | "reset" | "daily" | "restore";
+
+/**
+ * 快照信息（不含数据本身）
+ */
+export interface SnapshotInfo {
+  id: string;
+  reason: SnapshotReason;
+  createdAt: number;
+  /**
+   * 快照中的数据统计
+   */
+  summary: {
+    collections: number;
+    levels: number;
+    units: number;
+  };
+}
+
+const isSameDay = (a: number, b: number) =>
+  new Date(a).toDateString() === new Date(b).toDateString();
 
 /**
  * 统一存储管理器
- * @description 管理统一数据结构的存储和迁移
+ * @description 管理统一数据结构的存储和迁移，实际读写通过注入的存储后端完成
  */
 class UnifiedStorage {
+  private dailySnapshotTask: Promise<void> | null = null;
+  // 最近一次确认已有当天快照的时间，同一天内不再读取快照列表
+  private dailySnapshotCheckedAt: number | null = null;
+
+  constructor(private backend: StorageBackend = defaultStorageBackend) {}
+
   /**
    * 检查是否需要迁移
    */
-  static async needsMigration(): Promise<boolean> {
+  async needsMigration(): Promise<boolean> {
     try {
-      const migrationFlag = await AsyncStorage.getItem(MIGRATION_FLAG_KEY);
+      const migrationFlag = await this.backend.getItem(MIGRATION_FLAG_KEY);
       if (migrationFlag === "true") {
         return false; // 已经迁移过
       }
 
       // 检查是否存在旧数据
-      const oldCollectionsKey = "@sf_app:collections";
-      const oldCollections = await AsyncStorage.getItem(oldCollectionsKey);
+      const oldCollections = await this.backend.getItem(
+        LEGACY_KEYS.collections
+      );
       return oldCollections != null;
     } catch (error) {
       console.error("检查迁移状态失败:", error);
@@ -44,7 +103,7 @@ class UnifiedStorage {
   /**
    * 执行数据迁移
    */
-  static async migrate(): Promise<DataStructure> {
+  async migrate(): Promise<DataStructure> {
     try {
       // 加载旧数据
       const [
@@ -56,13 +115,13 @@ class UnifiedStorage {
         oldTrashedUnitsJson,
         oldFavoriteUnitsJson,
       ] = await Promise.all([
-        AsyncStorage.getItem("@sf_app:collections"),
-        AsyncStorage.getItem("@sf_app:levels"),
-        AsyncStorage.getItem("@sf_app:features"),
-        AsyncStorage.getItem("@sf_app:unit_features"),
-        AsyncStorage.getItem("@sf_app:recommended_units"),
-        AsyncStorage.getItem("@sf_app:trashed_units"),
-        AsyncStorage.getItem("@sf_app:favorite_units"),
+        this.backend.getItem(LEGACY_KEYS.collections),
+        this.backend.getItem(LEGACY_KEYS.levels),
+        this.backend.getItem(LEGACY_KEYS.features),
+        this.backend.getItem(LEGACY_KEYS.unitFeatures),
+        this.backend.getItem(LEGACY_KEYS.recommendedUnits),
+        this.backend.getItem(LEGACY_KEYS.trashedUnits),
+        this.backend.getItem(LEGACY_KEYS.favoriteUnits),
       ]);
 
       const oldCollections: OldCollection[] = oldCollectionsJson
@@ -85,39 +144,41 @@ class UnifiedStorage {
       const oldFavoriteUnits: Record<string, FavoriteUnit[]> =
         oldFavoriteUnitsJson ? JSON.parse(oldFavoriteUnitsJson) : {};
 
-      // 执行迁移
-      const newData = DataMigration.migrateToUnifiedStructure(
-        oldCollections,
-        oldLevels,
-        oldFeatures,
-        oldUnitFeatures,
-        oldRecommendedUnits,
-        oldTrashedUnits,
-        oldFavoriteUnits
+      // 执行迁移：先转换为统一结构，再升级到当前版本
+      const newData = SchemaMigration.migrate(
+        DataMigration.migrateToUnifiedStructure(
+          oldCollections,
+          oldLevels,
+          oldFeatures,
+          oldUnitFeatures,
+          oldRecommendedUnits,
+          oldTrashedUnits,
+          oldFavoriteUnits
+        )
       );
 
       // 保存新数据
-      await AsyncStorage.setItem(UNIFIED_DATA_KEY, JSON.stringify(newData));
+      await this.saveUnifiedData(newData);
 
       // 标记迁移完成
-      await AsyncStorage.setItem(MIGRATION_FLAG_KEY, "true");
+      await this.backend.setItem(MIGRATION_FLAG_KEY, "true");
 
       return newData;
     } catch (error) {
       console.error("数据迁移失败:", error);
       // 返回空数据结构
-      return {
-        collections: [],
-        features: {},
-      };
+      return SchemaMigration.createEmptyData();
     }
   }
 
   /**
    * 加载统一数据
    */
-  static async loadUnifiedData(): Promise<DataStructure> {
+  async loadUnifiedData(): Promise<DataStructure> {
     try {
+      // 切换存储后端后，先把原后端中的数据迁移过来
+      await this.migrateFromLegacyBackend();
+
       // 检查是否需要迁移
       const needsMigration = await this.needsMigration();
       if (needsMigration) {
@@ -126,46 +187,272 @@ class UnifiedStorage {
       }
 
       // 加载新数据
-      const jsonValue = await AsyncStorage.getItem(UNIFIED_DATA_KEY);
-      if (jsonValue != null) {
-        const parsedData = JSON.parse(jsonValue) as DataStructure;
+      const parsedData = await this.readStoredData();
+      if (parsedData != null) {
+        // 升级到当前版本，升级后立即写回，避免每次启动重复迁移
+        const migratedData = SchemaMigration.migrate(parsedData);
         // 验证数据结构
         if (
-          parsedData &&
-          Array.isArray(parsedData.collections) &&
-          typeof parsedData.features === "object" &&
-          parsedData.features !== null
+          migratedData &&
+          Array.isArray(migratedData.collections) &&
+          typeof migratedData.features === "object" &&
+          migratedData.features !== null
         ) {
-          return parsedData;
+          if (SchemaMigration.needsMigration(parsedData)) {
+            await this.saveUnifiedData(migratedData);
+          }
+          // 本地数据只记录深度校验问题，不丢弃用户已有的数据
+          const errors = DataValidator.validate(migratedData);
+          if (errors.length > 0) {
+            logWarn("DataValidator", "本地数据校验未通过", errors);
+          }
+          await this.ensureDailySnapshot();
+          return migratedData;
         }
       }
 
       // 返回默认数据结构
-      return {
-        collections: [],
-        features: {},
-      };
+      return SchemaMigration.createEmptyData();
     } catch (error) {
       console.error("加载统一数据失败:", error);
-      return {
-        collections: [],
-        features: {},
-      };
+      return SchemaMigration.createEmptyData();
     }
   }
 
   /**
    * 保存统一数据
+   * @param changedCollectionIds 修改过的集合ID，结构化存储据此只比较这些集合；不传时完整比较
    */
-  static async saveUnifiedData(data: DataStructure): Promise<void> {
+  async saveUnifiedData(
+    data: DataStructure,
+    changedCollectionIds?: string[]
+  ): Promise<void> {
     try {
-      const jsonValue = JSON.stringify(data);
-      await AsyncStorage.setItem(UNIFIED_DATA_KEY, jsonValue);
+      if (this.backend.dataStore) {
+        await this.backend.dataStore.saveData(data, changedCollectionIds);
+      } else {
+        await this.backend.setItem(UNIFIED_DATA_KEY, JSON.stringify(data));
+      }
     } catch (error) {
       console.error("保存统一数据失败:", error);
       throw error;
     }
   }
+
+  /**
+   * 读取已保存的数据（未经迁移和校验），没有数据时返回 null
+   */
+  private async readStoredData(): Promise<any | null> {
+    if (this.backend.dataStore) {
+      return this.backend.dataStore.loadData();
+    }
+    const jsonValue = await this.backend.getItem(UNIFIED_DATA_KEY);
+    return jsonValue != null ? JSON.parse(jsonValue) : null;
+  }
+
+  /**
+   * 从原存储后端迁移数据（只执行一次）
+   * @description 完整数据、快照和旧版数据都会复制过来；当前后端已有的数据不会被覆盖，原后端中的数据保留不动
+   */
+  private async migrateFromLegacyBackend(): Promise<void> {
+    const legacyBackend = this.backend.legacyBackend;
+    if (!legacyBackend) return;
+
+    const migrated = await this.backend.getItem(BACKEND_MIGRATION_FLAG_KEY);
+    if (migrated === "true") return;
+
+    try {
+      const legacyStorage = new UnifiedStorage(legacyBackend);
+      const legacyData = await legacyStorage.readStoredData();
+      if (legacyData != null && (await this.readStoredData()) == null) {
+        await this.saveUnifiedData(legacyData);
+      }
+
+      const legacySnapshots = await legacyStorage.listSnapshots();
+      const keys = [
+        MIGRATION_FLAG_KEY,
+        SNAPSHOT_INDEX_KEY,
+        ...legacySnapshots.map((s) => `${SNAPSHOT_KEY_PREFIX}${s.id}`),
+        ...Object.values(LEGACY_KEYS),
+      ];
+      for (const key of keys) {
+        const value = await legacyBackend.getItem(key);
+        if (value != null && (await this.backend.getItem(key)) == null) {
+          await this.backend.setItem(key, value);
+        }
+      }
+
+      await this.backend.setItem(BACKEND_MIGRATION_FLAG_KEY, "true");
+    } catch (error) {
+      // 迁移失败时保留标记为未完成，下次加载时重试
+      console.error("迁移存储后端数据失败:", error);
+    }
+  }
+
+  // ========== 回收站设置 ==========
+
+  /**
+   * 获取回收站保留天数（0 表示永久保留）
+   */
+  async getTrashRetentionDays(): Promise<number> {
+    try {
+      const value = await this.backend.getItem(TRASH_RETENTION_DAYS_KEY);
+      const days = value == null ? NaN : Number(value);
+      return Number.isInteger(days) && days >= 0
+        ? days
+        : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch (error) {
+      console.error("读取回收站设置失败:", error);
+      return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+  }
+
+  /**
+   * 保存回收站保留天数
+   */
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await this.backend.setItem(TRASH_RETENTION_DAYS_KEY, String(days));
+  }
+
+  // ========== 快照相关操作 ==========
+
+  /**
+   * 获取快照列表（最新的在前）
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    try {
+      const jsonValue = await this.backend.getItem(SNAPSHOT_INDEX_KEY);
+      const snapshots: SnapshotInfo[] = jsonValue ? JSON.parse(jsonValue) : [];
+      return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error("读取快照列表失败:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 为当前已保存的数据创建快照
+   * @description 在覆盖已保存的数据之前调用；只保留最近 MAX_SNAPSHOTS 个快照
+   */
+  async createSnapshot(reason: SnapshotReason): Promise<SnapshotInfo | null> {
+    try {
+      const storedData = await this.readStoredData();
+      if (storedData == null) {
+        return null;
+      }
+      const jsonValue = JSON.stringify(storedData);
+
+      const createdAt = Date.now();
+      const snapshot: SnapshotInfo = {
+        id: createdAt.toString(),
+        reason,
+        createdAt,
+        summary: this.summarize(storedData),
+      };
+      const snapshots = await this.listSnapshots();
+      // 同一毫秒内的重复快照直接覆盖
+      const keptSnapshots = [
+        snapshot,
+        ...snapshots.filter((s) => s.id !== snapshot.id),
+      ];
+      const expiredSnapshots = keptSnapshots.splice(MAX_SNAPSHOTS);
+
+      await this.backend.setItem(
+        `${SNAPSHOT_KEY_PREFIX}${snapshot.id}`,
+        jsonValue
+      );
+      await this.backend.setItem(
+        SNAPSHOT_INDEX_KEY,
+        JSON.stringify(keptSnapshots)
+      );
+      if (expiredSnapshots.length > 0) {
+        await this.backend.multiRemove(
+          expiredSnapshots.map((s) => `${SNAPSHOT_KEY_PREFIX}${s.id}`)
+        );
+      }
+      return snapshot;
+    } catch (error) {
+      console.error("创建快照失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 每天第一次加载或写入数据前自动创建快照
+   * @description 应用长时间不重启时也会在每天第一次写入前创建
+   */
+  async ensureDailySnapshot(): Promise<void> {
+    const now = Date.now();
+    if (
+      this.dailySnapshotCheckedAt !== null &&
+      isSameDay(this.dailySnapshotCheckedAt, now)
+    ) {
+      return;
+    }
+    // 多个页面同时加载时共用同一次检查，避免重复创建
+    if (!this.dailySnapshotTask) {
+      this.dailySnapshotTask = (async () => {
+        const snapshots = await this.listSnapshots();
+        const hasTodaySnapshot = snapshots.some(
+          (s) => s.reason === "daily" && isSameDay(s.createdAt, now)
+        );
+        if (hasTodaySnapshot || (await this.createSnapshot("daily"))) {
+          this.dailySnapshotCheckedAt = now;
+        }
+      })().finally(() => {
+        this.dailySnapshotTask = null;
+      });
+    }
+    return this.dailySnapshotTask;
+  }
+
+  /**
+   * 恢复快照
+   * @description 恢复前会先为当前数据创建快照，便于撤销这次恢复
+   */
+  async restoreSnapshot(id: string): Promise<DataStructure | null> {
+    try {
+      const jsonValue = await this.backend.getItem(
+        `${SNAPSHOT_KEY_PREFIX}${id}`
+      );
+      if (jsonValue == null) {
+        return null;
+      }
+      const data = SchemaMigration.migrate(JSON.parse(jsonValue));
+      const errors = DataValidator.validate(data);
+      if (errors.length > 0) {
+        logWarn("DataValidator", "快照数据校验未通过", errors);
+      }
+
+      await this.createSnapshot("restore");
+      await this.saveUnifiedData(data);
+      return data;
+    } catch (error) {
+      console.error("恢复快照失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 统计数据中的集合、层次和单元数量
+   */
+  private summarize(data: any): SnapshotInfo["summary"] {
+    const collections: any[] = Array.isArray(data?.collections)
+      ? data.collections
+      : [];
+    let levels = 0;
+    let units = 0;
+    collections.forEach((collection) => {
+      const collectionLevels: any[] = Array.isArray(collection?.levels)
+        ? collection.levels
+        : [];
+      levels += collectionLevels.length;
+      collectionLevels.forEach((level) => {
+        units += Array.isArray(level?.units) ? level.units.length : 0;
+      });
+    });
+    return { collections: collections.length, levels, units };
+  }
 }
 
 export default UnifiedStorage;
@@ -0,0 +1,90 @@
+import type {
+  Feature,
+  Unit,
+  UnitHistoryAction,
+  UnitHistoryEntry,
+  UnitStatus,
+} from "@/types/dataStructure";
+import { FeatureValues } from "@/utils/featureValues";
+
+/**
+ * 单元状态的显示名称
+ */
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  normal: "普通",
+  recommended: "推荐",
+  favorite: "收藏",
+  trash: "回收站",
+};
+
+/**
+ * 单元历史记录
+ * @description 单元的每次状态、名称、特性值变化和移动都追加一条记录，已有的记录不会被修改或删除
+ */
+export class UnitHistory {
+  /**
+   * 追加一条历史记录，值没有变化时不记录
+   */
+  static record(
+    unit: Unit,
+    action: UnitHistoryAction,
+    previousValue: UnitHistoryEntry["previousValue"],
+    newValue: UnitHistoryEntry["newValue"],
+    featureId?: string
+  ): void {
+    if (FeatureValues.isEqual(previousValue, newValue)) return;
+    const entry: UnitHistoryEntry = {
+      timestamp: Date.now(),
+      action,
+      previousValue,
+      newValue,
+    };
+    if (featureId) {
+      entry.featureId = featureId;
+    }
+    unit.history = [...(unit.history ?? []), entry];
+  }
+
+  /**
+   * 生成历史记录的说明文字，例如 “状态：推荐 → 回收站”
+   * @param features 全部特性，用于显示特性名称
+   */
+  static describe(
+    entry: UnitHistoryEntry,
+    features: Record<string, Feature>
+  ): string {
+    const format = (value: UnitHistoryEntry["newValue"], feature?: Feature) => {
+      if (value === null) return "无";
+      return FeatureValues.format(feature, value);
+    };
+
+    switch (entry.action) {
+      case "statusChanged":
+        return `状态：${
+          UNIT_STATUS_LABELS[entry.previousValue as UnitStatus] ??
+          format(entry.previousValue)
+        } → ${
+          UNIT_STATUS_LABELS[entry.newValue as UnitStatus] ??
+          format(entry.newValue)
+        }`;
+      case "renamed":
+        return `重命名：${format(entry.previousValue)} → ${format(
+          entry.newValue
+        )}`;
+      case "moved":
+        return `移动：${format(entry.previousValue)} → ${format(
+          entry.newValue
+        )}`;
+      case "featureChanged": {
+        const feature = entry.featureId ? features[entry.featureId] : undefined;
+        const featureName = feature?.name || "已删除的特性";
+        return `${featureName}：${format(
+          entry.previousValue,
+          feature
+        )} → ${format(entry.newValue, feature)}`;
+      }
+      default:
+        return entry.action;
+    }
+  }
+}